@@ -1,106 +1,316 @@
 
-import React, { useState, useEffect } from 'react';
-import { Download, X, Eye, EyeOff } from 'lucide-react';
-import { PIXELS_PER_PACE, TERRAIN_COLORS } from '../constants';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Download, X, Image as ImageIcon, ClipboardList, Printer, FileSpreadsheet, Route, Film, LayoutGrid, FileText, MapPin } from 'lucide-react';
+import { PIXELS_PER_PACE } from '../constants';
 import { ParadeState } from '../types';
+import { buildRunSheet, runSheetToCsv, runSheetToHtml } from '../utils/runSheetUtils';
+import { escapeHtml } from '../utils/htmlUtils';
+import { buildRouteCards } from '../utils/routeCardUtils';
+import { routeCardsToHtml } from './RouteCards';
+import { createFrameRenderer, drawStoryboard, loadSvgImage, FrameOptions } from './ParadeFrame';
+import { encodeWebM } from '../services/videoService';
+import { encodeGif } from '../services/gifService';
+import { paradePlanToSvg, getPlanSize, buildPlanPdf, markingPlanToHtml, PlanOptions } from './ParadePlan';
+import { getPageLayout, getPageLayoutError, clampPacesPerCm, PAPER_SIZES, PaperSize, MIN_PACES_PER_CM } from '../utils/planUtils';
+import { getStoryboardFrames } from '../utils/storyboardUtils';
+import { buildMarkingPlan, markingPlanToCsv, Datum, DATUM_LABELS } from '../utils/markingUtils';
+import { toInputDistance, fromDisplayDistance, getDistanceStep, getUnitLabel } from '../utils/unitUtils';
+
+type ExportFormat = 'SNAPSHOT' | 'RUN_SHEET' | 'ROUTE_CARDS' | 'MARKING' | 'VIDEO' | 'GIF' | 'STORYBOARD';
+
+const EXPORT_FORMATS: { format: ExportFormat, label: string, icon: React.ElementType }[] = [
+    { format: 'SNAPSHOT', label: 'Layout Plan', icon: ImageIcon },
+    { format: 'RUN_SHEET', label: 'Run Sheet', icon: ClipboardList },
+    { format: 'ROUTE_CARDS', label: 'Route Cards', icon: Route },
+    { format: 'MARKING', label: 'Marking Plan', icon: MapPin },
+    { format: 'VIDEO', label: 'Video', icon: Film },
+    { format: 'GIF', label: 'Animated GIF', icon: ImageIcon },
+    { format: 'STORYBOARD', label: 'Storyboard', icon: LayoutGrid }
+];
+
+type VideoResolution = '720p' | '1080p' | 'GROUND';
+
+const VIDEO_RESOLUTIONS: { resolution: VideoResolution, label: string }[] = [
+    { resolution: '720p', label: '720p' },
+    { resolution: '1080p', label: '1080p' },
+    { resolution: 'GROUND', label: 'Ground Size' }
+];
+
+const VIDEO_FRAME_RATES = [10, 15, 24, 30];
+const GIF_FRAME_RATES = [5, 10, 15];
+const GIF_WIDTHS = [480, 640, 800];
+
+const STORYBOARD_COUNTS = [4, 6, 9, 12, 16, 24];
+const STORYBOARD_CELL_WIDTH = 480;
+
+// Encoders want even dimensions
+const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+
+const getVideoSize = (resolution: VideoResolution, parade: ParadeState) => {
+    if (resolution === '720p') return { width: 1280, height: 720 };
+    if (resolution === '1080p') return { width: 1920, height: 1080 };
+    return { width: even(parade.config.width * PIXELS_PER_PACE), height: even(parade.config.height * PIXELS_PER_PACE) };
+};
+
+// GIFs are kept small, in the ground's own proportions so nothing is spent on letterboxing
+const getGifSize = (width: number, parade: ParadeState) => ({ width, height: even(width * parade.config.height / parade.config.width) });
+
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    // Some browsers start the download after click() returns, so give them a moment with the URL
+    setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+// Opens a document on its own so the browser's print dialog prints only that
+const printHtml = (html: string) => {
+    const win = window.open('', '_blank');
+    if (!win) {
+        alert('Allow pop-ups for this site to print.');
+        return;
+    }
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    win.print();
+};
+
+const Toggle: React.FC<{ label: string, value: boolean, onChange: (value: boolean) => void }> = ({ label, value, onChange }) => (
+    <label className="flex items-center justify-between group cursor-pointer">
+        <span className="text-sm text-gray-300 group-hover:text-white">{label}</span>
+        <div
+            onClick={() => onChange(!value)}
+            className={`w-10 h-5 rounded-full relative transition-colors ${value ? 'bg-green-600' : 'bg-gray-600'}`}
+        >
+            <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${value ? 'left-6' : 'left-1'}`} />
+        </div>
+    </label>
+);
 
 interface ExportModalProps {
     isOpen: boolean;
     onClose: () => void;
     parade: ParadeState;
+    currentTime: number; // Playhead, for the layout plan
 }
 
-export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, parade }) => {
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, parade, currentTime }) => {
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
     const [showGrid, setShowGrid] = useState(true);
     const [showPaths, setShowPaths] = useState(false);
+    const [showMarking, setShowMarking] = useState(false);
     const [isGenerating, setIsGenerating] = useState(false);
+    const [format, setFormat] = useState<ExportFormat>('SNAPSHOT');
+
+    const fileBase = parade.config.title.replace(/\s+/g, '_');
 
     useEffect(() => {
-        if (isOpen) {
+        if (isOpen && format === 'SNAPSHOT') {
             generatePreview();
         } else {
             setPreviewUrl(null);
         }
-    }, [isOpen, showGrid, showPaths]);
+    }, [isOpen, showGrid, showPaths, showMarking, format, parade, currentTime]);
 
-    const generatePreview = () => {
-        setIsGenerating(true);
-        const svgElement = document.getElementById('parade-canvas-svg');
-        if (!svgElement) {
-            setIsGenerating(false);
+    const runSheetPhases = useMemo(
+        () => isOpen && format === 'RUN_SHEET' ? buildRunSheet(parade) : [],
+        [isOpen, format, parade]
+    );
+    const runSheetHtml = useMemo(
+        () => format === 'RUN_SHEET' ? runSheetToHtml(parade, runSheetPhases) : '',
+        [format, parade, runSheetPhases]
+    );
+    const runSheetRowCount = runSheetPhases.reduce((sum, phase) => sum + phase.rows.length, 0);
+
+    const [movingOnly, setMovingOnly] = useState(true);
+    const routeCards = useMemo(
+        () => isOpen && format === 'ROUTE_CARDS' ? buildRouteCards(parade, { movingOnly }) : [],
+        [isOpen, format, parade, movingOnly]
+    );
+    const routeCardsHtml = useMemo(
+        () => format === 'ROUTE_CARDS' ? routeCardsToHtml(parade, routeCards) : '',
+        [format, parade, routeCards]
+    );
+
+    const [datum, setDatum] = useState<Datum>('NW');
+    const markingPoints = useMemo(
+        () => isOpen && format === 'MARKING' ? buildMarkingPlan(parade) : [],
+        [isOpen, format, parade]
+    );
+    const markingHtml = useMemo(
+        () => format === 'MARKING' ? markingPlanToHtml(parade, markingPoints, datum) : '',
+        [format, parade, markingPoints, datum]
+    );
+
+    // Video and GIF share their range, overlays and progress; each has its own size and rate
+    const isAnimated = format === 'VIDEO' || format === 'GIF';
+    const [fps, setFps] = useState(15);
+    const [gifFps, setGifFps] = useState(10);
+    const [resolution, setResolution] = useState<VideoResolution>('720p');
+    const [gifWidth, setGifWidth] = useState(640);
+    const [range, setRange] = useState({ start: 0, end: parade.animation.duration });
+    const [showTimestamp, setShowTimestamp] = useState(true);
+    const [showCue, setShowCue] = useState(true);
+    const [framePreviewUrl, setFramePreviewUrl] = useState<string | null>(null);
+    const [encodeProgress, setEncodeProgress] = useState<number | null>(null);
+    const encodeAbortRef = useRef<AbortController | null>(null);
+
+    const clipSize = format === 'GIF' ? getGifSize(gifWidth, parade) : getVideoSize(resolution, parade);
+    const clipFps = format === 'GIF' ? gifFps : fps;
+    const clipStart = Math.max(0, Math.min(range.start, parade.animation.duration));
+    const clipEnd = Math.max(clipStart, Math.min(range.end, parade.animation.duration));
+    const clipFrameCount = Math.floor((clipEnd - clipStart) * clipFps) + 1;
+    const frameOptions: FrameOptions = { showGrid, showPaths, showMarking, showTimestamp, showCue };
+
+    const [storyboardCount, setStoryboardCount] = useState(9);
+    const [storyboardColumns, setStoryboardColumns] = useState(3);
+    const [storyboardUrl, setStoryboardUrl] = useState<string | null>(null);
+    const storyboardFrames = useMemo(
+        () => isOpen && format === 'STORYBOARD' ? getStoryboardFrames(parade, storyboardCount) : [],
+        [isOpen, format, parade, storyboardCount]
+    );
+
+    useEffect(() => {
+        setRange({ start: 0, end: parade.animation.duration });
+    }, [isOpen]);
+
+    // Abandon an export in progress when the dialog closes
+    useEffect(() => {
+        if (!isOpen) encodeAbortRef.current?.abort();
+    }, [isOpen]);
+
+    // Still of the first frame, drawn exactly as the video or GIF will be
+    useEffect(() => {
+        if (!isOpen || !isAnimated) {
+            setFramePreviewUrl(null);
             return;
         }
+        let cancelled = false;
+        const canvas = document.createElement('canvas');
+        canvas.width = clipSize.width;
+        canvas.height = clipSize.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        createFrameRenderer(parade, frameOptions)(ctx, clipStart)
+            .then(() => { if (!cancelled) setFramePreviewUrl(canvas.toDataURL('image/png')); })
+            .catch(e => console.error('Failed to draw frame preview', e));
+        return () => { cancelled = true; };
+    }, [isOpen, format, parade, resolution, gifWidth, clipStart, showGrid, showPaths, showMarking, showTimestamp, showCue]);
 
-        // Clone the SVG to manipulate it for export
-        const clone = svgElement.cloneNode(true) as SVGSVGElement;
-        
-        // Reset ViewBox/Dimensions to match full parade size (unscaled)
-        const width = parade.config.width * PIXELS_PER_PACE;
-        const height = parade.config.height * PIXELS_PER_PACE;
-        
-        clone.setAttribute('width', width.toString());
-        clone.setAttribute('height', height.toString());
-        clone.style.width = `${width}px`;
-        clone.style.height = `${height}px`;
-        clone.style.cursor = 'default';
-
-        // Reset Transform (remove pan/zoom)
-        const g = clone.querySelector('g');
-        if (g) {
-            g.setAttribute('transform', 'scale(1)');
+    useEffect(() => {
+        if (!isOpen || format !== 'STORYBOARD') {
+            setStoryboardUrl(null);
+            return;
         }
+        let cancelled = false;
+        setIsGenerating(true);
+        drawStoryboard(parade, storyboardFrames, frameOptions, { columns: storyboardColumns, cellWidth: STORYBOARD_CELL_WIDTH })
+            .then(sheet => { if (!cancelled) setStoryboardUrl(sheet.toDataURL('image/png')); })
+            .catch(e => console.error('Failed to draw storyboard', e))
+            .finally(() => { if (!cancelled) setIsGenerating(false); });
+        return () => { cancelled = true; };
+    }, [isOpen, format, parade, storyboardFrames, storyboardColumns, showGrid, showPaths, showMarking, showCue]);
 
-        // Handle Toggles
-        if (!showGrid) {
-            const grid = clone.querySelector('#grid-layer');
-            if (grid) grid.remove();
-        }
-        if (!showPaths) {
-            const paths = clone.querySelector('#paths-layer');
-            if (paths) paths.remove();
+    const handleExportClip = async () => {
+        const controller = new AbortController();
+        encodeAbortRef.current = controller;
+        setEncodeProgress(0);
+        const drawFrame = createFrameRenderer(parade, frameOptions);
+        const encode = format === 'GIF' ? encodeGif : encodeWebM;
+        try {
+            const blob = await encode({
+                ...clipSize,
+                fps: clipFps,
+                frameCount: clipFrameCount,
+                renderFrame: (index, ctx) => drawFrame(ctx, Math.min(clipEnd, clipStart + index / clipFps)),
+                onProgress: setEncodeProgress,
+                signal: controller.signal
+            });
+            downloadBlob(blob, `${fileBase}.${format === 'GIF' ? 'gif' : 'webm'}`);
+        } catch (e) {
+            if (!(e instanceof DOMException && e.name === 'AbortError')) {
+                console.error('Export failed', e);
+                alert(`Export failed: ${e instanceof Error ? e.message : e}`);
+            }
+        } finally {
+            encodeAbortRef.current = null;
+            setEncodeProgress(null);
         }
+    };
+
+    const handleDownloadStoryboard = () => {
+        if (!storyboardUrl) return;
+        const a = document.createElement('a');
+        a.href = storyboardUrl;
+        a.download = `${fileBase}_storyboard.png`;
+        a.click();
+    };
 
-        const data = (new XMLSerializer()).serializeToString(clone);
-        const svgBlob = new Blob([data], {type: 'image/svg+xml;charset=utf-8'});
-        const url = URL.createObjectURL(svgBlob);
+    const handlePrintStoryboard = () => {
+        if (!storyboardUrl) return;
+        printHtml(`<!DOCTYPE html><html><head><title>${escapeHtml(parade.config.title)} - Storyboard</title><style>@page { margin: 10mm; } body { margin: 0; } img { width: 100%; }</style></head><body><img src="${storyboardUrl}"></body></html>`);
+    };
 
-        // Convert to PNG for preview
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        const img = new Image();
-
-        img.onload = () => {
-            if (ctx) {
-                // Draw background explicitly (as some viewers might ignore SVG rect)
-                ctx.fillStyle = TERRAIN_COLORS[parade.config.terrain];
-                ctx.fillRect(0, 0, width, height);
-                ctx.drawImage(img, 0, 0);
-                const pngUrl = canvas.toDataURL('image/png');
-                setPreviewUrl(pngUrl);
-                URL.revokeObjectURL(url);
-                setIsGenerating(false);
-            }
-        };
-        img.onerror = () => {
+    const planOptions: PlanOptions = { showGrid, showPaths, showMarking, time: currentTime };
+    const planSize = getPlanSize(parade);
+    const [paper, setPaper] = useState<PaperSize>('A4');
+    const [pacesPerCm, setPacesPerCm] = useState(2);
+    const pageLayout = getPageLayout(parade.config.width, parade.config.height, pacesPerCm, paper);
+    const pageLayoutError = getPageLayoutError(pageLayout);
+
+    const generatePreview = () => {
+        setIsGenerating(true);
+        loadSvgImage(paradePlanToSvg(parade, planOptions))
+            .then(img => {
+                const canvas = document.createElement('canvas');
+                canvas.width = planSize.width;
+                canvas.height = planSize.height;
+                canvas.getContext('2d')?.drawImage(img, 0, 0);
+                setPreviewUrl(canvas.toDataURL('image/png'));
+            })
+            .catch(e => console.error('Failed to draw plan', e))
+            .finally(() => setIsGenerating(false));
+    };
+
+    const handleDownloadSvg = () => {
+        downloadBlob(new Blob([paradePlanToSvg(parade, planOptions)], { type: 'image/svg+xml;charset=utf-8' }), `${fileBase}_layout.svg`);
+    };
+
+    const handleDownloadPdf = async () => {
+        setIsGenerating(true);
+        try {
+            downloadBlob(await buildPlanPdf(parade, planOptions, { paper, pacesPerCm }), `${fileBase}_plan.pdf`);
+        } catch (e) {
+            console.error('PDF export failed', e);
+            alert(`PDF export failed: ${e instanceof Error ? e.message : e}`);
+        } finally {
             setIsGenerating(false);
-            URL.revokeObjectURL(url);
-        };
-        img.src = url;
+        }
     };
 
     const handleDownload = () => {
         if (previewUrl) {
             const a = document.createElement('a');
             a.href = previewUrl;
-            a.download = `${parade.config.title.replace(/\s+/g, '_')}_layout.png`;
+            a.download = `${fileBase}_layout.png`;
             a.click();
             onClose();
         }
     };
 
+    const handleDownloadCsv = () => {
+        downloadBlob(new Blob([runSheetToCsv(runSheetPhases, parade.config)], { type: 'text/csv;charset=utf-8' }), `${fileBase}_run_sheet.csv`);
+    };
+
+    const handleDownloadMarkingCsv = () => {
+        downloadBlob(new Blob([markingPlanToCsv(markingPoints, datum, parade.config)], { type: 'text/csv;charset=utf-8' }), `${fileBase}_marking_plan.csv`);
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -108,7 +318,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, parad
             <div className="bg-gray-800 rounded-xl shadow-2xl border border-gray-700 w-full max-w-4xl max-h-[90vh] flex flex-col">
                 <div className="flex items-center justify-between p-4 border-b border-gray-700 shrink-0">
                     <h2 className="text-xl font-bold text-gray-200 flex items-center gap-2">
-                        <Download className="w-5 h-5 text-green-500" /> Export Layout Snapshot
+                        <Download className="w-5 h-5 text-green-500" /> Export {EXPORT_FORMATS.find(f => f.format === format)!.label}
                     </h2>
                     <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white">
                         <X className="w-6 h-6" />
@@ -118,33 +328,257 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, parad
                 <div className="flex-1 flex overflow-hidden">
                     {/* Sidebar Controls */}
                     <div className="w-64 bg-gray-900/50 border-r border-gray-700 p-6 flex flex-col gap-6 shrink-0">
+                        <div>
+                            <h3 className="text-xs uppercase font-bold text-gray-500 mb-3 tracking-wider">Format</h3>
+                            <div className="space-y-1">
+                                {EXPORT_FORMATS.map(({ format: f, label, icon: Icon }) => (
+                                    <button
+                                        key={f}
+                                        onClick={() => setFormat(f)}
+                                        className={`w-full flex items-center gap-2 px-3 py-2 rounded text-sm transition-colors ${format === f ? 'bg-green-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                                    >
+                                        <Icon className="w-4 h-4" /> {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {format === 'SNAPSHOT' && (<>
                         <div>
                             <h3 className="text-xs uppercase font-bold text-gray-500 mb-3 tracking-wider">Visual Options</h3>
                             <div className="space-y-3">
-                                <label className="flex items-center justify-between group cursor-pointer">
-                                    <span className="text-sm text-gray-300 group-hover:text-white">Show Grid Lines</span>
-                                    <div 
-                                        onClick={() => setShowGrid(!showGrid)}
-                                        className={`w-10 h-5 rounded-full relative transition-colors ${showGrid ? 'bg-green-600' : 'bg-gray-600'}`}
-                                    >
-                                        <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${showGrid ? 'left-6' : 'left-1'}`} />
-                                    </div>
+                                <Toggle label="Show Grid Lines" value={showGrid} onChange={setShowGrid} />
+                                <Toggle label="Show Animation Paths" value={showPaths} onChange={setShowPaths} />
+                                <Toggle label="Show Marking Points" value={showMarking} onChange={setShowMarking} />
+                            </div>
+                        </div>
+
+                        </>)}
+
+                        {format === 'RUN_SHEET' && (
+                        <div className="mt-auto space-y-2">
+                             <div className="text-xs text-gray-500 mb-2">
+                                 {runSheetRowCount} entr{runSheetRowCount === 1 ? 'y' : 'ies'} in {runSheetPhases.length} phase{runSheetPhases.length === 1 ? '' : 's'}
+                             </div>
+                             <button
+                                onClick={() => printHtml(runSheetHtml)}
+                                className="w-full py-3 bg-green-600 hover:bg-green-500 text-white rounded font-bold shadow-lg flex items-center justify-center gap-2 transition-all"
+                             >
+                                <Printer className="w-4 h-4" /> Print
+                             </button>
+                             <button
+                                onClick={handleDownloadCsv}
+                                className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded font-bold flex items-center justify-center gap-2 transition-all"
+                             >
+                                <FileSpreadsheet className="w-4 h-4" /> Download CSV
+                             </button>
+                        </div>
+                        )}
+
+                        {format === 'ROUTE_CARDS' && (<>
+                        <div>
+                            <h3 className="text-xs uppercase font-bold text-gray-500 mb-3 tracking-wider">Cards</h3>
+                            <Toggle label="Only People Who Move" value={movingOnly} onChange={setMovingOnly} />
+                        </div>
+                        <div className="mt-auto space-y-2">
+                             <div className="text-xs text-gray-500 mb-2">
+                                 {routeCards.length} card{routeCards.length === 1 ? '' : 's'}, one page each
+                             </div>
+                             <button
+                                onClick={() => printHtml(routeCardsHtml)}
+                                className="w-full py-3 bg-green-600 hover:bg-green-500 text-white rounded font-bold shadow-lg flex items-center justify-center gap-2 transition-all"
+                             >
+                                <Printer className="w-4 h-4" /> Print
+                             </button>
+                        </div>
+                        </>)}
+
+                        {format === 'MARKING' && (<>
+                        <div>
+                            <h3 className="text-xs uppercase font-bold text-gray-500 mb-3 tracking-wider">Measure From</h3>
+                            <select value={datum} onChange={(e) => setDatum(e.target.value as Datum)} className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200">
+                                {(Object.keys(DATUM_LABELS) as Datum[]).map(d => <option key={d} value={d}>{DATUM_LABELS[d]}</option>)}
+                            </select>
+                        </div>
+                        <div className="mt-auto space-y-2">
+                             <div className="text-xs text-gray-500 mb-2">
+                                 {markingPoints.length} mark{markingPoints.length === 1 ? '' : 's'} to lay out
+                             </div>
+                             <button
+                                onClick={() => printHtml(markingHtml)}
+                                className="w-full py-3 bg-green-600 hover:bg-green-500 text-white rounded font-bold shadow-lg flex items-center justify-center gap-2 transition-all"
+                             >
+                                <Printer className="w-4 h-4" /> Print
+                             </button>
+                             <button
+                                onClick={handleDownloadMarkingCsv}
+                                className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded font-bold flex items-center justify-center gap-2 transition-all"
+                             >
+                                <FileSpreadsheet className="w-4 h-4" /> Download CSV
+                             </button>
+                        </div>
+                        </>)}
+
+                        {isAnimated && (<>
+                        <div>
+                            <h3 className="text-xs uppercase font-bold text-gray-500 mb-3 tracking-wider">{format === 'GIF' ? 'Animation' : 'Video'}</h3>
+                            <div className="space-y-3 text-sm text-gray-300">
+                                {format === 'GIF' ? (<>
+                                <label className="flex items-center justify-between">
+                                    Width
+                                    <select value={gifWidth} onChange={(e) => setGifWidth(Number(e.target.value))} className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200">
+                                        {GIF_WIDTHS.map(w => <option key={w} value={w}>{w} px</option>)}
+                                    </select>
                                 </label>
-                                <label className="flex items-center justify-between group cursor-pointer">
-                                    <span className="text-sm text-gray-300 group-hover:text-white">Show Animation Paths</span>
-                                    <div 
-                                        onClick={() => setShowPaths(!showPaths)}
-                                        className={`w-10 h-5 rounded-full relative transition-colors ${showPaths ? 'bg-green-600' : 'bg-gray-600'}`}
-                                    >
-                                        <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${showPaths ? 'left-6' : 'left-1'}`} />
+                                <label className="flex items-center justify-between">
+                                    Frame Rate
+                                    <select value={gifFps} onChange={(e) => setGifFps(Number(e.target.value))} className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200">
+                                        {GIF_FRAME_RATES.map(r => <option key={r} value={r}>{r} fps</option>)}
+                                    </select>
+                                </label>
+                                </>) : (<>
+                                <label className="flex items-center justify-between">
+                                    Resolution
+                                    <select value={resolution} onChange={(e) => setResolution(e.target.value as VideoResolution)} className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200">
+                                        {VIDEO_RESOLUTIONS.map(r => <option key={r.resolution} value={r.resolution}>{r.label}</option>)}
+                                    </select>
+                                </label>
+                                <label className="flex items-center justify-between">
+                                    Frame Rate
+                                    <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200">
+                                        {VIDEO_FRAME_RATES.map(r => <option key={r} value={r}>{r} fps</option>)}
+                                    </select>
+                                </label>
+                                </>)}
+                                <div className="flex items-center justify-between gap-2">
+                                    Range (s)
+                                    <div className="flex items-center gap-1">
+                                        <input type="number" min={0} max={clipEnd} step={0.5} value={range.start} onChange={(e) => setRange({ ...range, start: Number(e.target.value) })} className="w-16 bg-gray-800 border border-gray-600 rounded px-1 py-1 text-gray-200" />
+                                        <span className="text-gray-500">-</span>
+                                        <input type="number" min={clipStart} max={parade.animation.duration} step={0.5} value={range.end} onChange={(e) => setRange({ ...range, end: Number(e.target.value) })} className="w-16 bg-gray-800 border border-gray-600 rounded px-1 py-1 text-gray-200" />
                                     </div>
+                                </div>
+                            </div>
+                        </div>
+                        <div>
+                            <h3 className="text-xs uppercase font-bold text-gray-500 mb-3 tracking-wider">Overlays</h3>
+                            <div className="space-y-3">
+                                <Toggle label="Timestamp" value={showTimestamp} onChange={setShowTimestamp} />
+                                <Toggle label="Words of Command" value={showCue} onChange={setShowCue} />
+                                <Toggle label="Show Grid Lines" value={showGrid} onChange={setShowGrid} />
+                                <Toggle label="Show Animation Paths" value={showPaths} onChange={setShowPaths} />
+                                <Toggle label="Show Marking Points" value={showMarking} onChange={setShowMarking} />
+                            </div>
+                        </div>
+                        <div className="mt-auto space-y-2">
+                             <div className="text-xs text-gray-500 mb-2">
+                                 {clipFrameCount} frames, {clipSize.width} x {clipSize.height} px
+                             </div>
+                             {encodeProgress !== null ? (<>
+                                 <div className="h-2 bg-gray-700 rounded overflow-hidden">
+                                     <div className="h-full bg-green-500 transition-all" style={{ width: `${Math.round(encodeProgress * 100)}%` }} />
+                                 </div>
+                                 <button
+                                    onClick={() => encodeAbortRef.current?.abort()}
+                                    className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded font-bold flex items-center justify-center gap-2 transition-all"
+                                 >
+                                    <X className="w-4 h-4" /> Cancel ({Math.round(encodeProgress * 100)}%)
+                                 </button>
+                             </>) : (
+                             <button
+                                onClick={handleExportClip}
+                                className="w-full py-3 bg-green-600 hover:bg-green-500 text-white rounded font-bold shadow-lg flex items-center justify-center gap-2 transition-all"
+                             >
+                                <Download className="w-4 h-4" /> Download {format === 'GIF' ? 'GIF' : 'WebM'}
+                             </button>
+                             )}
+                        </div>
+                        </>)}
+
+                        {format === 'STORYBOARD' && (<>
+                        <div>
+                            <h3 className="text-xs uppercase font-bold text-gray-500 mb-3 tracking-wider">Storyboard</h3>
+                            <div className="space-y-3 text-sm text-gray-300">
+                                <label className="flex items-center justify-between">
+                                    Frames
+                                    <select value={storyboardCount} onChange={(e) => setStoryboardCount(Number(e.target.value))} className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200">
+                                        {STORYBOARD_COUNTS.map(n => <option key={n} value={n}>Up to {n}</option>)}
+                                    </select>
                                 </label>
+                                <label className="flex items-center justify-between">
+                                    Columns
+                                    <select value={storyboardColumns} onChange={(e) => setStoryboardColumns(Number(e.target.value))} className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200">
+                                        {[2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                                    </select>
+                                </label>
+                                <Toggle label="Words of Command" value={showCue} onChange={setShowCue} />
+                                <Toggle label="Show Grid Lines" value={showGrid} onChange={setShowGrid} />
+                                <Toggle label="Show Animation Paths" value={showPaths} onChange={setShowPaths} />
+                                <Toggle label="Show Marking Points" value={showMarking} onChange={setShowMarking} />
                             </div>
                         </div>
+                        <div className="mt-auto space-y-2">
+                             <div className="text-xs text-gray-500 mb-2">
+                                 {storyboardFrames.length} frame{storyboardFrames.length === 1 ? '' : 's'} at action boundaries
+                             </div>
+                             <button
+                                onClick={handlePrintStoryboard}
+                                disabled={!storyboardUrl || isGenerating}
+                                className="w-full py-3 bg-green-600 hover:bg-green-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded font-bold shadow-lg flex items-center justify-center gap-2 transition-all"
+                             >
+                                <Printer className="w-4 h-4" /> Print
+                             </button>
+                             <button
+                                onClick={handleDownloadStoryboard}
+                                disabled={!storyboardUrl || isGenerating}
+                                className="w-full py-2 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-gray-200 rounded font-bold flex items-center justify-center gap-2 transition-all"
+                             >
+                                <Download className="w-4 h-4" /> Download PNG
+                             </button>
+                        </div>
+                        </>)}
 
-                        <div className="mt-auto">
+                        {format === 'SNAPSHOT' && (
+                        <div className="mt-auto space-y-2">
+                             <h3 className="text-xs uppercase font-bold text-gray-500 mb-3 tracking-wider">Print At Scale</h3>
+                             <div className="space-y-3 text-sm text-gray-300 mb-2">
+                                <label className="flex items-center justify-between">
+                                    Paper
+                                    <select value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)} className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200">
+                                        {(Object.keys(PAPER_SIZES) as PaperSize[]).map(p => <option key={p} value={p}>{p}</option>)}
+                                    </select>
+                                </label>
+                                <label className="flex items-center justify-between">
+                                    {getUnitLabel(parade.config)} per cm
+                                    <input
+                                        type="number" min={toInputDistance(MIN_PACES_PER_CM, parade.config)} step={getDistanceStep(parade.config)} value={toInputDistance(pacesPerCm, parade.config)}
+                                        onChange={(e) => { const v = fromDisplayDistance(Number(e.target.value), parade.config); if (v > 0) setPacesPerCm(clampPacesPerCm(v)); }}
+                                        className="w-16 bg-gray-800 border border-gray-600 rounded px-1 py-1 text-gray-200"
+                                    />
+                                </label>
+                             </div>
+                             {pageLayoutError ? (
+                                 <div className="text-xs text-red-400 mb-2">{pageLayoutError}</div>
+                             ) : (
+                                 <div className="text-xs text-gray-500 mb-2">
+                                     {pageLayout.tiles.length} sheet{pageLayout.tiles.length === 1 ? '' : 's'} ({pageLayout.columns} x {pageLayout.rows}, {pageLayout.landscape ? 'landscape' : 'portrait'}) plus an overview
+                                 </div>
+                             )}
+                             <button
+                                onClick={handleDownloadPdf}
+                                disabled={isGenerating || !!pageLayoutError}
+                                className="w-full py-2 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-gray-200 rounded font-bold flex items-center justify-center gap-2 transition-all"
+                             >
+                                <FileText className="w-4 h-4" /> Download PDF
+                             </button>
+                             <button
+                                onClick={handleDownloadSvg}
+                                className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded font-bold flex items-center justify-center gap-2 transition-all"
+                             >
+                                <Download className="w-4 h-4" /> Download SVG
+                             </button>
                              <div className="text-xs text-gray-500 mb-2">
-                                 Snapshot Size: <span className="text-gray-300">{Math.round(parade.config.width * PIXELS_PER_PACE)} x {Math.round(parade.config.height * PIXELS_PER_PACE)} px</span>
+                                 Plan Size: <span className="text-gray-300">{planSize.width} x {planSize.height} px</span>
                              </div>
                              <button 
                                 onClick={handleDownload}
@@ -158,9 +592,30 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, parad
                                 )}
                             </button>
                         </div>
+                        )}
                     </div>
 
                     {/* Preview Area */}
+                    {isAnimated || format === 'STORYBOARD' ? (
+                    <div className="flex-1 bg-black/50 p-8 flex items-center justify-center overflow-auto relative">
+                        {format === 'STORYBOARD' && isGenerating && (
+                             <div className="absolute inset-0 flex items-center justify-center bg-black/20 z-10">
+                                 <div className="w-8 h-8 border-2 border-green-500 border-t-transparent rounded-full animate-spin"></div>
+                             </div>
+                        )}
+                        {(format === 'STORYBOARD' ? storyboardUrl : framePreviewUrl) && (
+                            <img
+                                src={(format === 'STORYBOARD' ? storyboardUrl : framePreviewUrl)!}
+                                alt={format === 'STORYBOARD' ? 'Storyboard' : 'First Frame'}
+                                className="max-w-full max-h-full object-contain border border-gray-700 shadow-2xl rounded"
+                            />
+                        )}
+                    </div>
+                    ) : format !== 'SNAPSHOT' ? (
+                    <div className="flex-1 bg-black/50 p-4 flex overflow-hidden">
+                        <iframe title="Print Preview" srcDoc={format === 'RUN_SHEET' ? runSheetHtml : format === 'MARKING' ? markingHtml : routeCardsHtml} className="flex-1 bg-white rounded shadow-2xl" />
+                    </div>
+                    ) : (
                     <div className="flex-1 bg-black/50 p-8 flex items-center justify-center overflow-auto relative">
                         {isGenerating && (
                              <div className="absolute inset-0 flex items-center justify-center bg-black/20 z-10">
@@ -180,6 +635,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, parad
                             </div>
                         )}
                     </div>
+                    )}
                 </div>
             </div>
         </div>
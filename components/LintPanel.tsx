@@ -0,0 +1,55 @@
+import React from 'react';
+import { ListChecks, X, OctagonAlert, TriangleAlert, CircleCheck } from 'lucide-react';
+import { LintIssue } from '../types';
+
+interface LintPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    issues: LintIssue[];
+    onPick: (issue: LintIssue) => void;
+}
+
+export const LintPanel: React.FC<LintPanelProps> = ({ isOpen, onClose, issues, onPick }) => {
+    if (!isOpen) return null;
+
+    const errorCount = issues.filter(i => i.severity === 'ERROR').length;
+    const warningCount = issues.length - errorCount;
+
+    return (
+        <div className="absolute top-4 right-4 z-30 w-80 max-h-[70%] flex flex-col bg-gray-900/95 backdrop-blur-sm rounded-lg shadow-2xl border border-gray-700">
+            <div className="flex items-center justify-between p-3 border-b border-gray-800 shrink-0">
+                <h2 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+                    <ListChecks className="w-4 h-4 text-blue-400" /> Parade Lint
+                </h2>
+                <div className="flex items-center gap-3">
+                    <span className="text-xs text-gray-500">
+                        {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+                    </span>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-800 rounded text-gray-400 hover:text-white">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="overflow-y-auto p-2 space-y-1">
+                {issues.length === 0 && (
+                    <div className="flex items-center gap-2 p-3 text-sm text-green-400">
+                        <CircleCheck className="w-4 h-4" /> No problems found
+                    </div>
+                )}
+                {issues.map(issue => (
+                    <button
+                        key={issue.id}
+                        onClick={() => onPick(issue)}
+                        className="w-full flex items-start gap-2 p-2 rounded text-left text-xs text-gray-300 hover:bg-gray-800 transition-colors"
+                    >
+                        {issue.severity === 'ERROR'
+                            ? <OctagonAlert className="w-4 h-4 shrink-0 text-red-400" />
+                            : <TriangleAlert className="w-4 h-4 shrink-0 text-amber-400" />}
+                        <span>{issue.message}</span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -1,9 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { ParadeState, TerrainType } from '../types';
+import { ParadeState, TerrainType, DistanceUnit, PaceLength } from '../types';
 import { getSavedParades } from '../services/storageService';
 import { Map, Plus, Save, LayoutGrid, Trash2 } from 'lucide-react';
-import { TERRAIN_COLORS } from '../constants';
+import { TERRAIN_COLORS, DEFAULT_PACE_LENGTH } from '../constants';
+import { toInputDistance, fromDisplayDistance, getDistanceStep, getUnitLabel, formatDistanceValue, getUnitSuffix } from '../utils/unitUtils';
 
 interface MainMenuProps {
   onStart: (state: ParadeState) => void;
@@ -18,6 +19,18 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStart }) => {
   const [width, setWidth] = useState(50);
   const [height, setHeight] = useState(40);
   const [terrain, setTerrain] = useState<TerrainType>('ASPHALT');
+  const [units, setUnits] = useState<DistanceUnit>('PACES');
+  const [paceLength, setPaceLength] = useState<PaceLength>(DEFAULT_PACE_LENGTH);
+
+  // Width and height are held in paces and typed in whichever unit is chosen
+  const unitSettings = { units, paceLength };
+  const handleSizeChange = (setSize: (paces: number) => void, value: string) => {
+      const paces = fromDisplayDistance(parseFloat(value), unitSettings);
+      if (Number.isFinite(paces)) setSize(Math.round(paces * 100) / 100);
+  };
+  const handlePaceLengthChange = (key: keyof PaceLength, value: number) => {
+      if (Number.isFinite(value) && value > 0) setPaceLength({ ...paceLength, [key]: value });
+  };
 
   useEffect(() => {
     setSaves(getSavedParades());
@@ -32,7 +45,9 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStart }) => {
         width,
         height,
         terrain,
-        lastModified: Date.now()
+        lastModified: Date.now(),
+        paceLength,
+        units
       },
       entities: [],
       groups: {},
@@ -105,22 +120,58 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStart }) => {
             
             <div className="grid grid-cols-2 gap-6">
               <div>
-                <label className="block text-xs font-bold text-yellow-600 uppercase mb-1 tracking-wider">Width (Paces)</label>
+                <label className="block text-xs font-bold text-yellow-600 uppercase mb-1 tracking-wider">Units</label>
+                <div className="flex bg-gray-800 border border-gray-700 rounded p-1">
+                  {(['PACES', 'METRES'] as DistanceUnit[]).map(u => (
+                    <button
+                      key={u}
+                      type="button"
+                      onClick={() => setUnits(u)}
+                      className={`flex-1 py-2 rounded text-xs font-bold uppercase tracking-wider transition-colors ${units === u ? 'bg-yellow-600 text-black' : 'text-gray-400 hover:text-gray-200'}`}
+                    >
+                      {u === 'PACES' ? 'Paces' : 'Metres'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-yellow-600 uppercase mb-1 tracking-wider">Pace Length (m)</label>
+                <div className="flex gap-2">
+                  <input 
+                    type="number" 
+                    min="0.3" max="1.5" step="0.01"
+                    value={paceLength.quick}
+                    onChange={(e) => handlePaceLengthChange('quick', parseFloat(e.target.value))}
+                    title="Quick time"
+                    className="w-full min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-3 text-gray-100 focus:border-yellow-500 outline-none transition-colors"
+                  />
+                  <input 
+                    type="number" 
+                    min="0.3" max="1.5" step="0.01"
+                    value={paceLength.slow}
+                    onChange={(e) => handlePaceLengthChange('slow', parseFloat(e.target.value))}
+                    title="Slow time"
+                    className="w-full min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-3 text-gray-100 focus:border-yellow-500 outline-none transition-colors"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-yellow-600 uppercase mb-1 tracking-wider">Width ({getUnitLabel(unitSettings)})</label>
                 <input 
                   type="number" 
-                  min="10" max="200"
-                  value={width}
-                  onChange={(e) => setWidth(Number(e.target.value))}
+                  min={toInputDistance(10, unitSettings)} max={toInputDistance(200, unitSettings)} step={getDistanceStep(unitSettings)}
+                  value={toInputDistance(width, unitSettings)}
+                  onChange={(e) => handleSizeChange(setWidth, e.target.value)}
                   className="w-full bg-gray-800 border border-gray-700 rounded px-4 py-3 text-gray-100 focus:border-yellow-500 outline-none transition-colors"
                 />
               </div>
               <div>
-                <label className="block text-xs font-bold text-yellow-600 uppercase mb-1 tracking-wider">Height (Paces)</label>
+                <label className="block text-xs font-bold text-yellow-600 uppercase mb-1 tracking-wider">Height ({getUnitLabel(unitSettings)})</label>
                 <input 
                   type="number" 
-                  min="10" max="200"
-                  value={height}
-                  onChange={(e) => setHeight(Number(e.target.value))}
+                  min={toInputDistance(10, unitSettings)} max={toInputDistance(200, unitSettings)} step={getDistanceStep(unitSettings)}
+                  value={toInputDistance(height, unitSettings)}
+                  onChange={(e) => handleSizeChange(setHeight, e.target.value)}
                   className="w-full bg-gray-800 border border-gray-700 rounded px-4 py-3 text-gray-100 focus:border-yellow-500 outline-none transition-colors"
                 />
               </div>
@@ -214,7 +265,7 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStart }) => {
                     <div className="relative z-10">
                         <h4 className="font-bold text-lg text-gray-200 group-hover:text-yellow-400 transition-colors">{save.config.title}</h4>
                         <div className="text-xs text-gray-500 mt-1 flex gap-4 font-mono">
-                            <span className="flex items-center gap-1"><LayoutGrid className="w-3 h-3" /> {save.config.width}x{save.config.height}</span>
+                            <span className="flex items-center gap-1"><LayoutGrid className="w-3 h-3" /> {+formatDistanceValue(save.config.width, save.config)}x{+formatDistanceValue(save.config.height, save.config)} {getUnitSuffix(save.config)}</span>
                             <span className="uppercase text-yellow-600/80">{getTerrainLabel(save.config.terrain)}</span>
                         </div>
                     </div>
@@ -1,6 +1,7 @@
 
 import React from 'react';
-import { MousePointer2, Move, ZoomIn, ZoomOut, Undo2, Redo2, Magnet, Save, Route } from 'lucide-react';
+import { DistanceUnit } from '../types';
+import { MousePointer2, Move, ZoomIn, ZoomOut, Undo2, Redo2, Magnet, Save, Route, MapPin, Ruler } from 'lucide-react';
 
 interface NotchBarProps {
   tool: 'SELECT' | 'PAN';
@@ -18,11 +19,15 @@ interface NotchBarProps {
   canRedo: boolean;
   showPaths?: boolean;
   setShowPaths?: (v: boolean) => void;
+  showMarking?: boolean;
+  setShowMarking?: (v: boolean) => void;
+  units?: DistanceUnit;
+  setUnits?: (units: DistanceUnit) => void;
 }
 
 export const NotchBar: React.FC<NotchBarProps> = ({ 
     tool, setTool, snapToGrid, setSnapToGrid, scale, onZoom, onResetZoom, onCenterCanvas, onUndo, onRedo, onSave, canUndo, canRedo,
-    showPaths, setShowPaths
+    showPaths, setShowPaths, showMarking, setShowMarking, units = 'PACES', setUnits
 }) => {
   return (
     <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-gray-800 rounded-full shadow-lg border border-gray-700 px-4 py-2 flex items-center gap-1 z-10">
@@ -94,6 +99,25 @@ export const NotchBar: React.FC<NotchBarProps> = ({
             <Route className="w-4 h-4" />
             </button>
         )}
+        {setShowMarking && (
+            <button 
+            onClick={() => setShowMarking(!showMarking)}
+            className={`p-2 rounded-full transition-colors ${showMarking ? 'text-pink-400 bg-pink-900/30' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+            title="Toggle Ground Marking Points"
+            >
+            <MapPin className="w-4 h-4" />
+            </button>
+        )}
+        {setUnits && (
+            <button 
+            onClick={() => setUnits(units === 'METRES' ? 'PACES' : 'METRES')}
+            className="p-2 rounded-full transition-colors text-gray-400 hover:text-white hover:bg-gray-700 flex items-center gap-1"
+            title={`Distances in ${units === 'METRES' ? 'metres' : 'paces'} (click to switch)`}
+            >
+            <Ruler className="w-4 h-4" />
+            <span className="text-[10px] font-bold font-mono w-4">{units === 'METRES' ? 'm' : 'pc'}</span>
+            </button>
+        )}
         <button 
           onClick={onSave}
           className="p-2 text-blue-400 hover:text-blue-300 hover:bg-blue-900/30 rounded-full ml-1"
@@ -1,8 +1,13 @@
 
 import React, { useRef, useState, useMemo } from 'react';
-import { Entity, ParadeState, Coordinates, EntityType, GroupMetadata, AnimationAction, AnimationTrack, AnchorPosition } from '../types';
+import { Entity, ParadeState, Coordinates, EntityType, GroupMetadata, AnimationAction, AnimationTrack, Pose, PathWaypoint } from '../types';
 import { PIXELS_PER_PACE, TERRAIN_COLORS, GRID_MAJOR_INTERVAL, SELECTION_COLOR, ENTITY_SIZE_MAP, BOX_SELECT_BORDER, BOX_SELECT_FILL } from '../constants';
-import { renderEntityVisual } from './RenderUtils';
+import { renderEntityVisual, getFlagColor } from './RenderUtils';
+import { getMovePathPoints, resolveWheelPivot, resolveActionTargets, rotateAround, toRelativeOffset } from '../utils/animationUtils';
+import { ConflictZone } from '../utils/collisionUtils';
+import { CueWord } from '../utils/cueUtils';
+import { MarkingPoint } from '../utils/markingUtils';
+import { MarkingLayer } from './ParadeFrame';
 
 interface ParadeCanvasProps {
   parade: ParadeState;
@@ -18,10 +23,15 @@ interface ParadeCanvasProps {
   tool: 'SELECT' | 'PAN';
   showPaths?: boolean;
   selectedActionId?: string | null;
-  onUpdateAction?: (actionId: string, updates: Partial<AnimationAction>) => void;
+  onUpdateAction?: (actionId: string, updates: Partial<AnimationAction>, retime?: boolean) => void;
+  onCommitAction?: (actionId: string) => void; // A target, waypoint or pivot drag has been dropped
   isPlaying?: boolean;
   // New prop for handling drop logic in parent
   onObjectDrop?: (type: EntityType, x: number, y: number) => void;
+  conflictZones?: ConflictZone[]; // Collisions in progress at the displayed time
+  cueWord?: CueWord | null; // Word of command being called at the displayed time
+  markingPoints?: MarkingPoint[]; // Ground marks to overlay, when the marking layer is on
+  clipStartPoses: Map<string, Pose>; // Pose each path is drawn from at the start of every clip, from the layout
 }
 
 export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
@@ -39,8 +49,13 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
   showPaths = true,
   selectedActionId,
   onUpdateAction,
+  onCommitAction,
   isPlaying = false,
-  onObjectDrop
+  onObjectDrop,
+  conflictZones = [],
+  cueWord = null,
+  markingPoints,
+  clipStartPoses
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -50,7 +65,8 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
   
   // Animation Path Dragging State
   const [draggingActionId, setDraggingActionId] = useState<string | null>(null);
-  const [draggingWaypointActionId, setDraggingWaypointActionId] = useState<string | null>(null);
+  const [draggingWaypoint, setDraggingWaypoint] = useState<{ actionId: string, index: number } | null>(null);
+  const [draggingPivot, setDraggingPivot] = useState<{ actionId: string, start: Pose } | null>(null); // Pose the wheel starts from
   
   // Multi-select Box State
   const [isBoxSelecting, setIsBoxSelecting] = useState(false);
@@ -58,6 +74,17 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
 
   const [initialEntityPositions, setInitialEntityPositions] = useState<Map<string, Coordinates>>(new Map());
 
+  // Canvas handles work in world space; relative clips store their points as offsets from the clip's start
+  const toPayloadPoint = (action: AnimationAction, point: Coordinates): Coordinates => {
+    const start = clipStartPoses.get(action.id);
+    return action.payload.targetMode === 'RELATIVE' && start ? toRelativeOffset(point, start) : point;
+  };
+
+  const getWorldPayload = (action: AnimationAction) => {
+    const start = clipStartPoses.get(action.id);
+    return start ? resolveActionTargets(action.payload, start) : action.payload;
+  };
+
   // Correct Coordinate Transform: Screen -> SVG Space -> Transformed Group Space -> Paces
   const getPacesFromEvent = (e: React.MouseEvent | React.DragEvent | React.TouchEvent): Coordinates => {
     if (!svgRef.current) return { x: 0, y: 0 };
@@ -128,9 +155,11 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
          const targetAction = actions.find(a => a.id === selectedActionId);
          
          if (targetAction && targetAction.type === 'MOVE') {
+             const payload = getWorldPayload(targetAction);
+
              // 1. Check Target Handle
-             const tx = targetAction.payload.targetX;
-             const ty = targetAction.payload.targetY;
+             const tx = payload.targetX;
+             const ty = payload.targetY;
              if (tx !== undefined && ty !== undefined) {
                  const dist = Math.sqrt(Math.pow(tx - clickPaces.x, 2) + Math.pow(ty - clickPaces.y, 2));
                  if (dist < 0.5) { // 0.5 pace hit radius
@@ -140,29 +169,13 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
                  }
              }
              
-             // 2. Check Waypoint/Elbow Handle
-             if (targetAction.payload.movePathMode !== 'DIRECT') {
-                 // Determine where the handle currently IS
-                 let handleX = 0, handleY = 0;
-                 if (targetAction.payload.waypoint) {
-                     handleX = targetAction.payload.waypoint.x;
-                     handleY = targetAction.payload.waypoint.y;
-                 } else {
-                     // Default calculation if no explicit waypoint is set but we are orthogonal
-                     // We need approximate start position for hit testing default elbow,
-                     // but to keep it simple, we only hit test if the renderer drew the rect.
-                     // The renderer logic below ensures the rect is drawn at the right spot.
-                 }
-                 
-                 // Fallback check if we have explicit waypoint
-                 if (targetAction.payload.waypoint) {
-                     const distW = Math.sqrt(Math.pow(handleX - clickPaces.x, 2) + Math.pow(handleY - clickPaces.y, 2));
-                     if (distW < 0.5) {
-                         setDraggingWaypointActionId(selectedActionId);
-                         setIsDragging(true);
-                         return;
-                     }
-                 }
+             // 2. Check Waypoint Handles (the default elbow and insert handles carry their own mouse handlers)
+             const waypoints = payload.waypoints || [];
+             const hitIndex = waypoints.findIndex(w => Math.sqrt(Math.pow(w.x - clickPaces.x, 2) + Math.pow(w.y - clickPaces.y, 2)) < 0.5);
+             if (hitIndex !== -1) {
+                 setDraggingWaypoint({ actionId: selectedActionId, index: hitIndex });
+                 setIsDragging(true);
+                 return;
              }
          }
     }
@@ -253,14 +266,18 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
             targetY = Math.round(targetY * 2) / 2;
         }
         
-        onUpdateAction(draggingActionId, {
-            payload: { targetX, targetY } 
-        });
+        const action = Object.values(parade.animation.tracks).flatMap((t: AnimationTrack) => t.actions).find(a => a.id === draggingActionId);
+        if (action) {
+            const target = toPayloadPoint(action, { x: targetX, y: targetY });
+            onUpdateAction(draggingActionId, {
+                payload: { targetX: target.x, targetY: target.y }
+            }, false);
+        }
         return;
     }
 
     // Handle Path Waypoint Dragging
-    if (isDragging && draggingWaypointActionId && onUpdateAction) {
+    if (isDragging && draggingWaypoint && onUpdateAction) {
         let wx = currentPaces.x;
         let wy = currentPaces.y;
         
@@ -269,34 +286,40 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
             wy = Math.round(wy * 2) / 2;
         }
 
-        // We need to fetch current payload to preserve other fields?
-        // onUpdateAction is Partial merge, but payload is a nested object, so we must be careful.
-        // Usually React state updates are shallow merge on top level. 
-        // PropertiesPanel implementation of `onUpdateAction` does:
-        // `const proposed = { ...track.actions[actionIndex], ...updates };`
-        // But `updates.payload` will overwrite `track.actions[actionIndex].payload` if we aren't careful.
-        // The implementation in Simulator.tsx:
-        // `onUpdateAction(draggingActionId, { payload: { targetX, targetY } })`
-        // We need to make sure we don't wipe existing payload data.
-        // Simulator.tsx `handleUpdateAction` implementation: 
-        // It does `newActions[actionIndex] = { ...newActions[actionIndex], ...updates };`
-        // If updates contains `payload`, it overwrites the whole payload object? 
-        // Check Simulator.tsx: `const proposed = { ...track.actions[actionIndex], ...updates };`
-        // Yes, if we pass `payload: { waypoint }`, we lose `targetX` etc.
-        // WE MUST merge the payload manually in the `onUpdateAction` call here, 
-        // OR fix Simulator.tsx to deep merge payload.
-        // Fix: In Simulator.tsx, we rely on the caller to provide full payload update or we fix Simulator.
-        // Looking at PropertiesPanel: it does `onUpdateAction(..., { payload: { ...selectedAction.payload, [key]: value } })`.
-        // So we should do the same here. We need the current action to merge payload.
-        
-        // Find the action
+        // Payload updates replace nested fields wholesale, so send the full waypoint list
         const actions = Object.values(parade.animation.tracks).flatMap((t: AnimationTrack) => t.actions);
-        const action = actions.find(a => a.id === draggingWaypointActionId);
+        const action = actions.find(a => a.id === draggingWaypoint.actionId);
+        const waypoints = action?.payload.waypoints;
         
+        if (action && waypoints && waypoints[draggingWaypoint.index]) {
+            const newWaypoints = waypoints.map((w, i) => i === draggingWaypoint.index ? { ...w, ...toPayloadPoint(action, { x: wx, y: wy }) } : w);
+            onUpdateAction(draggingWaypoint.actionId, {
+                payload: { ...action.payload, waypoints: newWaypoints }
+            }, false);
+        }
+        return;
+    }
+
+    // Handle Wheel Pivot Dragging
+    if (isDragging && draggingPivot && onUpdateAction) {
+        let px = currentPaces.x;
+        let py = currentPaces.y;
+
+        if (snapToGrid) {
+            px = Math.round(px * 2) / 2;
+            py = Math.round(py * 2) / 2;
+        }
+
+        const actions = Object.values(parade.animation.tracks).flatMap((t: AnimationTrack) => t.actions);
+        const action = actions.find(a => a.id === draggingPivot.actionId);
+
         if (action) {
-            onUpdateAction(draggingWaypointActionId, {
-                payload: { ...action.payload, waypoint: { x: wx, y: wy } }
-            });
+            const pivot = action.payload.pivotMode === 'ABSOLUTE'
+                ? { x: px, y: py }
+                : toRelativeOffset({ x: px, y: py }, draggingPivot.start);
+            onUpdateAction(draggingPivot.actionId, {
+                payload: { ...action.payload, pivot }
+            }, false);
         }
         return;
     }
@@ -382,6 +405,10 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
         onSelectionChange(newSelectedIds);
     }
 
+    // Path handles follow the mouse without retiming; the track is retimed once on drop
+    const draggedActionId = draggingActionId || draggingWaypoint?.actionId || draggingPivot?.actionId;
+    if (isDragging && draggedActionId) onCommitAction?.(draggedActionId);
+
     setIsDragging(false);
     setDragStart(null);
     setDragAnchorId(null);
@@ -389,7 +416,8 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
     setIsBoxSelecting(false);
     setSelectionBox(null);
     setDraggingActionId(null);
-    setDraggingWaypointActionId(null);
+    setDraggingWaypoint(null);
+    setDraggingPivot(null);
     setInitialEntityPositions(new Map());
   };
 
@@ -458,31 +486,6 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
     return labels;
   }, [parade.entities, parade.groups]);
 
-  // --- Helper to calculate Anchor Position from Group ---
-  const getAnchorPos = (entities: Entity[], groupId: string, anchorType: AnchorPosition = 'TL') => {
-      const members = entities.filter(e => e.groupId === groupId);
-      if (members.length === 0) return { x: 0, y: 0 };
-      
-      let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-      members.forEach(m => {
-          if (m.x < minX) minX = m.x;
-          if (m.x > maxX) maxX = m.x;
-          if (m.y < minY) minY = m.y;
-          if (m.y > maxY) maxY = m.y;
-      });
-
-      const midX = (minX + maxX) / 2;
-      const midY = (minY + maxY) / 2;
-
-      let ax = minX, ay = minY;
-      if (anchorType.includes('M') || anchorType === 'C') ax = midX;
-      if (anchorType.includes('R')) ax = maxX;
-      if (anchorType.includes('C') || anchorType.includes('CL') || anchorType.includes('CR')) ay = midY;
-      if (anchorType.includes('B')) ay = maxY;
-
-      return { x: ax, y: ay };
-  };
-
   // --- Rendering ---
   const renderGrid = () => {
     const lines = [];
@@ -521,58 +524,53 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
         <g id="paths-layer">
             {Object.keys(parade.animation.tracks).map(ownerId => {
                 const track: AnimationTrack = parade.animation.tracks[ownerId];
-                // Check if group
                 const group = parade.groups[ownerId];
-                let currentX = 0, currentY = 0;
-
-                if (group) {
-                    const members = parade.entities.filter(e => e.groupId === ownerId);
-                    if (members.length === 0) return null;
-                    
-                    const firstAction = track.actions[0];
-                    const anchorPos = getAnchorPos(parade.entities, ownerId, firstAction?.payload.groupAnchor || 'TL');
-                    currentX = anchorPos.x;
-                    currentY = anchorPos.y;
-                } else {
-                    // Single Entity Path
-                    const entity = parade.entities.find(e => e.id === ownerId);
-                    if (!entity) return null;
-                    currentX = entity.x;
-                    currentY = entity.y;
-                }
 
                 const pathSegments: React.ReactElement[] = [];
                 
                 track.actions.forEach(action => {
+                    const start = clipStartPoses.get(action.id);
+                    if (!start) return;
+                    const { x: currentX, y: currentY } = start;
+
                     if (action.type === 'MOVE') {
-                        const targetX = action.payload.targetX ?? currentX;
-                        const targetY = action.payload.targetY ?? currentY;
+                        const payload = getWorldPayload(action);
+                        const targetX = payload.targetX ?? currentX;
+                        const targetY = payload.targetY ?? currentY;
                         
                         const isSelected = action.id === selectedActionId;
                         const strokeColor = isSelected ? "#34d399" : "rgba(255, 255, 0, 0.4)";
                         
-                        // Check if we have an explicit waypoint
-                        if (action.payload.waypoint) {
-                            const wx = action.payload.waypoint.x;
-                            const wy = action.payload.waypoint.y;
-                            
-                            pathSegments.push(
-                                <polyline
-                                    key={`${action.id}-poly-waypoint`}
-                                    points={`${currentX * PIXELS_PER_PACE},${currentY * PIXELS_PER_PACE} ${wx * PIXELS_PER_PACE},${wy * PIXELS_PER_PACE} ${targetX * PIXELS_PER_PACE},${targetY * PIXELS_PER_PACE}`}
-                                    fill="none"
-                                    stroke={strokeColor}
-                                    strokeWidth={isSelected ? "3" : "2"}
-                                    strokeDasharray="4 2"
-                                />
-                            );
-                            
-                            if (isSelected) {
+                        const waypoints = payload.waypoints || [];
+                        const pathPoints = getMovePathPoints({ x: currentX, y: currentY }, payload);
+
+                        pathSegments.push(
+                            <polyline
+                                key={`${action.id}-poly`}
+                                points={pathPoints.map(p => `${p.x * PIXELS_PER_PACE},${p.y * PIXELS_PER_PACE}`).join(' ')}
+                                fill="none"
+                                stroke={strokeColor}
+                                strokeWidth={isSelected ? "3" : "2"}
+                                strokeDasharray="4 2"
+                            />
+                        );
+
+                        if (isSelected && onUpdateAction) {
+                            // Handles place waypoints in world space
+                            // Handles that start a drag leave the retime to the drop
+                            const updateWaypoints = (newWaypoints: PathWaypoint[], retime: boolean = true) => {
+                                const stored = newWaypoints.map(w => ({ ...w, ...toPayloadPoint(action, w) }));
+                                onUpdateAction(action.id, { payload: { ...action.payload, waypoints: stored } }, retime);
+                            };
+
+                            if (waypoints.length === 0 && action.payload.movePathMode !== 'DIRECT') {
+                                // Draggable Elbow Handle: turns the default right angle into the first waypoint
+                                const elbow = pathPoints[1];
                                 pathSegments.push(
                                     <rect
                                         key={`${action.id}-elbow`}
-                                        x={wx * PIXELS_PER_PACE - 4}
-                                        y={wy * PIXELS_PER_PACE - 4}
+                                        x={elbow.x * PIXELS_PER_PACE - 4}
+                                        y={elbow.y * PIXELS_PER_PACE - 4}
                                         width={8}
                                         height={8}
                                         fill="#3b82f6"
@@ -580,85 +578,77 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
                                         className="cursor-move"
                                         onMouseDown={(e) => {
                                             e.stopPropagation();
-                                            setDraggingWaypointActionId(action.id);
+                                            updateWaypoints([{ x: elbow.x, y: elbow.y }], false);
+                                            setDraggingWaypoint({ actionId: action.id, index: 0 });
                                             setIsDragging(true);
                                         }}
                                     >
-                                        <title>Drag Pre-Destination Waypoint</title>
+                                        <title>Drag to create Pre-Destination</title>
                                     </rect>
                                 );
-                            }
-
-                        } 
-                        // Orthogonal Handling (Default L-Shape unless DIRECT is explicitly set)
-                        else if (action.payload.movePathMode !== 'DIRECT') {
-                            // Draw L shape
-                            let midX, midY;
-                            if (action.payload.orthogonalOrder === 'Y_THEN_X') {
-                                // Vertical then Horizontal
-                                midX = currentX;
-                                midY = targetY;
                             } else {
-                                // Horizontal then Vertical (Default)
-                                midX = targetX;
-                                midY = currentY;
+                                // Insert Handles: midpoint of every leg between start, waypoints and target
+                                const controls = [{ x: currentX, y: currentY }, ...waypoints, { x: targetX, y: targetY }];
+                                for (let i = 0; i < controls.length - 1; i++) {
+                                    const midX = (controls[i].x + controls[i + 1].x) / 2;
+                                    const midY = (controls[i].y + controls[i + 1].y) / 2;
+                                    pathSegments.push(
+                                        <circle
+                                            key={`${action.id}-insert-${i}`}
+                                            cx={midX * PIXELS_PER_PACE}
+                                            cy={midY * PIXELS_PER_PACE}
+                                            r={3}
+                                            fill="rgba(59, 130, 246, 0.5)"
+                                            stroke="white"
+                                            strokeWidth={1}
+                                            className="cursor-copy"
+                                            onMouseDown={(e) => {
+                                                e.stopPropagation();
+                                                const newWaypoints = [...waypoints];
+                                                newWaypoints.splice(i, 0, { x: midX, y: midY });
+                                                updateWaypoints(newWaypoints, false);
+                                                setDraggingWaypoint({ actionId: action.id, index: i });
+                                                setIsDragging(true);
+                                            }}
+                                        >
+                                            <title>Drag to insert Waypoint</title>
+                                        </circle>
+                                    );
+                                }
                             }
 
-                            pathSegments.push(
-                                <polyline
-                                    key={`${action.id}-poly`}
-                                    points={`${currentX * PIXELS_PER_PACE},${currentY * PIXELS_PER_PACE} ${midX * PIXELS_PER_PACE},${midY * PIXELS_PER_PACE} ${targetX * PIXELS_PER_PACE},${targetY * PIXELS_PER_PACE}`}
-                                    fill="none"
-                                    stroke={strokeColor}
-                                    strokeWidth={isSelected ? "3" : "2"}
-                                    strokeDasharray="4 2"
-                                />
-                            );
-
-                            // Draggable Elbow Handle (Only if selected)
-                            if (isSelected && onUpdateAction) {
+                            // Waypoint Handles: drag to move, double-click to remove, right-click to toggle curve
+                            waypoints.forEach((w, i) => {
                                 pathSegments.push(
                                     <rect
-                                        key={`${action.id}-elbow`}
-                                        x={midX * PIXELS_PER_PACE - 4}
-                                        y={midY * PIXELS_PER_PACE - 4}
+                                        key={`${action.id}-waypoint-${i}`}
+                                        x={w.x * PIXELS_PER_PACE - 4}
+                                        y={w.y * PIXELS_PER_PACE - 4}
                                         width={8}
                                         height={8}
+                                        rx={w.smooth ? 4 : 0}
                                         fill="#3b82f6"
                                         stroke="white"
                                         className="cursor-move"
                                         onMouseDown={(e) => {
                                             e.stopPropagation();
-                                            // Initialize waypoint to current elbow pos to start dragging
-                                            onUpdateAction(action.id, { 
-                                                payload: { 
-                                                    ...action.payload, 
-                                                    waypoint: { x: midX, y: midY }
-                                                } 
-                                            });
-                                            setDraggingWaypointActionId(action.id);
+                                            setDraggingWaypoint({ actionId: action.id, index: i });
                                             setIsDragging(true);
                                         }}
+                                        onDoubleClick={(e) => {
+                                            e.stopPropagation();
+                                            updateWaypoints(waypoints.filter((_, j) => j !== i));
+                                        }}
+                                        onContextMenu={(e) => {
+                                            e.preventDefault();
+                                            e.stopPropagation();
+                                            updateWaypoints(waypoints.map((wp, j) => j === i ? { ...wp, smooth: !wp.smooth } : wp));
+                                        }}
                                     >
-                                        <title>Drag to create Pre-Destination</title>
+                                        <title>{`Waypoint ${i + 1}: drag to move, double-click to remove, right-click to ${w.smooth ? 'sharpen' : 'curve'}`}</title>
                                     </rect>
                                 );
-                            }
-
-                        } else {
-                            // Direct Line - No Draggable Handle!
-                            pathSegments.push(
-                                <line 
-                                    key={action.id}
-                                    x1={currentX * PIXELS_PER_PACE}
-                                    y1={currentY * PIXELS_PER_PACE}
-                                    x2={targetX * PIXELS_PER_PACE}
-                                    y2={targetY * PIXELS_PER_PACE}
-                                    stroke={strokeColor}
-                                    strokeWidth={isSelected ? "3" : "2"}
-                                    strokeDasharray="4 2"
-                                />
-                            );
+                            });
                         }
                         
                         pathSegments.push(
@@ -673,9 +663,50 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
                                 className={isSelected ? "cursor-move" : ""} // Hint draggable
                             />
                         );
+                    } else if (action.type === 'WHEEL' && !group) {
+                        const angle = action.payload.wheelAngle || 90;
+                        const pivot = resolveWheelPivot(action.payload, start);
+                        const isSelected = action.id === selectedActionId;
+
+                        if (pivot) {
+                            const end = rotateAround(start, pivot, angle);
+                            const radius = Math.hypot(start.x - pivot.x, start.y - pivot.y);
+                            const largeArc = Math.abs(angle) > 180 ? 1 : 0;
+                            const sweep = angle > 0 ? 1 : 0;
+
+                            if (radius > 0.001) {
+                                pathSegments.push(
+                                    <path
+                                        key={`${action.id}-arc`}
+                                        d={`M ${start.x * PIXELS_PER_PACE} ${start.y * PIXELS_PER_PACE} A ${radius * PIXELS_PER_PACE} ${radius * PIXELS_PER_PACE} 0 ${largeArc} ${sweep} ${end.x * PIXELS_PER_PACE} ${end.y * PIXELS_PER_PACE}`}
+                                        fill="none"
+                                        stroke={isSelected ? "#34d399" : "rgba(255, 255, 0, 0.4)"}
+                                        strokeWidth={isSelected ? "3" : "2"}
+                                        strokeDasharray="4 2"
+                                    />
+                                );
+                            }
 
-                        currentX = targetX;
-                        currentY = targetY;
+                            if (isSelected && onUpdateAction) {
+                                pathSegments.push(
+                                    <g
+                                        key={`${action.id}-pivot`}
+                                        transform={`translate(${pivot.x * PIXELS_PER_PACE}, ${pivot.y * PIXELS_PER_PACE})`}
+                                        className="cursor-move"
+                                        onMouseDown={(e) => {
+                                            e.stopPropagation();
+                                            setDraggingPivot({ actionId: action.id, start });
+                                            setIsDragging(true);
+                                        }}
+                                    >
+                                        <circle r={6} fill="#f59e0b" stroke="white" strokeWidth={1.5} />
+                                        <line x1={-4} y1={0} x2={4} y2={0} stroke="black" strokeWidth={1} />
+                                        <line x1={0} y1={-4} x2={0} y2={4} stroke="black" strokeWidth={1} />
+                                        <title>Drag Wheel Pivot</title>
+                                    </g>
+                                );
+                            }
+                        }
                     }
                 });
 
@@ -692,22 +723,8 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
     
     const group = ent.groupId ? parade.groups[ent.groupId] : undefined;
     const isColoursParty = group?.type === 'COLOURS_PARTY';
-    
-    let customColor = undefined;
-    if (isColoursParty && ent.type === EntityType.COLOURS && group?.config?.flagColors) {
-         const match = ent.label.match(/Ensign\s?(\d*)/);
-         let index = 0;
-         if (match) {
-             const num = parseInt(match[1]);
-             if (!isNaN(num)) index = num - 1;
-             else index = 0;
-         }
-         if (index >= 0 && index < group.config.flagColors.length) {
-             customColor = group.config.flagColors[index];
-         }
-    }
 
-    const visual = renderEntityVisual(ent.type, ent.label, customColor);
+    const visual = renderEntityVisual(ent.type, ent.label, getFlagColor(ent, group), ent.posture);
     
     const hideLabel = isColoursParty || 
                       ent.label === 'Colours Sgt' || 
@@ -770,7 +787,53 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
           />
           {renderGrid()}
           {renderPaths()}
+          {markingPoints && <g id="marking-layer" pointerEvents="none"><MarkingLayer points={markingPoints} /></g>}
           {parade.entities.map(renderEntity)}
+          {conflictZones.map(zone => (
+              <rect
+                key={`conflict-${zone.conflictId}`}
+                x={(zone.minX - 1) * PIXELS_PER_PACE}
+                y={(zone.minY - 1) * PIXELS_PER_PACE}
+                width={(zone.maxX - zone.minX + 2) * PIXELS_PER_PACE}
+                height={(zone.maxY - zone.minY + 2) * PIXELS_PER_PACE}
+                rx={PIXELS_PER_PACE / 2}
+                fill="rgba(239, 68, 68, 0.25)"
+                stroke="#ef4444"
+                strokeWidth={2}
+                strokeDasharray="6 3"
+                className="pointer-events-none"
+              />
+          ))}
+          {cueWord && (() => {
+              // Ring whoever is giving the command, pulsing on the executive word
+              const giver = cueWord.cue.giverId ? parade.entities.find(e => e.id === cueWord.cue.giverId) : undefined;
+              if (!giver) return null;
+              const isExecutive = cueWord.phase === 'EXECUTIVE';
+              return (
+                  <g transform={`translate(${giver.x * PIXELS_PER_PACE}, ${giver.y * PIXELS_PER_PACE})`} className="pointer-events-none">
+                      <circle
+                        r={PIXELS_PER_PACE * 1.5}
+                        fill={isExecutive ? 'rgba(234, 88, 12, 0.35)' : 'none'}
+                        stroke={isExecutive ? '#f97316' : '#fdba74'}
+                        strokeWidth={isExecutive ? 3 : 1.5}
+                        strokeDasharray={isExecutive ? undefined : '4 3'}
+                        className={isExecutive ? 'animate-pulse' : undefined}
+                      />
+                      <text
+                        y={-PIXELS_PER_PACE * 1.8}
+                        textAnchor="middle"
+                        fill={isExecutive ? '#fb923c' : '#fed7aa'}
+                        fontSize={(isExecutive ? 16 : 11) * Math.max(1, 1/scale)}
+                        fontWeight="bold"
+                        fontStyle={isExecutive ? undefined : 'italic'}
+                        className="select-none"
+                        style={{ textShadow: '0px 1px 3px black' }}
+                      >
+                          {isExecutive ? cueWord.text.toUpperCase() : `${cueWord.text}...`}
+                      </text>
+                  </g>
+              );
+          })()}
           {groupLabels.map(g => (
               <text
                 key={`grp-${g.id}`}
@@ -800,6 +863,19 @@ export const ParadeCanvas: React.FC<ParadeCanvasProps> = ({
           )}
         </g>
       </svg>
+      {cueWord && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-10 pointer-events-none select-none text-center">
+          {cueWord.phase === 'EXECUTIVE' ? (
+            <div key={cueWord.cue.id} className="px-6 py-2 rounded-lg bg-orange-600/90 text-white text-4xl font-black tracking-widest shadow-2xl animate-pulse">
+              {cueWord.text.toUpperCase()}
+            </div>
+          ) : (
+            <div className="px-4 py-1.5 rounded-lg bg-black/60 text-orange-200 text-lg italic shadow-xl">
+              {cueWord.text}...
+            </div>
+          )}
+        </div>
+      )}
       <div className="absolute bottom-4 left-4 text-xs text-gray-400 select-none bg-black/50 p-2 rounded z-10 pointer-events-none">
         {Math.round(parade.config.width)}x{Math.round(parade.config.height)} Paces | Scale: {Math.round(scale * 100)}%
       </div>
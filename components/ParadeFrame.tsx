@@ -0,0 +1,332 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ParadeState, Entity, EntityType, AnimationTrack } from '../types';
+import { PIXELS_PER_PACE, TERRAIN_COLORS, GRID_MAJOR_INTERVAL, MARKING_COLOR } from '../constants';
+import { renderEntityVisual, getFlagColor } from './RenderUtils';
+import { getParadeStateAtTime, getClipStartPoses, getGroupAnchor, getMovePathPoints, resolveActionTargets, resolveWheelPivot, rotateAround } from '../utils/animationUtils';
+import { getCueWordAt, CueWord } from '../utils/cueUtils';
+import { formatScriptTime } from '../utils/scriptUtils';
+import { StoryboardFrame } from '../utils/storyboardUtils';
+import { buildMarkingPlan, MarkingPoint } from '../utils/markingUtils';
+
+// --- Off-screen frames ---
+// The parade at any moment drawn without the editor: no selection, handles or pan/zoom, so
+// exports can step through time and rasterise each frame onto a canvas of their own size.
+
+export interface FrameOptions {
+    showGrid: boolean;
+    showPaths: boolean;
+    showMarking: boolean;
+    showTimestamp: boolean;
+    showCue: boolean;
+}
+
+const FRAME_BACKGROUND = '#111827';
+const PATH_COLOR = 'rgba(255, 255, 0, 0.4)';
+
+const GridLayer: React.FC<{ parade: ParadeState }> = ({ parade }) => {
+    const { width, height } = parade.config;
+    const line = (key: string, index: number, x1: number, y1: number, x2: number, y2: number) => {
+        const isMajor = index % GRID_MAJOR_INTERVAL === 0;
+        return (
+            <line
+                key={key}
+                x1={x1 * PIXELS_PER_PACE} y1={y1 * PIXELS_PER_PACE}
+                x2={x2 * PIXELS_PER_PACE} y2={y2 * PIXELS_PER_PACE}
+                stroke={isMajor ? 'rgba(255,255,255,0.2)' : 'rgba(255,255,255,0.05)'}
+                strokeWidth={isMajor ? 2 : 1}
+            />
+        );
+    };
+    return (
+        <g>
+            {Array.from({ length: Math.floor(width) + 1 }, (_, x) => line(`v-${x}`, x, x, 0, x, height))}
+            {Array.from({ length: Math.floor(height) + 1 }, (_, y) => line(`h-${y}`, y, 0, y, width, y))}
+        </g>
+    );
+};
+
+// Every planned move and wheel from the layout, as the canvas shows them with nothing selected
+const PathsLayer: React.FC<{ parade: ParadeState }> = ({ parade }) => {
+    const starts = getClipStartPoses(parade);
+    const px = (paces: number) => paces * PIXELS_PER_PACE;
+    return (
+        <g>
+            {(Object.values(parade.animation.tracks) as AnimationTrack[]).flatMap(track => track.actions.map(action => {
+                const start = starts.get(action.id);
+                if (!start) return null;
+                if (action.type === 'MOVE') {
+                    const payload = resolveActionTargets(action.payload, start);
+                    const points = getMovePathPoints(start, payload);
+                    const end = points[points.length - 1];
+                    return (
+                        <g key={action.id}>
+                            <polyline points={points.map(p => `${px(p.x)},${px(p.y)}`).join(' ')} fill="none" stroke={PATH_COLOR} strokeWidth={2} strokeDasharray="4 2" />
+                            <circle cx={px(end.x)} cy={px(end.y)} r={4} fill="yellow" stroke="black" strokeWidth={1} />
+                        </g>
+                    );
+                }
+                if (action.type === 'WHEEL' && !parade.groups[track.ownerId]) {
+                    const angle = action.payload.wheelAngle || 90;
+                    const pivot = resolveWheelPivot(action.payload, start);
+                    if (!pivot) return null;
+                    const end = rotateAround(start, pivot, angle);
+                    const radius = Math.hypot(start.x - pivot.x, start.y - pivot.y);
+                    if (radius <= 0.001) return null;
+                    return (
+                        <path
+                            key={action.id}
+                            d={`M ${px(start.x)} ${px(start.y)} A ${px(radius)} ${px(radius)} 0 ${Math.abs(angle) > 180 ? 1 : 0} ${angle > 0 ? 1 : 0} ${px(end.x)} ${px(end.y)}`}
+                            fill="none" stroke={PATH_COLOR} strokeWidth={2} strokeDasharray="4 2"
+                        />
+                    );
+                }
+                return null;
+            }))}
+        </g>
+    );
+};
+
+// Ground marks as they'd be chalked: a cross with its reference beside it
+export const MarkingLayer: React.FC<{ points: MarkingPoint[] }> = ({ points }) => {
+    const arm = PIXELS_PER_PACE * 0.4;
+    return (
+        <g>
+            {points.map(point => {
+                const x = point.x * PIXELS_PER_PACE;
+                const y = point.y * PIXELS_PER_PACE;
+                return (
+                    <g key={point.ref} stroke={MARKING_COLOR} strokeWidth={2}>
+                        <circle cx={x} cy={y} r={arm} fill="none" strokeWidth={1} />
+                        <line x1={x - arm} y1={y - arm} x2={x + arm} y2={y + arm} />
+                        <line x1={x - arm} y1={y + arm} x2={x + arm} y2={y - arm} />
+                        <text
+                            x={x + arm + 3} y={y - arm} fill={MARKING_COLOR} fontSize={10} fontWeight="bold"
+                            stroke="black" strokeWidth={3} paintOrder="stroke"
+                        >{point.ref}</text>
+                    </g>
+                );
+            })}
+        </g>
+    );
+};
+
+const HIDDEN_LABEL_TYPES = new Set([EntityType.SALUTING_BASE, EntityType.TROPHY_CUP, EntityType.TROPHY_PLAQUE, EntityType.TROPHY_SHIELD]);
+
+const FrameEntity: React.FC<{ parade: ParadeState, ent: Entity }> = ({ parade, ent }) => {
+    const group = ent.groupId ? parade.groups[ent.groupId] : undefined;
+    const hideLabel = group?.type === 'COLOURS_PARTY' || ent.label === 'Colours Sgt' || HIDDEN_LABEL_TYPES.has(ent.type);
+    return (
+        <g transform={`translate(${ent.x * PIXELS_PER_PACE}, ${ent.y * PIXELS_PER_PACE})`}>
+            <g transform={`rotate(${ent.rotation})`}>{renderEntityVisual(ent.type, ent.label, getFlagColor(ent, group), ent.posture)}</g>
+            {ent.label && !hideLabel && (
+                <text y={-PIXELS_PER_PACE * 0.9} textAnchor="middle" fill="white" fontSize={10} fontWeight="bold">{ent.label}</text>
+            )}
+        </g>
+    );
+};
+
+// Ring around whoever is giving the word of command
+const CueGiver: React.FC<{ cueWord: CueWord, entities: Entity[] }> = ({ cueWord, entities }) => {
+    const giver = entities.find(e => e.id === cueWord.cue.giverId);
+    if (!giver) return null;
+    const isExecutive = cueWord.phase === 'EXECUTIVE';
+    return (
+        <circle
+            cx={giver.x * PIXELS_PER_PACE} cy={giver.y * PIXELS_PER_PACE} r={PIXELS_PER_PACE * 1.5}
+            fill={isExecutive ? 'rgba(234, 88, 12, 0.35)' : 'none'}
+            stroke={isExecutive ? '#f97316' : '#fdba74'}
+            strokeWidth={isExecutive ? 3 : 1.5}
+            strokeDasharray={isExecutive ? undefined : '4 3'}
+        />
+    );
+};
+
+// Grid, paths and marks don't change over time, so exports render them once and reuse the markup
+export const renderGroundLayers = (parade: ParadeState, options: { showGrid: boolean, showPaths: boolean, showMarking: boolean }) => renderToStaticMarkup(
+    <>
+        {options.showGrid && <GridLayer parade={parade} />}
+        {options.showPaths && <PathsLayer parade={parade} />}
+        {options.showMarking && <MarkingLayer points={buildMarkingPlan(parade)} />}
+    </>
+);
+
+// The ground with everyone on it, in canvas pixels (PIXELS_PER_PACE to the pace)
+export const Ground: React.FC<{ parade: ParadeState, entities: Entity[], layers: string, cueWord?: CueWord | null }> = ({ parade, entities, layers, cueWord }) => {
+    const labelled = Object.entries(parade.groups).filter(([id, g]) => g.showLabel && entities.some(e => e.groupId === id));
+    return (
+        <g>
+            <rect x={0} y={0} width={parade.config.width * PIXELS_PER_PACE} height={parade.config.height * PIXELS_PER_PACE} fill={TERRAIN_COLORS[parade.config.terrain]} />
+            <g dangerouslySetInnerHTML={{ __html: layers }} />
+            {entities.map(ent => <FrameEntity key={ent.id} parade={parade} ent={ent} />)}
+            {cueWord && <CueGiver cueWord={cueWord} entities={entities} />}
+            {labelled.map(([id, g]) => {
+                const anchor = getGroupAnchor(entities, id, 'TM');
+                return (
+                    <text key={id} x={anchor.x * PIXELS_PER_PACE} y={(anchor.y - 2) * PIXELS_PER_PACE} textAnchor="middle" fill="rgba(255, 255, 255, 0.7)" fontSize={12} fontFamily="monospace" fontWeight="bold">
+                        {g.label.toUpperCase()}
+                    </text>
+                );
+            })}
+        </g>
+    );
+};
+
+const FrameSvg: React.FC<{ parade: ParadeState, entities: Entity[], cueWord: CueWord | null, width: number, height: number, layers: string }> = ({ parade, entities, cueWord, width, height, layers }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${parade.config.width * PIXELS_PER_PACE} ${parade.config.height * PIXELS_PER_PACE}`} width={width} height={height} fontFamily="sans-serif">
+        <Ground parade={parade} entities={entities} layers={layers} cueWord={cueWord} />
+    </svg>
+);
+
+export const loadSvgImage = (svg: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(img);
+    };
+    img.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('Failed to rasterise the parade frame'));
+    };
+    img.src = url;
+});
+
+// Dark box with text, anchored by its centre-x (or left edge) and top
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, fontSize: number, options: { font: string, color: string, background: string, centred: boolean }) => {
+    ctx.font = `${options.font} ${fontSize}px sans-serif`;
+    const padding = fontSize * 0.4;
+    const width = ctx.measureText(text).width + padding * 2;
+    const left = options.centred ? x - width / 2 : x;
+    ctx.fillStyle = options.background;
+    ctx.fillRect(left, y, width, fontSize + padding * 2);
+    ctx.fillStyle = options.color;
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'left';
+    ctx.fillText(text, left + padding, y + padding);
+};
+
+const drawOverlays = (ctx: CanvasRenderingContext2D, time: number, cueWord: CueWord | null, options: FrameOptions) => {
+    const { width, height } = ctx.canvas;
+    const fontSize = Math.max(12, Math.round(height / 30));
+    const margin = fontSize;
+    if (options.showTimestamp) {
+        drawLabel(ctx, formatScriptTime(time), margin, height - margin - fontSize * 1.8, fontSize, {
+            font: 'bold', color: 'white', background: 'rgba(0, 0, 0, 0.6)', centred: false
+        });
+    }
+    if (options.showCue && cueWord) {
+        const isExecutive = cueWord.phase === 'EXECUTIVE';
+        drawLabel(ctx, isExecutive ? cueWord.text.toUpperCase() : `${cueWord.text}...`, width / 2, margin, Math.round(fontSize * (isExecutive ? 1.5 : 1.1)), {
+            font: isExecutive ? 'bold' : 'italic',
+            color: isExecutive ? 'white' : '#fed7aa',
+            background: isExecutive ? 'rgba(234, 88, 12, 0.9)' : 'rgba(0, 0, 0, 0.7)',
+            centred: true
+        });
+    }
+};
+
+// Draws frames onto a canvas of any size, the ground letterboxed to fit
+export const createFrameRenderer = (parade: ParadeState, options: FrameOptions) => {
+    const layers = renderGroundLayers(parade, options);
+    const cues = parade.animation.cues || [];
+
+    return async (ctx: CanvasRenderingContext2D, time: number) => {
+        const { width, height } = ctx.canvas;
+        const groundWidth = parade.config.width * PIXELS_PER_PACE;
+        const groundHeight = parade.config.height * PIXELS_PER_PACE;
+        const scale = Math.min(width / groundWidth, height / groundHeight);
+        const drawWidth = Math.round(groundWidth * scale);
+        const drawHeight = Math.round(groundHeight * scale);
+
+        const { entities } = getParadeStateAtTime(parade, time);
+        const cueWord = options.showCue ? getCueWordAt(cues, time) : null;
+        const img = await loadSvgImage(renderToStaticMarkup(
+            <FrameSvg parade={parade} entities={entities} cueWord={cueWord} width={drawWidth} height={drawHeight} layers={layers} />
+        ));
+
+        ctx.fillStyle = FRAME_BACKGROUND;
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(img, Math.round((width - drawWidth) / 2), Math.round((height - drawHeight) / 2), drawWidth, drawHeight);
+        drawOverlays(ctx, time, cueWord, options);
+    };
+};
+
+// --- Storyboard sheet ---
+
+const STORYBOARD_PADDING = 16;
+const STORYBOARD_TITLE_HEIGHT = 40;
+const STORYBOARD_CAPTION_FONT = 13;
+const STORYBOARD_CAPTION_LINES = 4;
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    });
+    if (line) lines.push(line);
+    return lines;
+};
+
+// Numbered stills in a grid, each with its time and what happens from then on, on white for printing
+export const drawStoryboard = async (
+    parade: ParadeState,
+    frames: StoryboardFrame[],
+    options: FrameOptions,
+    layout: { columns: number, cellWidth: number }
+): Promise<HTMLCanvasElement> => {
+    const { columns, cellWidth } = layout;
+    const cellHeight = Math.round(cellWidth * parade.config.height / parade.config.width);
+    const lineHeight = Math.round(STORYBOARD_CAPTION_FONT * 1.3);
+    const captionHeight = lineHeight * (STORYBOARD_CAPTION_LINES + 1) + 8;
+    const rows = Math.max(1, Math.ceil(frames.length / columns));
+
+    const sheet = document.createElement('canvas');
+    sheet.width = columns * cellWidth + (columns + 1) * STORYBOARD_PADDING;
+    sheet.height = STORYBOARD_TITLE_HEIGHT + rows * (cellHeight + captionHeight) + (rows + 1) * STORYBOARD_PADDING;
+    const ctx = sheet.getContext('2d');
+    const cell = document.createElement('canvas');
+    cell.width = cellWidth;
+    cell.height = cellHeight;
+    const cellCtx = cell.getContext('2d');
+    if (!ctx || !cellCtx) throw new Error('Canvas is not available in this browser');
+
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, sheet.width, sheet.height);
+    ctx.fillStyle = '#111';
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'left';
+    ctx.font = 'bold 20px sans-serif';
+    ctx.fillText(`${parade.config.title} - Storyboard`, STORYBOARD_PADDING, STORYBOARD_PADDING);
+
+    // The frames carry their time in the caption instead
+    const drawFrame = createFrameRenderer(parade, { ...options, showTimestamp: false });
+    for (let i = 0; i < frames.length; i++) {
+        const frame = frames[i];
+        const x = STORYBOARD_PADDING + (i % columns) * (cellWidth + STORYBOARD_PADDING);
+        const y = STORYBOARD_TITLE_HEIGHT + STORYBOARD_PADDING + Math.floor(i / columns) * (cellHeight + captionHeight + STORYBOARD_PADDING);
+        await drawFrame(cellCtx, frame.time);
+        ctx.drawImage(cell, x, y);
+        ctx.strokeStyle = '#999';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x + 0.5, y + 0.5, cellWidth - 1, cellHeight - 1);
+
+        ctx.fillStyle = '#111';
+        ctx.font = `bold ${STORYBOARD_CAPTION_FONT}px monospace`;
+        ctx.fillText(`${i + 1}. ${formatScriptTime(frame.time)}`, x, y + cellHeight + 6);
+        ctx.font = `${STORYBOARD_CAPTION_FONT}px sans-serif`;
+        const lines = frame.captions.flatMap(caption => wrapText(ctx, caption, cellWidth));
+        const shown = lines.length > STORYBOARD_CAPTION_LINES
+            ? [...lines.slice(0, STORYBOARD_CAPTION_LINES - 1), `+ ${lines.length - STORYBOARD_CAPTION_LINES + 1} more lines`]
+            : lines;
+        shown.forEach((line, l) => ctx.fillText(line, x, y + cellHeight + 6 + lineHeight * (l + 1)));
+    }
+    return sheet;
+};
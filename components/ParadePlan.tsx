@@ -0,0 +1,340 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ParadeState, ParadeConfig, EntityType } from '../types';
+import { PIXELS_PER_PACE, ENTITY_SIZE_MAP } from '../constants';
+import { renderEntityVisual } from './RenderUtils';
+import { Ground, renderGroundLayers, loadSvgImage } from './ParadeFrame';
+import { getParadeStateAtTime } from '../utils/animationUtils';
+import { formatScriptTime } from '../utils/scriptUtils';
+import { escapeHtml } from '../utils/htmlUtils';
+import { getPageLayout, getPageLayoutError, clampPacesPerCm, getScaleBarLength, PaperSize, PAGE_MARGIN, PAGE_HEADER } from '../utils/planUtils';
+import { MarkingPoint, Datum, DATUM_LABELS, getDatumEdges, measureFromDatum } from '../utils/markingUtils';
+import { pacesToMetres, getPaceLength, toDisplayDistance, fromDisplayDistance, getUnitSuffix } from '../utils/unitUtils';
+import { createPdfPage, writePdf, PdfImage, PdfPage } from '../services/pdfService';
+
+// --- Ground plan ---
+// A standalone drawing of the parade built from its state rather than the editor's canvas: the
+// ground with a title block, north arrow, legend and scale bar, and nothing from the UI.
+
+export interface PlanOptions {
+    showGrid: boolean;
+    showPaths: boolean;
+    showMarking: boolean;
+    time: number; // Moment the positions are drawn at
+}
+
+const LEGEND_LABELS: Record<EntityType, string> = {
+    [EntityType.REVIEWING_OFFICER]: 'Reviewing Officer',
+    [EntityType.HOST]: 'Host',
+    [EntityType.PC]: 'Parade Comd',
+    [EntityType.RSM]: 'RSM',
+    [EntityType.OFFICER]: 'Officer',
+    [EntityType.COLOURS]: 'Colours',
+    [EntityType.CONTINGENT]: 'Contingent',
+    [EntityType.TROOPER]: 'Trooper',
+    [EntityType.ORDERLY]: 'Orderly',
+    [EntityType.MARKER]: 'Marker',
+    [EntityType.SALUTING_BASE]: 'Saluting Base',
+    [EntityType.ROSTRUM]: 'Rostrum',
+    [EntityType.SPEAKER]: 'Loud Speaker',
+    [EntityType.MIXER]: 'Mixer',
+    [EntityType.AWARD_TABLE]: 'Award Table',
+    [EntityType.TROPHY_CUP]: 'Trophy (Cup)',
+    [EntityType.TROPHY_PLAQUE]: 'Trophy (Plaque)',
+    [EntityType.TROPHY_SHIELD]: 'Trophy (Shield)'
+};
+
+const PADDING = 20;
+const HEADER_HEIGHT = 56;
+const LEGEND_ROW = 26;
+const LEGEND_COLUMN = 170;
+const SCALE_BAR_SPACE = 260; // Right of the legend
+const MIN_PLAN_WIDTH = 900;
+
+// Where everything sits on the plan, in plan pixels
+const getPlanLayout = (parade: ParadeState) => {
+    const groundWidth = parade.config.width * PIXELS_PER_PACE;
+    const groundHeight = parade.config.height * PIXELS_PER_PACE;
+    const innerWidth = Math.max(groundWidth, MIN_PLAN_WIDTH - PADDING * 2);
+    const types = Object.values(EntityType).filter(type => parade.entities.some(e => e.type === type));
+    const legendColumns = Math.max(1, Math.floor((innerWidth - SCALE_BAR_SPACE) / LEGEND_COLUMN));
+    const legendHeight = Math.max(3, Math.ceil(types.length / legendColumns)) * LEGEND_ROW;
+    const groundX = PADDING + (innerWidth - groundWidth) / 2;
+    const groundY = HEADER_HEIGHT;
+    return {
+        width: innerWidth + PADDING * 2,
+        height: groundY + groundHeight + PADDING * 2 + legendHeight,
+        innerWidth, groundX, groundY, groundWidth, groundHeight,
+        types, legendColumns, footerY: groundY + groundHeight + PADDING
+    };
+};
+
+const LegendIcon: React.FC<{ type: EntityType }> = ({ type }) => {
+    // Furniture is drawn larger than people; give it room so every icon fills its box
+    const half = Math.max(20, ENTITY_SIZE_MAP[type] * PIXELS_PER_PACE * 0.67);
+    return (
+        <svg width={20} height={20} x={0} y={-10} viewBox={`${-half} ${-half} ${half * 2} ${half * 2}`}>
+            {renderEntityVisual(type)}
+        </svg>
+    );
+};
+
+const NorthArrow: React.FC<{ x: number, y: number }> = ({ x, y }) => (
+    <g transform={`translate(${x}, ${y})`}>
+        <path d="M 0 -18 L 8 10 L 0 4 L -8 10 Z" fill="#111" />
+        <text y={24} textAnchor="middle" fontSize={12} fontWeight="bold" fill="#111">N</text>
+    </g>
+);
+
+// Measured in the parade's chosen unit
+const ScaleBar: React.FC<{ x: number, y: number, maxWidth: number, config: ParadeConfig }> = ({ x, y, maxWidth, config }) => {
+    const length = getScaleBarLength(toDisplayDistance(maxWidth / PIXELS_PER_PACE, config));
+    const segment = fromDisplayDistance(length, config) * PIXELS_PER_PACE / 4;
+    return (
+        <g transform={`translate(${x}, ${y})`}>
+            {[0, 1, 2, 3].map(i => (
+                <rect key={i} x={i * segment} y={0} width={segment} height={8} fill={i % 2 === 0 ? '#111' : 'white'} stroke="#111" strokeWidth={1} />
+            ))}
+            <text x={0} y={22} textAnchor="middle" fontSize={11} fill="#111">0</text>
+            <text x={segment * 2} y={22} textAnchor="middle" fontSize={11} fill="#111">{length / 2}</text>
+            <text x={segment * 4} y={22} textAnchor="middle" fontSize={11} fill="#111">{length} {getUnitSuffix(config)}</text>
+        </g>
+    );
+};
+
+const PlanSvg: React.FC<{ parade: ParadeState, options: PlanOptions }> = ({ parade, options }) => {
+    const layout = getPlanLayout(parade);
+    const { entities } = getParadeStateAtTime(parade, options.time);
+    const { width, height, terrain } = parade.config;
+    const subtitle = [
+        `${+toDisplayDistance(width, parade.config).toFixed(2)} x ${+toDisplayDistance(height, parade.config).toFixed(2)} ${getUnitSuffix(parade.config)}`,
+        terrain.charAt(0) + terrain.slice(1).toLowerCase(),
+        options.time > 0 ? `Positions at ${formatScriptTime(options.time)}` : 'Start positions',
+        `Printed ${new Date().toLocaleDateString()}`
+    ].join('  |  ');
+
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" width={layout.width} height={layout.height} viewBox={`0 0 ${layout.width} ${layout.height}`} fontFamily="sans-serif">
+            <rect x={0} y={0} width={layout.width} height={layout.height} fill="white" />
+
+            {/* Title block */}
+            <text x={PADDING} y={28} fontSize={22} fontWeight="bold" fill="#111">{parade.config.title}</text>
+            <text x={PADDING} y={46} fontSize={12} fill="#555">{subtitle}</text>
+            <NorthArrow x={layout.width - PADDING - 10} y={24} />
+
+            <g transform={`translate(${layout.groundX}, ${layout.groundY})`}>
+                <Ground parade={parade} entities={entities} layers={renderGroundLayers(parade, options)} />
+                <rect x={0} y={0} width={layout.groundWidth} height={layout.groundHeight} fill="none" stroke="#111" strokeWidth={2} />
+            </g>
+
+            {/* Legend of what appears on the ground */}
+            <g transform={`translate(${PADDING}, ${layout.footerY})`}>
+                {layout.types.map((type, i) => (
+                    <g key={type} transform={`translate(${(i % layout.legendColumns) * LEGEND_COLUMN}, ${Math.floor(i / layout.legendColumns) * LEGEND_ROW + 10})`}>
+                        <LegendIcon type={type} />
+                        <text x={28} y={4} fontSize={12} fill="#111">{LEGEND_LABELS[type]}</text>
+                    </g>
+                ))}
+            </g>
+            <ScaleBar x={layout.width - PADDING - SCALE_BAR_SPACE + 30} y={layout.footerY + 6} maxWidth={SCALE_BAR_SPACE - 60} config={parade.config} />
+        </svg>
+    );
+};
+
+export const paradePlanToSvg = (parade: ParadeState, options: PlanOptions) =>
+    renderToStaticMarkup(<PlanSvg parade={parade} options={options} />);
+
+export const getPlanSize = (parade: ParadeState) => {
+    const { width, height } = getPlanLayout(parade);
+    return { width, height };
+};
+
+// --- Marking plan ---
+
+const MARKING_STYLES = `
+    body { font-family: system-ui, sans-serif; font-size: 11px; color: #111; margin: 24px; }
+    h1 { font-size: 18px; margin: 0; }
+    .meta { color: #555; margin: 4px 0 12px; }
+    body > svg { width: 100%; height: auto; break-after: page; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+    th { font-size: 10px; text-transform: uppercase; color: #555; }
+    td.num { font-family: monospace; white-space: nowrap; text-align: right; }
+    td.ref { font-weight: bold; }
+    tr { break-inside: avoid; }
+    @page { margin: 12mm; }
+`;
+
+// The start-position plan with every mark on it, then the table the ground team measures from
+export const markingPlanToHtml = (parade: ParadeState, points: MarkingPoint[], datum: Datum): string => {
+    const edges = getDatumEdges(datum);
+    const plan = paradePlanToSvg(parade, { showGrid: true, showPaths: false, showMarking: true, time: 0 });
+    const rows = points.map(point => {
+        const { across, down } = measureFromDatum(point, datum, parade.config);
+        return `<tr>
+            <td class="ref">${escapeHtml(point.ref)}</td>
+            <td class="num">${across.toFixed(1)}</td>
+            <td class="num">${down.toFixed(1)}</td>
+            <td class="num">${pacesToMetres(across, parade.config).toFixed(2)}</td>
+            <td class="num">${pacesToMetres(down, parade.config).toFixed(2)}</td>
+            <td>${point.notes.map(escapeHtml).join('<br>')}</td>
+        </tr>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(parade.config.title)} - Marking Plan</title>
+    <style>${MARKING_STYLES}</style>
+</head>
+<body>
+    <h1>${escapeHtml(parade.config.title)} - Marking Plan</h1>
+    <div class="meta">
+        ${points.length} marks &middot; Measured from the ${DATUM_LABELS[datum].toLowerCase()} of the ground,
+        one pace = ${getPaceLength(parade.config)} m
+    </div>
+    ${plan}
+    ${points.length > 0 ? `<table>
+        <thead><tr>
+            <th>Ref</th>
+            <th>From ${edges.across} edge (paces)</th><th>From ${edges.down} edge (paces)</th>
+            <th>From ${edges.across} edge (m)</th><th>From ${edges.down} edge (m)</th>
+            <th>Used for</th>
+        </tr></thead>
+        <tbody>${rows}</tbody>
+    </table>` : '<p>Nothing on this parade needs marking.</p>'}
+</body>
+</html>`;
+};
+
+// --- PDF ---
+
+export interface PlanPrintOptions {
+    paper: PaperSize;
+    pacesPerCm: number;
+}
+
+const PRINT_DPI = 150;
+
+const rasterise = async (svg: string, pixelWidth: number, pixelHeight: number): Promise<PdfImage> => {
+    const img = await loadSvgImage(svg);
+    const canvas = document.createElement('canvas');
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available in this browser');
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, pixelWidth, pixelHeight);
+    ctx.drawImage(img, 0, 0, pixelWidth, pixelHeight);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    if (!blob) throw new Error('Failed to encode the plan image');
+    return { jpeg: new Uint8Array(await blob.arrayBuffer()), pixelWidth, pixelHeight };
+};
+
+const mmToPixels = (mm: number) => Math.max(1, Math.round(mm / 25.4 * PRINT_DPI));
+
+// Every this many paces (or metres) along the sheet edges, at least a centimetre apart on paper
+const getTickInterval = (unitsPerCm: number) => [1, 2, 5, 10, 20, 50, 100].find(length => length / unitsPerCm >= 1) ?? 100;
+
+const drawNorthArrow = (page: PdfPage, x: number, y: number) => {
+    page.line(x, y + 7, x, y, 0.4);
+    page.line(x - 1.5, y + 2.5, x, y, 0.4);
+    page.line(x + 1.5, y + 2.5, x, y, 0.4);
+    page.text(x, y - 4, 8, 'N', { bold: true, align: 'center' });
+};
+
+// Sheet 1 is the whole plan with the other sheets outlined on it; the rest tile the ground at
+// the chosen scale, each labelled with the paces it covers so they can be laid edge to edge
+export const buildPlanPdf = async (parade: ParadeState, options: PlanOptions, print: PlanPrintOptions): Promise<Blob> => {
+    const pacesPerCm = clampPacesPerCm(print.pacesPerCm);
+    // Rulers, scale and labels are in the parade's chosen unit; the layout itself stays in paces
+    const { config } = parade;
+    const unit = getUnitSuffix(config);
+    const unitsPerCm = toDisplayDistance(pacesPerCm, config);
+    const round = (value: number) => +value.toFixed(2);
+    const layout = getPageLayout(parade.config.width, parade.config.height, pacesPerCm, print.paper);
+    const layoutError = getPageLayoutError(layout);
+    if (layoutError) throw new Error(layoutError);
+    const { pageWidth, pageHeight, tiles } = layout;
+    const title = parade.config.title;
+    const pages: PdfPage[] = [];
+
+    // Overview
+    const plan = getPlanLayout(parade);
+    const overview = createPdfPage(pageWidth, pageHeight);
+    const areaWidth = pageWidth - PAGE_MARGIN * 2;
+    const areaHeight = pageHeight - PAGE_MARGIN * 2 - PAGE_HEADER;
+    const fit = Math.min(areaWidth / plan.width, areaHeight / plan.height); // mm per plan pixel
+    const left = PAGE_MARGIN + (areaWidth - plan.width * fit) / 2;
+    const top = PAGE_MARGIN + PAGE_HEADER;
+    overview.text(PAGE_MARGIN, PAGE_MARGIN, 12, `${title} - Ground Plan`, { bold: true });
+    overview.text(pageWidth - PAGE_MARGIN, PAGE_MARGIN, 9, `${tiles.length} sheet${tiles.length === 1 ? '' : 's'} at 1 cm = ${round(unitsPerCm)} ${unit} (${print.paper})`, { align: 'right' });
+    overview.image(await rasterise(paradePlanToSvg(parade, options), mmToPixels(plan.width * fit), mmToPixels(plan.height * fit)), left, top, plan.width * fit, plan.height * fit);
+    tiles.forEach((tile, i) => {
+        const x = left + (plan.groundX + tile.x * PIXELS_PER_PACE) * fit;
+        const y = top + (plan.groundY + tile.y * PIXELS_PER_PACE) * fit;
+        overview.rect(x, y, tile.width * PIXELS_PER_PACE * fit, tile.height * PIXELS_PER_PACE * fit, { lineWidth: 0.4 });
+        overview.text(x + 1.5, y + 1.5, 9, String(i + 2), { bold: true });
+    });
+    pages.push(overview);
+
+    const { entities } = getParadeStateAtTime(parade, options.time);
+    const layers = renderGroundLayers(parade, options);
+    const tick = getTickInterval(unitsPerCm);
+    const scaleBarLength = getScaleBarLength(10 * unitsPerCm); // No longer than 10 cm
+
+    for (let i = 0; i < tiles.length; i++) {
+        const tile = tiles[i];
+        const page = createPdfPage(pageWidth, pageHeight);
+        const mm = (paces: number) => paces / pacesPerCm * 10;
+        const imageTop = PAGE_MARGIN + PAGE_HEADER;
+        const imageWidth = mm(tile.width);
+        const imageHeight = mm(tile.height);
+
+        page.text(PAGE_MARGIN, PAGE_MARGIN, 11, title, { bold: true });
+        page.text(pageWidth - PAGE_MARGIN, PAGE_MARGIN, 11, `Sheet ${i + 2} of ${tiles.length + 1}`, { bold: true, align: 'right' });
+        page.text(PAGE_MARGIN, PAGE_MARGIN + 4.5, 8, `Row ${tile.row + 1}, column ${tile.column + 1}: ${round(toDisplayDistance(tile.x, config))} to ${round(toDisplayDistance(tile.x + tile.width, config))} ${unit} across, ${round(toDisplayDistance(tile.y, config))} to ${round(toDisplayDistance(tile.y + tile.height, config))} ${unit} down from the top left corner`);
+
+        const svg = renderToStaticMarkup(
+            <svg
+                xmlns="http://www.w3.org/2000/svg"
+                viewBox={`${tile.x * PIXELS_PER_PACE} ${tile.y * PIXELS_PER_PACE} ${tile.width * PIXELS_PER_PACE} ${tile.height * PIXELS_PER_PACE}`}
+                width={mmToPixels(imageWidth)} height={mmToPixels(imageHeight)}
+                fontFamily="sans-serif"
+            >
+                <Ground parade={parade} entities={entities} layers={layers} />
+            </svg>
+        );
+        page.image(await rasterise(svg, mmToPixels(imageWidth), mmToPixels(imageHeight)), PAGE_MARGIN, imageTop, imageWidth, imageHeight);
+        page.rect(PAGE_MARGIN, imageTop, imageWidth, imageHeight, { lineWidth: 0.3 });
+
+        // Ruler marks along the top and left edges, measured from the ground's top left corner
+        const startX = toDisplayDistance(tile.x, config);
+        const startY = toDisplayDistance(tile.y, config);
+        for (let d = Math.ceil(startX / tick) * tick; d <= toDisplayDistance(tile.x + tile.width, config) + 1e-6; d += tick) {
+            const x = PAGE_MARGIN + mm(fromDisplayDistance(d, config) - tile.x);
+            page.line(x, imageTop - 1.5, x, imageTop, 0.2);
+            page.text(x, imageTop - 4, 6, String(d), { align: 'center' });
+        }
+        for (let d = Math.ceil(startY / tick) * tick; d <= toDisplayDistance(tile.y + tile.height, config) + 1e-6; d += tick) {
+            const y = imageTop + mm(fromDisplayDistance(d, config) - tile.y);
+            page.line(PAGE_MARGIN - 1.5, y, PAGE_MARGIN, y, 0.2);
+            page.text(PAGE_MARGIN - 2, y - 1, 6, String(d), { align: 'right' });
+        }
+
+        // Scale bar and north arrow under the plan
+        const barTop = imageTop + imageHeight + 5;
+        const barWidth = mm(fromDisplayDistance(scaleBarLength, config));
+        const segment = barWidth / 4;
+        [0, 1, 2, 3].forEach(s => page.rect(PAGE_MARGIN + s * segment, barTop, segment, 2, { fill: s % 2 === 0, lineWidth: 0.2 }));
+        page.text(PAGE_MARGIN, barTop + 3, 7, '0', { align: 'center' });
+        page.text(PAGE_MARGIN + segment * 4, barTop + 3, 7, `${scaleBarLength} ${unit}`, { align: 'center' });
+        page.text(PAGE_MARGIN, barTop + 6.5, 7, `1 cm = ${round(unitsPerCm)} ${unit}. Check the bar measures ${+barWidth.toFixed(1)} mm before marking out.`);
+        drawNorthArrow(page, pageWidth - PAGE_MARGIN - 3, barTop);
+
+        pages.push(page);
+    }
+
+    return writePdf(pages, `${title} - Ground Plan`);
+};
@@ -1,13 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
-import { Entity, EntityType, GroupMetadata, AnimationAction, AnchorPosition } from '../types';
-import { RotateCw, Trash2, Users, UserMinus, ChevronLeft, ChevronRight, SlidersHorizontal, UserPlus, Eye, EyeOff, Check, Compass, Flag, Clock, CornerUpRight, MoveDiagonal, LayoutTemplate } from 'lucide-react';
+import { Entity, EntityType, ParadeConfig, GroupMetadata, AnimationAction, CommandCue, ProgrammeEvent, AnchorPosition, MarchMode, MotionProfile, PathWaypoint, Posture, Pose } from '../types';
+import { RotateCw, Trash2, Users, UserMinus, ChevronLeft, ChevronRight, SlidersHorizontal, UserPlus, Eye, EyeOff, Check, Compass, Flag, Clock, CornerUpRight, MoveDiagonal, LayoutTemplate, Plus, Spline, X, Megaphone, CalendarClock } from 'lucide-react';
+import { ORDER_STEP_PACES, DEFAULT_CAUTION_LEAD } from '../constants';
+import { PROGRAMME_EVENT_KINDS, formatRunTime } from '../utils/programmeUtils';
+import { toInputDistance, fromDisplayDistance, getDistanceStep, getUnitLabel } from '../utils/unitUtils';
 
 interface PropertiesPanelProps {
   isOpen: boolean;
   onToggle: () => void;
   selectedEntities: Entity[];
   groups: Record<string, GroupMetadata>;
+  config: ParadeConfig; // Distances are shown and typed in its units
   onUpdate: (updates: Partial<Entity>[]) => void;
   onDelete: () => void;
   onGroup: () => void;
@@ -16,8 +20,21 @@ interface PropertiesPanelProps {
   
   // Animation props
   selectedAction?: AnimationAction;
+  actionGroup?: GroupMetadata; // Group owning the selected action, if it's on a group track
+  actionStartPose?: Pose; // Where the action's owner stands when it begins
   onUpdateAction: (actionId: string, updates: Partial<AnimationAction>) => void;
   onDeleteAction: () => void;
+
+  // Word of command props
+  selectedCue?: CommandCue;
+  commandGivers?: Entity[];
+  onUpdateCue?: (cueId: string, updates: Partial<CommandCue>) => void;
+  onDeleteCue?: () => void;
+
+  // Programme event props
+  selectedEvent?: ProgrammeEvent;
+  onUpdateEvent?: (eventId: string, updates: Partial<ProgrammeEvent>) => void;
+  onDeleteEvent?: () => void;
 }
 
 // Helper component for Color Picker with "Set" button
@@ -72,9 +89,17 @@ const ColorPickerWithSet: React.FC<{
 };
 
 export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ 
-    isOpen, onToggle, selectedEntities, groups, onUpdate, onDelete, onGroup, onUngroup, onUpdateGroup,
-    selectedAction, onUpdateAction, onDeleteAction
+    isOpen, onToggle, selectedEntities, groups, config, onUpdate, onDelete, onGroup, onUngroup, onUpdateGroup,
+    selectedAction, actionGroup, actionStartPose, onUpdateAction, onDeleteAction,
+    selectedCue, commandGivers = [], onUpdateCue, onDeleteCue,
+    selectedEvent, onUpdateEvent, onDeleteEvent
 }) => {
+
+  // Distance inputs show the parade's unit; everything is stored in paces
+  const unitLabel = getUnitLabel(config);
+  const distanceStep = getDistanceStep(config);
+  const toInput = (paces: number) => toInputDistance(paces, config);
+  const fromInput = (value: string) => fromDisplayDistance(parseFloat(value), config);
   
   const toggleButton = (
     <button 
@@ -105,17 +130,105 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
         onUpdateAction(selectedAction.id, { [key]: value });
     };
 
-    // Determine if we are editing a group action
-    let isGroupAction = false;
-    // Find owner of action
-    // (Logic could be passed down, but for now we infer if selectedEntities are a group or if we can find the track)
-    // Simplified: Check if payload accepts groupAnchor
-    
+    // Typing a duration takes the clip off the cadence
+    const handleDurationChange = (value: number) => {
+        onUpdateAction(selectedAction.id, { duration: value, marchMode: 'MANUAL' });
+    };
+
+    const marchMode: MarchMode = selectedAction.marchMode || 'MANUAL';
+
+    const isGroupAction = !!actionGroup;
+    const isDrillWheel = actionGroup?.type === 'CONTINGENT' && selectedAction.payload.wheelMode === 'DRILL';
+
+    // Ranks and files are kept consistent with the number of men in the ranks
+    const rankCount = (actionGroup?.config?.rows ?? 0) * (actionGroup?.config?.cols ?? 0);
+    const handleFormationShapeChange = (key: 'targetRows' | 'targetCols', value: number) => {
+        if (!Number.isFinite(value) || value < 1) return;
+        const other = key === 'targetRows' ? 'targetCols' : 'targetRows';
+        const payload = { ...selectedAction.payload, [key]: Math.round(value) };
+        if (rankCount > 0) payload[other] = Math.ceil(rankCount / Math.round(value));
+        onUpdateAction(selectedAction.id, { payload });
+    };
+
+    const waypoints = selectedAction.payload.waypoints || [];
+
+    const handleWaypointsChange = (newWaypoints: PathWaypoint[]) => {
+        onUpdateAction(selectedAction.id, { payload: { ...selectedAction.payload, waypoints: newWaypoints } });
+    };
+
+    const handleWaypointAxisChange = (index: number, axis: 'x' | 'y', value: number) => {
+        if (!Number.isFinite(value)) return;
+        handleWaypointsChange(waypoints.map((w, i) => i === index ? { ...w, [axis]: value } : w));
+    };
+
+    // New waypoints go halfway between the last waypoint (or the target) and the target
+    const handleAddWaypoint = () => {
+        const targetX = selectedAction.payload.targetX ?? 0;
+        const targetY = selectedAction.payload.targetY ?? 0;
+        const last = waypoints[waypoints.length - 1];
+        const point = last
+            ? { x: (last.x + targetX) / 2, y: (last.y + targetY) / 2 }
+            : { x: targetX - 2, y: targetY };
+        handleWaypointsChange([...waypoints, point]);
+    };
+
+    const targetMode = selectedAction.payload.targetMode || 'ABSOLUTE';
+    const isRelative = targetMode === 'RELATIVE';
+
+    const handleTargetModeChange = (mode: 'ABSOLUTE' | 'RELATIVE') => {
+        if (mode === targetMode) return;
+        // Switching frames starts from a fresh target: 10 paces forward or a right turn when relative
+        const owner = actionStartPose;
+        const targets = selectedAction.type === 'TURN'
+            ? { targetRotation: mode === 'RELATIVE' ? 90 : (owner?.rotation ?? 0) }
+            : mode === 'RELATIVE'
+                ? { targetX: 0, targetY: -10, waypoints: [] }
+                : { targetX: (owner?.x ?? 0) + 5, targetY: owner?.y ?? 0, waypoints: [] };
+        onUpdateAction(selectedAction.id, { payload: { ...selectedAction.payload, ...targets, targetMode: mode } });
+    };
+
+    const renderTargetModeToggle = () => (
+        <div className="flex bg-gray-900 rounded p-1 border border-gray-700">
+            {([['ABSOLUTE', 'Absolute'], ['RELATIVE', 'Relative']] as ['ABSOLUTE' | 'RELATIVE', string][]).map(([mode, label]) => (
+                <button
+                    key={mode}
+                    onClick={() => handleTargetModeChange(mode)}
+                    className={`flex-1 py-1 rounded text-xs ${targetMode === mode ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+    );
+
+    const pivotMode = selectedAction.payload.pivot ? (selectedAction.payload.pivotMode || 'RELATIVE') : 'NONE';
+
+    const handlePivotModeChange = (mode: 'NONE' | 'RELATIVE' | 'ABSOLUTE') => {
+        if (mode === 'NONE') {
+            onUpdateAction(selectedAction.id, { payload: { ...selectedAction.payload, pivot: undefined, pivotMode: undefined } });
+            return;
+        }
+        // Start new pivots a couple of paces off the owner so the arc is visible straight away
+        const owner = actionStartPose;
+        const pivot = mode === 'RELATIVE'
+            ? { x: 2, y: 0 }
+            : { x: (owner?.x ?? 0) + 2, y: owner?.y ?? 0 };
+        onUpdateAction(selectedAction.id, { payload: { ...selectedAction.payload, pivot, pivotMode: mode } });
+    };
+
+    const handlePivotAxisChange = (axis: 'x' | 'y', value: number) => {
+        if (!selectedAction.payload.pivot || !Number.isFinite(value)) return;
+        onUpdateAction(selectedAction.id, { payload: { ...selectedAction.payload, pivot: { ...selectedAction.payload.pivot, [axis]: value } } });
+    };
+
     return (
         <div className="p-4 space-y-4 flex flex-col h-full bg-gray-850">
             <div className="flex-1 space-y-4 overflow-y-auto custom-scrollbar">
                 <div className="flex justify-between items-center border-b border-gray-700 pb-2">
-                     <span className="font-bold text-green-400 text-sm">{selectedAction.type} Action</span>
+                     <span className="font-bold text-green-400 text-sm">
+                         {selectedAction.type} Action
+                         {selectedAction.label && <span className="block text-xs font-normal text-orange-300">"{selectedAction.label}"</span>}
+                     </span>
                      <span className="text-xs text-gray-500 font-mono">{selectedAction.id.slice(0, 8)}</span>
                 </div>
 
@@ -135,12 +248,50 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                         <input 
                             type="number" step="0.1" min="0.1"
                             value={selectedAction.duration}
-                            onChange={(e) => handleCommonChange('duration', parseFloat(e.target.value))}
+                            onChange={(e) => handleDurationChange(parseFloat(e.target.value))}
                             className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
                         />
                     </div>
                 </div>
 
+                {/* Cadence (postures are held for the clip, not marched) */}
+                {selectedAction.type !== 'POSTURE' && (<>
+                <div className="space-y-2">
+                    <h4 className="text-xs font-bold text-gray-400 uppercase">March</h4>
+                    <div className="flex bg-gray-900 rounded p-1 border border-gray-700">
+                        {([['QUICK', 'Quick'], ['SLOW', 'Slow'], ['MANUAL', 'Manual']] as [MarchMode, string][]).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => onUpdateAction(selectedAction.id, { marchMode: mode })}
+                                className={`flex-1 py-1 rounded text-xs ${marchMode === mode ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-gray-500">
+                        {marchMode === 'MANUAL' ? 'Duration is set by hand.' : 'Duration follows the paces and parade tempo.'}
+                    </p>
+                </div>
+
+                {/* Motion Profile */}
+                <div className="space-y-2">
+                    <h4 className="text-xs font-bold text-gray-400 uppercase">Motion</h4>
+                    <div className="grid grid-cols-3 gap-1">
+                        {([['LINEAR', 'Linear'], ['EASE_IN', 'Ease In'], ['EASE_OUT', 'Ease Out'], ['EASE_IN_OUT', 'Ease In/Out'], ['STEPPED', 'Stepped']] as [MotionProfile, string][]).map(([profile, label]) => (
+                            <button
+                                key={profile}
+                                onClick={() => onUpdateAction(selectedAction.id, { motionProfile: profile })}
+                                className={`py-1 text-[10px] rounded border ${(selectedAction.motionProfile || 'LINEAR') === profile ? 'bg-green-900/50 border-green-500 text-green-400' : 'bg-gray-700 border-gray-600'}`}
+                                title={profile === 'STEPPED' ? 'Advance one pace per beat, with a halt beat at the end' : undefined}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                </>)}
+
                 {/* Type Specific */}
                 {selectedAction.type === 'MOVE' && (
                     <div className="space-y-4">
@@ -164,26 +315,85 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
 
                          <div className="space-y-2">
                              <h4 className="text-xs font-bold text-gray-400 uppercase">Target Position</h4>
+                             {renderTargetModeToggle()}
                              <div className="grid grid-cols-2 gap-2">
                                 <div>
-                                    <label className="block text-xs text-gray-500 mb-1">X (Paces)</label>
+                                    <label className="block text-xs text-gray-500 mb-1">{isRelative ? 'Right' : 'X'} ({unitLabel})</label>
                                     <input 
-                                        type="number" step="0.5"
-                                        value={selectedAction.payload.targetX ?? 0}
-                                        onChange={(e) => handlePayloadChange('targetX', parseFloat(e.target.value))}
+                                        type="number" step={distanceStep}
+                                        value={toInput(selectedAction.payload.targetX ?? 0)}
+                                        onChange={(e) => handlePayloadChange('targetX', fromInput(e.target.value))}
                                         className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
                                     />
                                 </div>
                                 <div>
-                                    <label className="block text-xs text-gray-500 mb-1">Y (Paces)</label>
+                                    <label className="block text-xs text-gray-500 mb-1">{isRelative ? 'Rear' : 'Y'} ({unitLabel})</label>
                                     <input 
-                                        type="number" step="0.5"
-                                        value={selectedAction.payload.targetY ?? 0}
-                                        onChange={(e) => handlePayloadChange('targetY', parseFloat(e.target.value))}
+                                        type="number" step={distanceStep}
+                                        value={toInput(selectedAction.payload.targetY ?? 0)}
+                                        onChange={(e) => handlePayloadChange('targetY', fromInput(e.target.value))}
                                         className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
                                     />
                                 </div>
                              </div>
+                             {isRelative && (
+                                 <p className="text-[10px] text-gray-500">
+                                     Measured from wherever the move begins, along the bearing at that moment (negative Rear is forward). Waypoints use the same frame.
+                                 </p>
+                             )}
+                         </div>
+
+                         {/* Waypoints */}
+                         <div className="space-y-2">
+                             <h4 className="text-xs font-bold text-gray-400 uppercase flex items-center justify-between">
+                                 <span>Waypoints</span>
+                                 <button
+                                     onClick={handleAddWaypoint}
+                                     className="p-0.5 rounded text-gray-400 hover:text-white hover:bg-gray-700"
+                                     title="Add Waypoint"
+                                 >
+                                     <Plus className="w-3 h-3" />
+                                 </button>
+                             </h4>
+                             {waypoints.length === 0 ? (
+                                 <p className="text-[10px] text-gray-500">None. Drag the path handles on the canvas to add corners.</p>
+                             ) : (
+                                 <div className="space-y-1">
+                                     {waypoints.map((w, i) => (
+                                         <div key={i} className="flex items-center gap-1">
+                                             <span className="text-[10px] text-gray-500 w-3">{i + 1}</span>
+                                             <input 
+                                                 type="number" step={distanceStep}
+                                                 value={toInput(w.x)}
+                                                 onChange={(e) => handleWaypointAxisChange(i, 'x', fromInput(e.target.value))}
+                                                 className="w-full min-w-0 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs focus:border-green-500 outline-none"
+                                                 title={`${isRelative ? 'Right' : 'X'} (${unitLabel})`}
+                                             />
+                                             <input 
+                                                 type="number" step={distanceStep}
+                                                 value={toInput(w.y)}
+                                                 onChange={(e) => handleWaypointAxisChange(i, 'y', fromInput(e.target.value))}
+                                                 className="w-full min-w-0 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs focus:border-green-500 outline-none"
+                                                 title={`${isRelative ? 'Rear' : 'Y'} (${unitLabel})`}
+                                             />
+                                             <button
+                                                 onClick={() => handleWaypointsChange(waypoints.map((wp, j) => j === i ? { ...wp, smooth: !wp.smooth } : wp))}
+                                                 className={`p-1 rounded border ${w.smooth ? 'bg-green-900/50 border-green-500 text-green-400' : 'bg-gray-700 border-gray-600 text-gray-400'}`}
+                                                 title={w.smooth ? 'Curved through this point' : 'Sharp corner'}
+                                             >
+                                                 <Spline className="w-3 h-3" />
+                                             </button>
+                                             <button
+                                                 onClick={() => handleWaypointsChange(waypoints.filter((_, j) => j !== i))}
+                                                 className="p-1 rounded text-gray-500 hover:text-red-400"
+                                                 title="Remove Waypoint"
+                                             >
+                                                 <X className="w-3 h-3" />
+                                             </button>
+                                         </div>
+                                     ))}
+                                 </div>
+                             )}
                          </div>
 
                          {/* Group Anchor Reference */}
@@ -214,25 +424,40 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 {selectedAction.type === 'TURN' && (
                     <div className="space-y-2">
                          <h4 className="text-xs font-bold text-gray-400 uppercase">Target Rotation</h4>
+                         {renderTargetModeToggle()}
                          <div>
-                            <label className="block text-xs text-gray-500 mb-1">Angle (Degrees)</label>
+                            <label className="block text-xs text-gray-500 mb-1">{isRelative ? 'Turn By (Degrees)' : 'Angle (Degrees)'}</label>
                             <input 
                                 type="number" 
                                 value={selectedAction.payload.targetRotation ?? 0}
                                 onChange={(e) => handlePayloadChange('targetRotation', parseFloat(e.target.value))}
                                 className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
                             />
-                            <div className="flex gap-1 mt-2">
-                                {[0, 90, 180, 270].map(d => (
-                                    <button 
-                                      key={d} 
-                                      onClick={() => handlePayloadChange('targetRotation', d)}
-                                      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
-                                    >
-                                        {d}
-                                    </button>
-                                ))}
-                            </div>
+                            {isRelative ? (
+                                <div className="grid grid-cols-3 gap-1 mt-2">
+                                    {([[-90, 'Left'], [90, 'Right'], [180, 'About'], [-45, 'Half Left'], [45, 'Half Right']] as [number, string][]).map(([d, label]) => (
+                                        <button 
+                                          key={d} 
+                                          onClick={() => handlePayloadChange('targetRotation', d)}
+                                          className={`px-2 py-1 rounded text-xs ${selectedAction.payload.targetRotation === d ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            ) : (
+                                <div className="flex gap-1 mt-2">
+                                    {[0, 90, 180, 270].map(d => (
+                                        <button 
+                                          key={d} 
+                                          onClick={() => handlePayloadChange('targetRotation', d)}
+                                          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                                        >
+                                            {d}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                          </div>
                     </div>
                 )}
@@ -249,6 +474,27 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                                 className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
                             />
                          </div>
+                         {actionGroup?.type === 'CONTINGENT' && (
+                         <div>
+                            <label className="block text-xs text-gray-500 mb-1">Wheel Style</label>
+                            <div className="flex bg-gray-900 rounded p-1 border border-gray-700">
+                                {([['DRILL', 'Drill'], ['RIGID', 'Rigid']] as ['DRILL' | 'RIGID', string][]).map(([mode, label]) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => handlePayloadChange('wheelMode', mode)}
+                                        className={`flex-1 py-1 rounded text-xs ${(selectedAction.payload.wheelMode || 'RIGID') === mode ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                         </div>
+                         )}
+                         {isDrillWheel ? (
+                         <p className="text-[10px] text-gray-500">
+                             The front-rank man on the inner flank marks time as the pivot; the outer file steps out at full pace and sets the timing.
+                         </p>
+                         ) : isGroupAction ? (
                          <div>
                             <label className="block text-xs text-gray-500 mb-1">Pivot Corner</label>
                             <div className="grid grid-cols-3 gap-1">
@@ -263,6 +509,156 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                                 ))}
                             </div>
                          </div>
+                         ) : (
+                         <div className="space-y-2">
+                            <label className="block text-xs text-gray-500 mb-1">Pivot Point</label>
+                            <div className="flex bg-gray-900 rounded p-1 border border-gray-700">
+                                {([['NONE', 'In Place'], ['RELATIVE', 'Relative'], ['ABSOLUTE', 'Absolute']] as ['NONE' | 'RELATIVE' | 'ABSOLUTE', string][]).map(([mode, label]) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => handlePivotModeChange(mode)}
+                                        className={`flex-1 py-1 rounded text-xs ${pivotMode === mode ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {selectedAction.payload.pivot && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div>
+                                        <label className="block text-xs text-gray-500 mb-1">{pivotMode === 'RELATIVE' ? 'Right' : 'X'} ({unitLabel})</label>
+                                        <input 
+                                            type="number" step={distanceStep}
+                                            value={toInput(selectedAction.payload.pivot.x)}
+                                            onChange={(e) => handlePivotAxisChange('x', fromInput(e.target.value))}
+                                            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs text-gray-500 mb-1">{pivotMode === 'RELATIVE' ? 'Rear' : 'Y'} ({unitLabel})</label>
+                                        <input 
+                                            type="number" step={distanceStep}
+                                            value={toInput(selectedAction.payload.pivot.y)}
+                                            onChange={(e) => handlePivotAxisChange('y', fromInput(e.target.value))}
+                                            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                            <p className="text-[10px] text-gray-500">
+                                {pivotMode === 'RELATIVE' ? 'Offset from the entity, measured along its own bearing.' : pivotMode === 'ABSOLUTE' ? 'Fixed point on the parade ground.' : 'Rotates on the spot.'}
+                            </p>
+                         </div>
+                         )}
+                    </div>
+                )}
+
+                {selectedAction.type === 'FORMATION_CHANGE' && (
+                    <div className="space-y-2">
+                         <h4 className="text-xs font-bold text-gray-400 uppercase">Target Formation</h4>
+                         <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Ranks</label>
+                                <input 
+                                    type="number" min="1"
+                                    value={selectedAction.payload.targetRows ?? ''}
+                                    onChange={(e) => handleFormationShapeChange('targetRows', parseInt(e.target.value))}
+                                    className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-purple-500 outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Files</label>
+                                <input 
+                                    type="number" min="1"
+                                    value={selectedAction.payload.targetCols ?? ''}
+                                    onChange={(e) => handleFormationShapeChange('targetCols', parseInt(e.target.value))}
+                                    className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-purple-500 outline-none"
+                                />
+                            </div>
+                         </div>
+                         <div className="flex gap-1">
+                            <button 
+                                onClick={() => handleFormationShapeChange('targetRows', 3)}
+                                className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                            >
+                                Line
+                            </button>
+                            <button 
+                                onClick={() => handleFormationShapeChange('targetCols', 3)}
+                                className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                            >
+                                Column of Route
+                            </button>
+                         </div>
+                         <div>
+                            <label className="block text-xs text-gray-500 mb-1">Bearing (Degrees)</label>
+                            <input 
+                                type="number" 
+                                value={selectedAction.payload.targetBearing ?? 0}
+                                onChange={(e) => handlePayloadChange('targetBearing', parseFloat(e.target.value))}
+                                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-purple-500 outline-none"
+                            />
+                            <div className="flex gap-1 mt-2">
+                                {[0, 90, 180, 270].map(d => (
+                                    <button 
+                                      key={d} 
+                                      onClick={() => handlePayloadChange('targetBearing', d)}
+                                      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                                    >
+                                        {d}
+                                    </button>
+                                ))}
+                            </div>
+                         </div>
+                         <p className="text-[10px] text-gray-500">
+                             The right marker stands fast; every man takes his own route to the new formation without crossing another file.
+                         </p>
+                    </div>
+                )}
+
+                {(selectedAction.type === 'OPEN_ORDER' || selectedAction.type === 'CLOSE_ORDER') && (
+                    <div className="space-y-2">
+                         <h4 className="text-xs font-bold text-gray-400 uppercase">{selectedAction.type === 'OPEN_ORDER' ? 'Open Order' : 'Close Order'}</h4>
+                         <div>
+                            <label className="block text-xs text-gray-500 mb-1">Step ({unitLabel})</label>
+                            <input 
+                                type="number" step={distanceStep} min="0"
+                                value={toInput(selectedAction.payload.orderPaces ?? ORDER_STEP_PACES)}
+                                onChange={(e) => handlePayloadChange('orderPaces', fromInput(e.target.value))}
+                                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-teal-500 outline-none"
+                            />
+                         </div>
+                         <p className="text-[10px] text-gray-500">
+                             {selectedAction.type === 'OPEN_ORDER'
+                                 ? 'Front rank steps forward, rear rank steps back; centre ranks stand fast.'
+                                 : 'Front rank steps back, rear rank steps forward; centre ranks stand fast.'}
+                         </p>
+                    </div>
+                )}
+
+                {selectedAction.type === 'DRESS' && (
+                    <p className="text-[10px] text-gray-500">
+                        Each rank dresses by the right at one-pace intervals, covering off behind the right marker. Stragglers step back into their slots.
+                    </p>
+                )}
+
+                {selectedAction.type === 'POSTURE' && (
+                    <div className="space-y-2">
+                         <h4 className="text-xs font-bold text-gray-400 uppercase">Posture</h4>
+                         <div className="grid grid-cols-2 gap-1">
+                            {([['ATTENTION', 'Attention'], ['STAND_AT_EASE', 'Stand at Ease'], ['SALUTE', 'Salute'], ['PRESENT_ARMS', 'Present Arms'], ['COLOURS_LOWERED', 'Colours Lowered']] as [Posture, string][]).map(([posture, label]) => (
+                                <button
+                                    key={posture}
+                                    onClick={() => handlePayloadChange('posture', posture)}
+                                    className={`py-1 text-[10px] rounded border ${(selectedAction.payload.posture || 'ATTENTION') === posture ? 'bg-rose-900/50 border-rose-500 text-rose-300' : 'bg-gray-700 border-gray-600'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                         </div>
+                         <p className="text-[10px] text-gray-500">
+                             Held from the start of the clip to its end, then back to attention. Colours are only lowered by Colour bearers.
+                         </p>
                     </div>
                 )}
             </div>
@@ -277,6 +673,170 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     );
   };
 
+  const renderCueProperties = () => {
+    if (!selectedCue || !onUpdateCue) return null;
+
+    const handleNumberChange = (key: 'time' | 'cautionLead', value: number) => {
+        if (!Number.isFinite(value) || value < 0) return;
+        onUpdateCue(selectedCue.id, { [key]: value });
+    };
+
+    return (
+        <div className="p-4 space-y-4 flex flex-col h-full bg-gray-850">
+            <div className="flex-1 space-y-4 overflow-y-auto custom-scrollbar">
+                <div className="flex justify-between items-center border-b border-gray-700 pb-2">
+                     <span className="font-bold text-orange-300 text-sm flex items-center gap-2">
+                         <Megaphone className="w-4 h-4" /> Word of Command
+                     </span>
+                     <span className="text-xs text-gray-500 font-mono">{selectedCue.id.slice(0, 8)}</span>
+                </div>
+
+                <div>
+                    <label className="block text-xs text-gray-500 mb-1">Caution</label>
+                    <input
+                        type="text"
+                        value={selectedCue.caution || ''}
+                        placeholder="Parade will advance, right"
+                        onChange={(e) => onUpdateCue(selectedCue.id, { caution: e.target.value || undefined })}
+                        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-orange-500 outline-none"
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-gray-500 mb-1">Executive</label>
+                    <input
+                        type="text"
+                        value={selectedCue.executive}
+                        placeholder="TURN"
+                        onChange={(e) => onUpdateCue(selectedCue.id, { executive: e.target.value })}
+                        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm font-bold uppercase focus:border-orange-500 outline-none"
+                    />
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="block text-xs text-gray-500 mb-1">Executive At (s)</label>
+                        <input
+                            type="number" step="0.25" min="0"
+                            value={selectedCue.time}
+                            onChange={(e) => handleNumberChange('time', parseFloat(e.target.value))}
+                            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-orange-500 outline-none"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-gray-500 mb-1">Caution Lead (s)</label>
+                        <input
+                            type="number" step="0.25" min="0"
+                            value={selectedCue.cautionLead ?? DEFAULT_CAUTION_LEAD}
+                            disabled={!selectedCue.caution}
+                            onChange={(e) => handleNumberChange('cautionLead', parseFloat(e.target.value))}
+                            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-orange-500 outline-none disabled:opacity-50"
+                        />
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-xs text-gray-500 mb-1">Given By</label>
+                    <select
+                        value={selectedCue.giverId || ''}
+                        onChange={(e) => onUpdateCue(selectedCue.id, { giverId: e.target.value || undefined })}
+                        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-orange-500 outline-none"
+                    >
+                        <option value="">Nobody in particular</option>
+                        {commandGivers.map(e => (
+                            <option key={e.id} value={e.id}>{e.label || e.type.replace(/_/g, ' ')}</option>
+                        ))}
+                    </select>
+                </div>
+                <p className="text-[10px] text-gray-500">
+                    The movement starts on the beat after the executive word. Playback speaks both parts and flashes them over whoever gives the command.
+                </p>
+            </div>
+
+            <button
+                onClick={onDeleteCue}
+                className="w-full py-2 bg-red-900/30 text-red-400 border border-red-900/50 rounded hover:bg-red-900/50 flex items-center justify-center gap-2 text-sm mt-auto shrink-0"
+            >
+                <Trash2 className="w-4 h-4" /> Delete Command
+            </button>
+        </div>
+    );
+  };
+
+  const renderEventProperties = () => {
+    if (!selectedEvent || !onUpdateEvent) return null;
+
+    const handleNumberChange = (key: 'startTime' | 'duration', value: number) => {
+        if (!Number.isFinite(value) || value < 0 || (key === 'duration' && value === 0)) return;
+        onUpdateEvent(selectedEvent.id, { [key]: value });
+    };
+
+    return (
+        <div className="p-4 space-y-4 flex flex-col h-full bg-gray-850">
+            <div className="flex-1 space-y-4 overflow-y-auto custom-scrollbar">
+                <div className="flex justify-between items-center border-b border-gray-700 pb-2">
+                     <span className="font-bold text-sky-300 text-sm flex items-center gap-2">
+                         <CalendarClock className="w-4 h-4" /> Programme Event
+                     </span>
+                     <span className="text-xs text-gray-500 font-mono">{selectedEvent.id.slice(0, 8)}</span>
+                </div>
+
+                <div>
+                    <label className="block text-xs text-gray-500 mb-1">Name</label>
+                    <input
+                        type="text"
+                        value={selectedEvent.name}
+                        onChange={(e) => onUpdateEvent(selectedEvent.id, { name: e.target.value })}
+                        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-sky-500 outline-none"
+                    />
+                </div>
+
+                <div className="grid grid-cols-2 gap-1">
+                    {PROGRAMME_EVENT_KINDS.map(({ kind, label }) => (
+                        <button
+                            key={kind}
+                            onClick={() => onUpdateEvent(selectedEvent.id, { kind })}
+                            className={`py-1 text-[10px] rounded border ${selectedEvent.kind === kind ? 'bg-sky-900/50 border-sky-500 text-sky-300' : 'bg-gray-700 border-gray-600'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="block text-xs text-gray-500 mb-1">Start Time (s)</label>
+                        <input
+                            type="number" step="1" min="0"
+                            value={selectedEvent.startTime}
+                            onChange={(e) => handleNumberChange('startTime', parseFloat(e.target.value))}
+                            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-sky-500 outline-none"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-gray-500 mb-1">Duration (s)</label>
+                        <input
+                            type="number" step="5" min="1"
+                            value={selectedEvent.duration}
+                            onChange={(e) => handleNumberChange('duration', parseFloat(e.target.value))}
+                            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-sky-500 outline-none"
+                        />
+                    </div>
+                </div>
+                <p className="text-[10px] text-gray-500">
+                    Runs {formatRunTime(selectedEvent.startTime)} to {formatRunTime(selectedEvent.startTime + selectedEvent.duration)}. Nobody should march during it; postures are fine.
+                </p>
+            </div>
+
+            <button
+                onClick={onDeleteEvent}
+                className="w-full py-2 bg-red-900/30 text-red-400 border border-red-900/50 rounded hover:bg-red-900/50 flex items-center justify-center gap-2 text-sm mt-auto shrink-0"
+            >
+                <Trash2 className="w-4 h-4" /> Delete Event
+            </button>
+        </div>
+    );
+  };
+
   const renderEntityProperties = () => {
     if (selectedEntities.length === 0) {
         if (selectedAction) return <div className="p-4 text-xs text-gray-500 text-center italic">Select an entity on canvas to see properties</div>;
@@ -481,22 +1041,22 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             {!isMultiple && (
                 <div className="grid grid-cols-2 gap-2">
                     <div>
-                        <label className="block text-xs uppercase text-gray-500 font-bold mb-1">X (Paces)</label>
+                        <label className="block text-xs uppercase text-gray-500 font-bold mb-1">X ({unitLabel})</label>
                         <input 
                             type="number" 
-                            step="0.5"
-                            value={primary.x}
-                            onChange={(e) => handlePositionChange('x', parseFloat(e.target.value))}
+                            step={distanceStep}
+                            value={toInput(primary.x)}
+                            onChange={(e) => handlePositionChange('x', fromInput(e.target.value))}
                             className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
                         />
                     </div>
                     <div>
-                        <label className="block text-xs uppercase text-gray-500 font-bold mb-1">Y (Paces)</label>
+                        <label className="block text-xs uppercase text-gray-500 font-bold mb-1">Y ({unitLabel})</label>
                         <input 
                             type="number" 
-                            step="0.5"
-                            value={primary.y}
-                            onChange={(e) => handlePositionChange('y', parseFloat(e.target.value))}
+                            step={distanceStep}
+                            value={toInput(primary.y)}
+                            onChange={(e) => handlePositionChange('y', fromInput(e.target.value))}
                             className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:border-green-500 outline-none"
                         />
                     </div>
@@ -598,7 +1158,7 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     <div className="w-64 bg-gray-800 border-l border-gray-700 flex flex-col text-gray-200 relative transition-all duration-300">
         {toggleButton}
         
-        {selectedAction ? (
+        {selectedAction || selectedCue || selectedEvent ? (
             // Split View: 1/2 Sprite Props (Top), 1/2 Animation Props (Bottom)
             // Flex column allows natural flow without overlap
             <div className="flex flex-col h-full">
@@ -610,14 +1170,34 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                         {renderEntityProperties()}
                      </div>
                 </div>
-                <div className="flex-1 overflow-hidden flex flex-col bg-gray-850">
-                     <div className="bg-green-900/20 p-2 text-[10px] text-green-400 uppercase font-bold tracking-widest border-b border-green-900/30 shrink-0">
-                         Animation Clip
-                     </div>
-                     <div className="overflow-y-auto flex-1 custom-scrollbar">
-                        {renderAnimationProperties()}
-                     </div>
-                </div>
+                {selectedAction ? (
+                    <div className="flex-1 overflow-hidden flex flex-col bg-gray-850">
+                         <div className="bg-green-900/20 p-2 text-[10px] text-green-400 uppercase font-bold tracking-widest border-b border-green-900/30 shrink-0">
+                             Animation Clip
+                         </div>
+                         <div className="overflow-y-auto flex-1 custom-scrollbar">
+                            {renderAnimationProperties()}
+                         </div>
+                    </div>
+                ) : selectedEvent ? (
+                    <div className="flex-1 overflow-hidden flex flex-col bg-gray-850">
+                         <div className="bg-sky-900/20 p-2 text-[10px] text-sky-300 uppercase font-bold tracking-widest border-b border-sky-900/30 shrink-0">
+                             Programme
+                         </div>
+                         <div className="overflow-y-auto flex-1 custom-scrollbar">
+                            {renderEventProperties()}
+                         </div>
+                    </div>
+                ) : (
+                    <div className="flex-1 overflow-hidden flex flex-col bg-gray-850">
+                         <div className="bg-orange-900/20 p-2 text-[10px] text-orange-300 uppercase font-bold tracking-widest border-b border-orange-900/30 shrink-0">
+                             Command Cue
+                         </div>
+                         <div className="overflow-y-auto flex-1 custom-scrollbar">
+                            {renderCueProperties()}
+                         </div>
+                    </div>
+                )}
             </div>
         ) : (
             // Full View
@@ -1,7 +1,8 @@
 
 import React from 'react';
-import { EntityType, Entity } from '../types';
+import { EntityType, Entity, Posture, GroupMetadata } from '../types';
 import { PIXELS_PER_PACE, ENTITY_SIZE_MAP } from '../constants';
+import { escapeHtml } from '../utils/htmlUtils';
 
 // Helper to determine visuals based on type/label
 export const getPersonVisuals = (type: EntityType, label: string = "") => {
@@ -15,19 +16,38 @@ export const getPersonVisuals = (type: EntityType, label: string = "") => {
     return { isOfficer, isRSM, isColour, isEscort, isRO, isHost };
 };
 
-export const renderPersonSVG = (type: EntityType, label: string = "", customColor?: string) => {
+export const renderPersonSVG = (type: EntityType, label: string = "", customColor?: string, posture: Posture = 'ATTENTION') => {
     const { isOfficer, isRSM, isColour, isEscort, isRO, isHost } = getPersonVisuals(type, label);
+    const atEase = posture === 'STAND_AT_EASE';
+    const coloursLowered = isColour && posture === 'COLOURS_LOWERED';
+    const presentingArms = posture === 'PRESENT_ARMS' && !isColour && !isRO && !isHost;
+    const armColor = isRO ? '#111' : isHost ? '#1e3a8a' : '#F9FAFB';
     
     return (
         <g>
             {/* Drop Shadow */}
             <ellipse cx="0" cy="2" rx="6" ry="6" fill="black" fillOpacity="0.4" filter="blur(1px)" />
 
-            {/* Boots / Shoes */}
-            <g transform="translate(0, -3)">
-                <ellipse cx="-2.5" cy="0" rx="2" ry="3.5" fill="#111" transform="rotate(-15, -2.5, 0)" />
-                <ellipse cx="2.5" cy="0" rx="2" ry="3.5" fill="#111" transform="rotate(15, 2.5, 0)" />
-            </g>
+            {/* Boots / Shoes: heels together at attention, a shoulder-width apart at ease */}
+            {atEase ? (
+                <g transform="translate(0, -3)">
+                    <ellipse cx="-4.5" cy="0" rx="2" ry="3.5" fill="#111" />
+                    <ellipse cx="4.5" cy="0" rx="2" ry="3.5" fill="#111" />
+                </g>
+            ) : (
+                <g transform="translate(0, -3)">
+                    <ellipse cx="-2.5" cy="0" rx="2" ry="3.5" fill="#111" transform="rotate(-15, -2.5, 0)" />
+                    <ellipse cx="2.5" cy="0" rx="2" ry="3.5" fill="#111" transform="rotate(15, 2.5, 0)" />
+                </g>
+            )}
+
+            {/* Hands clasped behind the back at ease */}
+            {atEase && (
+                <g>
+                    <path d="M -7 1 Q -5 5 -1 4.5 M 7 1 Q 5 5 1 4.5" fill="none" stroke={armColor} strokeWidth="2" strokeLinecap="round" />
+                    <circle cx="0" cy="4.5" r="1.3" fill="#FCA5A5" />
+                </g>
+            )}
 
             {/* Body */}
             {isRO ? (
@@ -87,15 +107,44 @@ export const renderPersonSVG = (type: EntityType, label: string = "", customColo
                 </g>
             )}
             
+            {/* Right hand brought up to the brow */}
+            {posture === 'SALUTE' && (
+                <g>
+                    <path d="M 7.5 -1 Q 7 -5 3 -4.5" fill="none" stroke={armColor} strokeWidth="2.2" strokeLinecap="round" />
+                    <circle cx="2.5" cy="-4.5" r="1.3" fill="#FCA5A5" />
+                </g>
+            )}
+
+            {/* Present arms: sword brought up before the face for officers, rifle held upright in front for the rest */}
+            {presentingArms && (isOfficer || isRSM ? (
+                <g>
+                    <line x1="1.5" y1="-5" x2="1.5" y2="-15" stroke="#D1D5DB" strokeWidth="1" strokeLinecap="round" />
+                    <circle cx="1.5" cy="-5" r="1.3" fill="#FCA5A5" />
+                </g>
+            ) : (
+                <g>
+                    <path d="M -7 -1 Q -5 -5 -1 -6 M 7 -1 Q 5 -4 1 -5" fill="none" stroke={armColor} strokeWidth="2" strokeLinecap="round" />
+                    <rect x="-1.2" y="-11" width="2.4" height="7" rx="0.8" fill="#5D4037" stroke="#3E2723" strokeWidth="0.4" />
+                    <circle cx="-1" cy="-6" r="1.2" fill="#FCA5A5" />
+                    <circle cx="1" cy="-5" r="1.2" fill="#FCA5A5" />
+                </g>
+            ))}
+
             {/* Held Items */}
-            {isRSM && <line x1="-7" y1="-6" x2="-7" y2="5" stroke="#5D4037" strokeWidth="1.5" strokeLinecap="round" />}
-            {isColour && (
+            {isRSM && !presentingArms && <line x1="-7" y1="-6" x2="-7" y2="5" stroke="#5D4037" strokeWidth="1.5" strokeLinecap="round" />}
+            {isColour && (coloursLowered ? (
+                 // Pike dipped forward, the flag trailing along it
+                 <g transform="translate(4, -4)">
+                    <line x1="0" y1="0" x2="0" y2="-18" stroke="#B45309" strokeWidth="1.2" strokeLinecap="round" />
+                    <path d="M 0 -18 Q 7 -15 5 -6 L 1 -6 Z" fill={customColor || "#EF4444"} opacity="0.9" stroke="#7f1d1d" strokeWidth="0.5"/>
+                 </g>
+            ) : (
                  <g transform="translate(4, -4)"> 
                     <circle cx="0" cy="0" r="1.5" fill="#B45309" /> 
                     {/* The Flag - Use custom color if provided */}
                     <path d="M 0 0 Q 8 2 5 10 L 1 10 Z" fill={customColor || "#EF4444"} opacity="0.9" stroke="#7f1d1d" strokeWidth="0.5"/>
                  </g>
-            )}
+            ))}
         </g>
     );
 };
@@ -231,11 +280,67 @@ export const renderFurnitureSVG = (type: EntityType) => {
     return <circle r={5} fill="red" />;
 };
 
-export const renderEntityVisual = (type: EntityType, label: string = "", customColor?: string) => {
+// Flag colour of an Ensign in a Colours party, matched by the number in their label
+export const getFlagColor = (ent: Entity, group?: GroupMetadata): string | undefined => {
+    if (group?.type !== 'COLOURS_PARTY' || ent.type !== EntityType.COLOURS || !group.config?.flagColors) return undefined;
+    const match = ent.label.match(/Ensign\s?(\d*)/);
+    let index = 0;
+    if (match) {
+        const num = parseInt(match[1]);
+        if (!isNaN(num)) index = num - 1;
+    }
+    return index >= 0 && index < group.config.flagColors.length ? group.config.flagColors[index] : undefined;
+};
+
+export const renderEntityVisual = (type: EntityType, label: string = "", customColor?: string, posture?: Posture) => {
     // Furniture check
     if ([EntityType.SALUTING_BASE, EntityType.ROSTRUM, EntityType.SPEAKER, EntityType.MIXER, EntityType.MARKER, EntityType.AWARD_TABLE, EntityType.TROPHY_CUP, EntityType.TROPHY_PLAQUE, EntityType.TROPHY_SHIELD].includes(type)) {
         return renderFurnitureSVG(type);
     }
     // People check
-    return renderPersonSVG(type, label, customColor);
+    return renderPersonSVG(type, label, customColor, posture);
+};
+
+// --- Markup ---
+// Pages built as strings (route cards) draw the same visuals as the canvas. The visuals above are
+// plain SVG elements and fragments, which is all this handles.
+
+// React prop names and the SVG attributes they stand for. SVG mixes dashed names with camelCase
+// ones (viewBox), so there's no rule to fall back on: a prop missing here is an error, not a guess.
+const SVG_ATTRIBUTES: Record<string, string> = {
+    className: 'class',
+    cx: 'cx', cy: 'cy', r: 'r', rx: 'rx', ry: 'ry',
+    x: 'x', y: 'y', x1: 'x1', y1: 'y1', x2: 'x2', y2: 'y2', width: 'width', height: 'height',
+    d: 'd', points: 'points', transform: 'transform', viewBox: 'viewBox', preserveAspectRatio: 'preserveAspectRatio',
+    fill: 'fill', fillOpacity: 'fill-opacity', opacity: 'opacity', filter: 'filter',
+    stroke: 'stroke', strokeWidth: 'stroke-width', strokeOpacity: 'stroke-opacity', strokeDasharray: 'stroke-dasharray',
+    strokeLinecap: 'stroke-linecap', strokeLinejoin: 'stroke-linejoin',
+    textAnchor: 'text-anchor', dominantBaseline: 'dominant-baseline', fontFamily: 'font-family', fontSize: 'font-size', fontWeight: 'font-weight'
+};
+
+const toAttributeName = (element: string, prop: string) => {
+    const name = SVG_ATTRIBUTES[prop];
+    if (!name) throw new Error(`No SVG attribute known for the ${prop} prop on <${element}>`);
+    return name;
+};
+
+// CSS property names do follow one rule (textShadow is text-shadow)
+const toStyleText = (style: React.CSSProperties) =>
+    Object.entries(style).map(([name, value]) => `${name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}: ${value}`).join('; ');
+
+export const visualToMarkup = (node: React.ReactNode): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (typeof node === 'string' || typeof node === 'number') return escapeHtml(String(node));
+    if (Array.isArray(node)) return node.map(visualToMarkup).join('');
+    if (!React.isValidElement<Record<string, unknown>>(node)) return '';
+    const { children, style, ...props } = node.props;
+    const content = visualToMarkup(children as React.ReactNode);
+    if (node.type === React.Fragment) return content;
+    if (typeof node.type !== 'string') throw new Error('Only SVG elements and fragments can be turned into markup');
+    const element = node.type;
+    const attributes = Object.entries(props)
+        .filter(([, value]) => value !== undefined && value !== null && value !== false)
+        .map(([prop, value]) => ` ${toAttributeName(element, prop)}="${escapeHtml(String(value))}"`);
+    if (style) attributes.push(` style="${escapeHtml(toStyleText(style as React.CSSProperties))}"`);
+    return `<${element}${attributes.join('')}>${content}</${element}>`;
 };
@@ -0,0 +1,123 @@
+import { ParadeState, Entity, EntityType } from '../types';
+import { PIXELS_PER_PACE, TERRAIN_COLORS, GRID_MAJOR_INTERVAL, ROUTE_MAP_MARGIN, isFurniture } from '../constants';
+import { renderEntityVisual, visualToMarkup } from './RenderUtils';
+import { RouteCard, formatBearing } from '../utils/routeCardUtils';
+import { formatScriptTime } from '../utils/scriptUtils';
+import { escapeHtml } from '../utils/htmlUtils';
+import { formatDistanceValue, getUnitLabel } from '../utils/unitUtils';
+
+const ROUTE_COLOR = '#dc2626';
+
+// Ground around one person's route: furniture and markers drawn as on the canvas, everyone
+// else as a faint dot at Time 0, and the route itself with its numbered step ends
+const routeCardMap = (parade: ParadeState, card: RouteCard): string => {
+    const { width, height } = parade.config;
+    const points = [card.start, ...card.path];
+    const minX = Math.max(0, Math.min(...points.map(p => p.x)) - ROUTE_MAP_MARGIN);
+    const minY = Math.max(0, Math.min(...points.map(p => p.y)) - ROUTE_MAP_MARGIN);
+    const maxX = Math.min(width, Math.max(...points.map(p => p.x)) + ROUTE_MAP_MARGIN);
+    const maxY = Math.min(height, Math.max(...points.map(p => p.y)) + ROUTE_MAP_MARGIN);
+    const px = (paces: number) => paces * PIXELS_PER_PACE;
+
+    const gridLines: string[] = [];
+    for (let x = Math.ceil(minX / GRID_MAJOR_INTERVAL) * GRID_MAJOR_INTERVAL; x <= maxX; x += GRID_MAJOR_INTERVAL) {
+        gridLines.push(`<line x1="${px(x)}" y1="${px(minY)}" x2="${px(x)}" y2="${px(maxY)}" stroke="rgba(255,255,255,0.25)" stroke-width="1"></line>`);
+    }
+    for (let y = Math.ceil(minY / GRID_MAJOR_INTERVAL) * GRID_MAJOR_INTERVAL; y <= maxY; y += GRID_MAJOR_INTERVAL) {
+        gridLines.push(`<line x1="${px(minX)}" y1="${px(y)}" x2="${px(maxX)}" y2="${px(y)}" stroke="rgba(255,255,255,0.25)" stroke-width="1"></line>`);
+    }
+
+    const isLandmark = (e: Entity) => isFurniture(e.type) || e.type === EntityType.MARKER;
+
+    const others = parade.entities.filter(e => e.id !== card.entity.id && !isLandmark(e)).map(e =>
+        `<circle cx="${px(e.x)}" cy="${px(e.y)}" r="${PIXELS_PER_PACE * 0.3}" fill="rgba(255,255,255,0.35)"></circle>`);
+    const landmarks = parade.entities.filter(isLandmark).map(e => `
+        <g transform="translate(${px(e.x)}, ${px(e.y)})">
+            <g transform="rotate(${e.rotation})">${visualToMarkup(renderEntityVisual(e.type, e.label))}</g>
+            ${e.type === EntityType.MARKER && e.label
+                ? `<text y="${-PIXELS_PER_PACE * 0.9}" text-anchor="middle" fill="white" font-size="10" font-weight="bold">${escapeHtml(e.label)}</text>`
+                : ''}
+        </g>`);
+    const route = card.path.length > 1
+        ? `<polyline points="${points.map(p => `${px(p.x)},${px(p.y)}`).join(' ')}" fill="none" stroke="${ROUTE_COLOR}" stroke-width="4" stroke-linejoin="round" stroke-linecap="round"></polyline>`
+        : '';
+    const stepEnds = card.steps.map(step => `
+        <g transform="translate(${px(step.end.x)}, ${px(step.end.y)})">
+            <circle r="8" fill="white" stroke="${ROUTE_COLOR}" stroke-width="2"></circle>
+            <text y="3.5" text-anchor="middle" font-size="10" font-weight="bold" fill="${ROUTE_COLOR}">${step.number}</text>
+        </g>`);
+
+    return `<svg viewBox="${px(minX)} ${px(minY)} ${px(maxX - minX)} ${px(maxY - minY)}" width="100%" style="max-height: 110mm; display: block">
+        <rect x="0" y="0" width="${px(width)}" height="${px(height)}" fill="${TERRAIN_COLORS[parade.config.terrain]}"></rect>
+        ${gridLines.join('')}
+        ${others.join('')}
+        ${landmarks.join('')}
+        ${route}
+        ${stepEnds.join('')}
+        <g transform="translate(${px(card.start.x)}, ${px(card.start.y)})">
+            <g transform="rotate(${card.start.rotation})">${visualToMarkup(renderEntityVisual(card.entity.type, card.entity.label))}</g>
+        </g>
+    </svg>`;
+};
+
+const routeCardPage = (parade: ParadeState, card: RouteCard): string => {
+    const name = card.entity.label || card.entity.type.replace(/_/g, ' ');
+    const steps = card.steps.length === 0 ? '<p>No movements: stand fast throughout.</p>' : `
+        <table>
+            <thead>
+                <tr><th>#</th><th>Time</th><th>Command</th><th>${getUnitLabel(parade.config)}</th><th>Direction</th><th>Finish</th></tr>
+            </thead>
+            <tbody>
+                ${card.steps.map(step => `<tr>
+                    <td>${step.number}</td>
+                    <td class="time">${formatScriptTime(step.startTime)}</td>
+                    <td>${escapeHtml(step.command)}</td>
+                    <td>${step.distance >= 0.05 ? formatDistanceValue(step.distance, parade.config) : '-'}</td>
+                    <td>${step.bearing === null ? 'On the spot' : formatBearing(step.bearing)}</td>
+                    <td>${escapeHtml(step.endReference)}, facing ${formatBearing(step.end.rotation)}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>`;
+    return `<section class="card">
+        <header>
+            <h1>${escapeHtml(name)}</h1>
+            <div class="meta">${escapeHtml([card.unit, parade.config.title].filter(Boolean).join(' · '))}</div>
+        </header>
+        ${routeCardMap(parade, card)}
+        <p class="start">
+            <b>Fall in:</b> ${escapeHtml(card.startReference)}, facing ${formatBearing(card.start.rotation)}
+        </p>
+        ${steps}
+    </section>`;
+};
+
+const PRINT_STYLES = `
+    body { font-family: system-ui, sans-serif; font-size: 11px; color: #111; margin: 0; }
+    .card { padding: 16px 24px; break-after: page; }
+    .card:last-child { break-after: auto; }
+    header { display: flex; align-items: baseline; justify-content: space-between; border-bottom: 2px solid #111; margin-bottom: 8px; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    .meta { color: #555; }
+    .start { margin: 8px 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+    th { font-size: 10px; text-transform: uppercase; color: #555; }
+    td.time { font-family: monospace; white-space: nowrap; }
+    tr { break-inside: avoid; }
+    @page { margin: 10mm; }
+`;
+
+// One printed page per card
+export const routeCardsToHtml = (parade: ParadeState, cards: RouteCard[]): string => `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(parade.config.title)} - Route Cards</title>
+    <style>${PRINT_STYLES}</style>
+</head>
+<body>
+    ${cards.length > 0
+        ? cards.map(card => routeCardPage(parade, card)).join('\n')
+        : '<p style="padding: 24px">Nobody on this parade moves.</p>'}
+</body>
+</html>`;
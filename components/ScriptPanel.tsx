@@ -0,0 +1,64 @@
+import React, { useRef } from 'react';
+import { FileText, X, OctagonAlert, CircleCheck } from 'lucide-react';
+import { ScriptError } from '../types';
+
+interface ScriptPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    text: string;
+    onChange: (text: string) => void;
+    errors: ScriptError[];
+}
+
+export const ScriptPanel: React.FC<ScriptPanelProps> = ({ isOpen, onClose, text, onChange, errors }) => {
+    const gutterRef = useRef<HTMLDivElement>(null);
+
+    if (!isOpen) return null;
+
+    const lineCount = text.split('\n').length;
+    const errorLines = new Set(errors.map(e => e.line));
+
+    return (
+        <div className="absolute top-4 left-4 bottom-4 z-30 w-[28rem] flex flex-col bg-gray-900/95 backdrop-blur-sm rounded-lg shadow-2xl border border-gray-700">
+            <div className="flex items-center justify-between p-3 border-b border-gray-800 shrink-0">
+                <h2 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+                    <FileText className="w-4 h-4 text-blue-400" /> Drill Script
+                </h2>
+                <button onClick={onClose} className="p-1 hover:bg-gray-800 rounded text-gray-400 hover:text-white">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 flex min-h-0 font-mono text-xs leading-5">
+                {/* Line numbers, flagged where the line didn't parse */}
+                <div ref={gutterRef} className="shrink-0 overflow-hidden py-2 bg-gray-950/60 text-right select-none">
+                    {Array.from({ length: lineCount }, (_, i) => (
+                        <div key={i} className={`px-2 ${errorLines.has(i + 1) ? 'bg-red-900/60 text-red-300' : 'text-gray-600'}`}>{i + 1}</div>
+                    ))}
+                </div>
+                <textarea
+                    value={text}
+                    onChange={(e) => onChange(e.target.value)}
+                    onScroll={(e) => { if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop; }}
+                    spellCheck={false}
+                    wrap="off"
+                    placeholder="00:12 Contingent 1: quick march 20 paces; left wheel; halt"
+                    className="flex-1 resize-none bg-transparent text-gray-200 p-2 outline-none whitespace-pre overflow-auto"
+                />
+            </div>
+
+            <div className="max-h-32 overflow-y-auto border-t border-gray-800 p-2 space-y-1 shrink-0">
+                {errors.length === 0 ? (
+                    <div className="flex items-center gap-2 text-xs text-green-400">
+                        <CircleCheck className="w-3 h-3" /> In sync with the timeline
+                    </div>
+                ) : errors.map((error, i) => (
+                    <div key={i} className="flex items-start gap-2 text-xs text-red-300">
+                        <OctagonAlert className="w-3 h-3 shrink-0 mt-0.5" />
+                        <span><span className="font-mono text-red-400">Line {error.line}:</span> {error.message}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
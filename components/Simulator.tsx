@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { ParadeState, Entity, EntityType, GroupMetadata, AnimationAction, AnimationTrack } from '../types';
+import { ParadeState, Entity, EntityType, GroupMetadata, AnimationAction, AnimationTrack, ActionType, ActionLane, MarchTempo, PaceLength, DistanceUnit, CollisionConflict, LintIssue, ScriptError, CommandCue, MusicTrack, ProgrammeEvent, ProgrammeEventKind, ProgrammeMode } from '../types';
 import { saveParade } from '../services/storageService';
 import { SpritePanel } from './SpritePanel';
 import { PropertiesPanel } from './PropertiesPanel';
@@ -9,9 +9,23 @@ import { NotchBar } from './NotchBar';
 import { TimelinePanel } from './TimelinePanel';
 import { ExportModal } from './ExportModal';
 import { ColoursConfigModal } from './ColoursConfigModal';
-import { DEFAULT_ZOOM, MAX_ZOOM, MIN_ZOOM, PIXELS_PER_PACE } from '../constants';
-import { getParadeStateAtTime } from '../utils/animationUtils';
-import { Download, Clock, CircleHelp } from 'lucide-react';
+import { LintPanel } from './LintPanel';
+import { ScriptPanel } from './ScriptPanel';
+import { DEFAULT_ZOOM, MAX_ZOOM, MIN_ZOOM, PIXELS_PER_PACE, ORDER_STEP_PACES, DEFAULT_MUSIC_BPM } from '../constants';
+import { getParadeStateAtTime, getActionStartPose, getClipStartPoses, resolveActionTargets, isRankDrillAction, getActionLane } from '../utils/animationUtils';
+import { retimeTrack, retimeAllTracks } from '../utils/cadenceUtils';
+import { createPlaybackEvaluator, PlaybackEvaluator, EvaluatedFrame } from '../services/playbackService';
+import { createCollisionAnalyser, CollisionAnalyser } from '../services/collisionService';
+import { getConflictZones, getOwnerLabel } from '../utils/collisionUtils';
+import { lintParade } from '../utils/validationUtils';
+import { DRILL_COMMANDS, buildCommandActions } from '../utils/drillCommands';
+import { serializeScript, parseScript, formatScriptTime } from '../utils/scriptUtils';
+import { createCue, getCommandGivers, getCueWordAt, getCueWordsBetween } from '../utils/cueUtils';
+import { speakWordOfCommand, cancelSpeech } from '../services/speechService';
+import { saveAudio, loadAudio, deleteAudio, decodeAudio } from '../services/audioService';
+import { createProgrammeEvent, updateProgrammeEvent, fitDuration } from '../utils/programmeUtils';
+import { buildMarkingPlan } from '../utils/markingUtils';
+import { Download, Clock, CircleHelp, ListChecks, FileText } from 'lucide-react';
 
 interface SimulatorProps {
   initialState: ParadeState;
@@ -44,10 +58,32 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
   const [currentTime, setCurrentTime] = useState(0);
   const [selectedActionId, setSelectedActionId] = useState<string | null>(null);
   const [showPaths, setShowPaths] = useState(true); 
+  const [showMarking, setShowMarking] = useState(false);
+  const [selectedCueId, setSelectedCueId] = useState<string | null>(null);
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  const [isCueVoiceOn, setCueVoiceOn] = useState(true);
+  const lastCueTimeRef = useRef(0); // Playhead position words of command were last called up to
+  const [retimeNotice, setRetimeNotice] = useState<string | null>(null); // Clips the last retime pushed back
+
+  // Band recording, played alongside the timeline
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const recordingRef = useRef<Blob | null>(null); // The file behind audioRef, to store again if undo brings it back
+  const recordingStoredRef = useRef(false); // recordingRef is in IndexedDB under this parade's id
+  const [musicPeaks, setMusicPeaks] = useState<number[] | null>(null);
   
   // Export Modal State
   const [isExportModalOpen, setExportModalOpen] = useState(false);
 
+  // Lint Report State
+  const [isLintOpen, setLintOpen] = useState(false);
+
+  // Drill Script State
+  const [isScriptOpen, setScriptOpen] = useState(false);
+  const [scriptText, setScriptText] = useState('');
+  const [scriptErrors, setScriptErrors] = useState<ScriptError[]>([]);
+  const scriptTracksRef = useRef<Record<string, AnimationTrack> | null>(null); // Tracks the script text currently describes
+  const scriptEditedRef = useRef(false); // Text has been typed since it was last parsed
+
   // Colours Party Modal State
   const [isColoursModalOpen, setColoursModalOpen] = useState(false);
   const [pendingDropLocation, setPendingDropLocation] = useState<{x: number, y: number} | null>(null);
@@ -57,17 +93,69 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
 
   const currentState = history[historyIndex];
 
+  // Playback frames are evaluated off the UI thread; this component only renders them
+  const evaluatorRef = useRef<PlaybackEvaluator | null>(null);
+  const [evaluatedFrame, setEvaluatedFrame] = useState<EvaluatedFrame | null>(null);
+
+  useEffect(() => {
+      const evaluator = createPlaybackEvaluator(setEvaluatedFrame);
+      evaluatorRef.current = evaluator;
+      return () => evaluator.dispose();
+  }, []);
+
+  useEffect(() => {
+      evaluatorRef.current?.sync(currentState);
+  }, [currentState]);
+
+  useEffect(() => {
+      if (currentTime > 0) evaluatorRef.current?.requestFrame(currentTime);
+  }, [currentState, currentTime]);
+
+  // Collision analysis runs in its own worker once edits settle
+  const analyserRef = useRef<CollisionAnalyser | null>(null);
+  const [conflicts, setConflicts] = useState<CollisionConflict[]>([]);
+
+  useEffect(() => {
+      const analyser = createCollisionAnalyser(setConflicts);
+      analyserRef.current = analyser;
+      return () => analyser.dispose();
+  }, []);
+
+  useEffect(() => {
+      const timer = window.setTimeout(() => analyserRef.current?.analyse(currentState), 400);
+      return () => window.clearTimeout(timer);
+  }, [currentState]);
+
   // Calculated State for Playback
   const displayState = useMemo(() => {
-      // Always calculate interpolated state if time > 0 OR if we are just previewing a specific timestamp while paused
+      // Show the interpolated state if time > 0 OR if we are just previewing a specific timestamp while paused
       if (currentTime > 0) {
-          return {
-              ...currentState,
-              ...getParadeStateAtTime(currentState, currentTime)
-          };
+          // The latest frame stands in until the one for this time arrives, unless it was
+          // evaluated for entities that have since been edited
+          const entities = evaluatedFrame && evaluatedFrame.source === currentState.entities
+              ? evaluatedFrame.entities
+              : getParadeStateAtTime(currentState, currentTime).entities;
+          return { ...currentState, entities };
       }
       return currentState;
-  }, [currentState, currentTime]);
+  }, [currentState, currentTime, evaluatedFrame]);
+
+  // Paths are drawn from the layout, so they stay put while the frame shown moves on
+  const clipStartPoses = useMemo(
+      () => getClipStartPoses(currentState),
+      [currentState.animation.tracks, currentState.entities, currentState.groups]
+  );
+
+  // Marks come from the layout, not the displayed moment, so they stay put during playback
+  const markingPoints = useMemo(
+      () => showMarking ? buildMarkingPlan(currentState) : undefined,
+      [showMarking, currentState]
+  );
+
+  const conflictZones = useMemo(
+      () => getConflictZones(displayState.entities, conflicts, currentTime),
+      [displayState.entities, conflicts, currentTime]
+  );
 
   // --- Animation Loop ---
   useEffect(() => {
@@ -78,7 +166,9 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
               lastFrameTimeRef.current = timestamp;
               
               setCurrentTime(prev => {
-                  const next = prev + delta;
+                  // While the band is playing the recording is the clock, so the two never drift apart
+                  const audio = audioRef.current;
+                  const next = audio && !audio.paused && !audio.ended ? audio.currentTime : prev + delta;
                   if (next >= currentState.animation.duration) {
                       setIsPlaying(false);
                       return currentState.animation.duration;
@@ -98,6 +188,135 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
       };
   }, [isPlaying, currentState.animation.duration]);
 
+  // --- Music ---
+  const attachAudio = async (recording: Blob) => {
+      detachAudio();
+      const audio = new Audio(URL.createObjectURL(recording));
+      audio.preload = 'auto';
+      audioRef.current = audio;
+      recordingRef.current = recording;
+      const decoded = await decodeAudio(recording);
+      if (audioRef.current === audio) setMusicPeaks(decoded.peaks);
+      return decoded;
+  };
+
+  const detachAudio = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      audioRef.current = null;
+      recordingRef.current = null;
+      setMusicPeaks(null);
+  };
+
+  // Recordings are kept apart from the save, so fetch this parade's on opening it
+  useEffect(() => {
+      if (currentState.animation.music) {
+          loadAudio(currentState.config.id)
+              .then(recording => {
+                  if (!recording) return;
+                  recordingStoredRef.current = true;
+                  return attachAudio(recording);
+              })
+              .catch(e => console.error("Failed to decode audio", e));
+      }
+      return detachAudio;
+  }, [initialState.config.id]);
+
+  // Start and stop the band with the timeline; undoing past the load leaves it silent
+  useEffect(() => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (isPlaying && currentState.animation.music && currentTime < audio.duration) {
+          audio.currentTime = currentTime;
+          audio.play().catch(e => console.error("Failed to play audio", e));
+      } else {
+          audio.pause();
+      }
+  }, [isPlaying, !!currentState.animation.music]);
+
+  // Only a parade with a music track keeps its recording stored: removing the track (or undoing
+  // past the load) frees it, and redoing stores the attached recording again
+  useEffect(() => {
+      const recording = recordingRef.current;
+      const hasMusic = !!currentState.animation.music;
+      if (!recording || hasMusic === recordingStoredRef.current) return;
+      recordingStoredRef.current = hasMusic;
+      (hasMusic ? saveAudio(currentState.config.id, recording) : deleteAudio(currentState.config.id))
+          .catch(e => console.error("Failed to update stored audio", e));
+  }, [!!currentState.animation.music]);
+
+  const handleSeek = (time: number) => {
+      setCurrentTime(time);
+      // Words jumped over aren't called; one given exactly where the playhead lands is
+      lastCueTimeRef.current = time - 1e-3;
+      const audio = audioRef.current;
+      if (!audio || !currentState.animation.music) return;
+      audio.currentTime = Math.min(time, audio.duration || time);
+      // Seeking back into the recording after it ran out picks the band up again
+      if (isPlaying && audio.paused && time < audio.duration) audio.play().catch(e => console.error("Failed to play audio", e));
+  };
+
+  const handleLoadMusic = async (file: File) => {
+      try {
+          await saveAudio(currentState.config.id, file);
+          recordingStoredRef.current = true;
+          const { duration } = await attachAudio(file);
+          const previous = currentState.animation.music;
+          const music: MusicTrack = {
+              fileName: file.name,
+              duration,
+              bpm: previous?.bpm ?? DEFAULT_MUSIC_BPM,
+              offset: previous?.offset ?? 0,
+              beatsPerBar: previous?.beatsPerBar ?? 4
+          };
+          handleStateChange({
+              animation: { ...currentState.animation, music, duration: Math.max(currentState.animation.duration, Math.ceil(duration)) }
+          });
+      } catch (e) {
+          console.error("Failed to load music", e);
+          // Nothing to play it for, so don't leave a file that wouldn't decode in storage
+          if (!currentState.animation.music && recordingStoredRef.current) {
+              recordingStoredRef.current = false;
+              deleteAudio(currentState.config.id).catch(err => console.error("Failed to delete audio", err));
+          }
+          alert(`Could not load ${file.name}. Is it an audio file?`);
+      }
+  };
+
+  const handleUpdateMusic = (updates: Partial<MusicTrack>) => {
+      const music = currentState.animation.music;
+      if (!music) return;
+      handleStateChange({ animation: { ...currentState.animation, music: { ...music, ...updates } } });
+  };
+
+  // The recording stays attached so undo brings the band back, but leaves storage with the
+  // track (see above); without a music track it is neither drawn nor played
+  const handleRemoveMusic = () => {
+      handleStateChange({ animation: { ...currentState.animation, music: undefined } });
+  };
+
+  // --- Words of Command ---
+  useEffect(() => {
+      // Starting playback calls a word given exactly on the playhead; stopping cuts the voice off
+      if (isPlaying) lastCueTimeRef.current = currentTime - 1e-3;
+      else cancelSpeech();
+  }, [isPlaying]);
+
+  useEffect(() => {
+      if (isPlaying && isCueVoiceOn) {
+          getCueWordsBetween(currentState.animation.cues || [], lastCueTimeRef.current, currentTime)
+              .forEach(word => speakWordOfCommand(word.text, word.phase));
+      }
+      lastCueTimeRef.current = currentTime;
+  }, [currentTime, isPlaying]);
+
+  const cueWord = useMemo(
+      () => (isPlaying || currentTime > 0) ? getCueWordAt(currentState.animation.cues || [], currentTime) : null,
+      [currentState.animation.cues, currentTime, isPlaying]
+  );
+
 
   const getCanvasDimensions = useCallback(() => {
       const sidebarWidth = isSpritePanelOpen ? 256 : 0; 
@@ -146,7 +365,7 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
       pushState({
           ...currentState,
           ...updates,
-          config: { ...currentState.config, lastModified: Date.now() }
+          config: { ...currentState.config, ...updates.config, lastModified: Date.now() }
       });
   };
 
@@ -211,15 +430,12 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
 
   // --- Animation Handlers ---
 
-  const handleAddAction = (ownerId: string, type: 'MOVE' | 'TURN' | 'WHEEL') => {
-      const track: AnimationTrack = currentState.animation.tracks[ownerId] || { ownerId, actions: [] };
-      
-      // Calculate valid start time (prevent overlap)
-      const duration = 2;
+  // Earliest start at or after the playhead where a clip fits on its lane. If the playhead
+  // overlaps a clip, assume we want to append after the overlapping action.
+  const findFreeStart = (track: AnimationTrack, lane: ActionLane, duration: number) => {
       let startTime = currentTime;
-      const sortedActions = [...track.actions].sort((a, b) => a.startTime - b.startTime);
+      const sortedActions = [...track.actions].filter(a => getActionLane(a.type) === lane).sort((a, b) => a.startTime - b.startTime);
       
-      // Find a slot. If current time overlaps, assume we want to append after the overlapping action.
       let finding = true;
       while (finding) {
           const overlap = sortedActions.find(a => {
@@ -236,6 +452,16 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
               finding = false;
           }
       }
+      return startTime;
+  };
+
+  const handleAddAction = (ownerId: string, type: ActionType) => {
+      const track: AnimationTrack = currentState.animation.tracks[ownerId] || { ownerId, actions: [] };
+      
+      // Calculate valid start time (prevent overlap with clips on the same lane)
+      // Postures are held rather than marched, so they start with a longer hand-set hold
+      const duration = type === 'POSTURE' ? 5 : 2;
+      const startTime = findFreeStart(track, getActionLane(type), duration);
 
       // Calculate state at START TIME to ensure continuity and prevent displacement
       const stateAtStart = getParadeStateAtTime(currentState, startTime);
@@ -273,6 +499,7 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
           type,
           startTime,
           duration,
+          marchMode: type === 'POSTURE' ? 'MANUAL' : 'QUICK',
           payload: {}
       };
 
@@ -289,6 +516,24 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
           newAction.payload.wheelAngle = 90;
           // Default to Center pivot to avoid wild swinging if TL is far from center
           newAction.payload.pivotCorner = 'CENTER'; 
+          // Contingents wheel on their pivot man by default
+          if (currentState.groups[ownerId]?.type === 'CONTINGENT') newAction.payload.wheelMode = 'DRILL';
+      } else if (type === 'FORMATION_CHANGE') {
+          // Default to swapping ranks and files (line <-> column) on the same bearing, taking the
+          // shape any earlier formation change has left the contingent in
+          const groupConfig = stateAtStart.groups[ownerId]?.config;
+          const rows = groupConfig?.rows ?? 3;
+          const cols = groupConfig?.cols ?? 3;
+          newAction.payload.targetRows = cols;
+          newAction.payload.targetCols = rows;
+          newAction.payload.targetBearing = currentRot;
+      } else if (type === 'OPEN_ORDER' || type === 'CLOSE_ORDER') {
+          newAction.payload.orderPaces = ORDER_STEP_PACES;
+      } else if (type === 'POSTURE') {
+          const ownerType = currentState.entities.find(e => e.id === ownerId)?.type;
+          newAction.payload.posture = currentState.groups[ownerId] || ownerType === EntityType.TROOPER
+              ? 'PRESENT_ARMS'
+              : ownerType === EntityType.COLOURS ? 'COLOURS_LOWERED' : 'SALUTE';
       }
 
       const newTracks = {
@@ -299,12 +544,32 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
           }
       };
 
-      handleStateChange({ 
-          animation: { ...currentState.animation, tracks: newTracks }
-      });
+      // Replace the placeholder duration with the one implied by the march tempo
+      commitRetime(newTracks, ownerId, startTime);
       setSelectedActionId(newAction.id);
   };
 
+  // Words of command expand into their drilled clips, appended on the motion lane
+  const handleAddCommand = (ownerId: string, commandId: string, count: number) => {
+      const command = DRILL_COMMANDS.find(c => c.id === commandId);
+      if (!command) return;
+      const track: AnimationTrack = currentState.animation.tracks[ownerId] || { ownerId, actions: [] };
+
+      const context = { config: currentState.config, isContingent: currentState.groups[ownerId]?.type === 'CONTINGENT', count };
+      const steps = command.build(context);
+      const startTime = findFreeStart(track, 'MOTION', steps.reduce((sum, step) => sum + step.duration, 0));
+      const newActions = buildCommandActions(command, context, startTime);
+
+      const newTracks = {
+          ...currentState.animation.tracks,
+          [ownerId]: { ...track, actions: [...track.actions, ...newActions] }
+      };
+
+      // Settle the marched clips onto the cadence, pushing anything after them back
+      commitRetime(newTracks, ownerId, startTime);
+      setSelectedActionId(newActions[newActions.length - 1]?.id ?? null);
+  };
+
   const handleDeleteAction = (ownerId: string, actionId: string) => {
       const track: AnimationTrack | undefined = currentState.animation.tracks[ownerId];
       if (!track) return;
@@ -336,7 +601,23 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
       if (ownerId) handleDeleteAction(ownerId, selectedActionId);
   };
 
-  const handleUpdateAction = (actionId: string, updates: Partial<AnimationAction>) => {
+  // Retime a track from `fromTime` on and apply it, noting any clips that had to make room
+  const commitRetime = (tracks: Record<string, AnimationTrack>, ownerId: string, fromTime: number) => {
+      const { parade, pushed } = retimeTrack({ ...currentState, animation: { ...currentState.animation, tracks } }, ownerId, fromTime);
+      if (parade.animation.tracks === currentState.animation.tracks) return; // Nothing to change
+      if (pushed.length > 0) {
+          const actions = parade.animation.tracks[ownerId].actions;
+          const names = pushed.map(id => {
+              const action = actions.find(a => a.id === id)!;
+              return `${action.label || action.type} to ${formatScriptTime(action.startTime)}`;
+          });
+          setRetimeNotice(`${getOwnerLabel(currentState, ownerId)}: pushed back ${names.join(', ')}`);
+      }
+      handleStateChange({ animation: parade.animation });
+  };
+
+  // Timeline and canvas drags update the clip on every mouse move (retime off) but only retime once it's dropped
+  const handleUpdateAction = (actionId: string, updates: Partial<AnimationAction>, retime: boolean = true) => {
       // Find track
       let ownerId = '';
       let actionIndex = -1;
@@ -357,7 +638,7 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
       if (updates.startTime !== undefined || updates.duration !== undefined) {
           const proposed = { ...track.actions[actionIndex], ...updates };
           const hasOverlap = track.actions.some(a => {
-              if (a.id === actionId) return false;
+              if (a.id === actionId || getActionLane(a.type) !== getActionLane(proposed.type)) return false;
               const sA = proposed.startTime;
               const eA = proposed.startTime + proposed.duration;
               const sB = a.startTime;
@@ -385,9 +666,41 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
           [ownerId]: { ...track, actions: newActions }
       };
 
-      handleStateChange({ 
-          animation: { ...currentState.animation, tracks: newTracks }
-      });
+      if (!retime) {
+          handleStateChange({ animation: { ...currentState.animation, tracks: newTracks } });
+          return;
+      }
+      // Targets, waypoints and march modes all feed the cadence-driven durations
+      commitRetime(newTracks, ownerId, Math.min(track.actions[actionIndex].startTime, newActions[actionIndex].startTime));
+  };
+
+  // A dragged clip is retimed from wherever it was picked up or dropped, whichever is earlier
+  const handleCommitActionDrag = (ownerId: string, actionId: string, initialStartTime: number) => {
+      const action = currentState.animation.tracks[ownerId]?.actions.find(a => a.id === actionId);
+      if (action) commitRetime(currentState.animation.tracks, ownerId, Math.min(initialStartTime, action.startTime));
+  };
+
+  // Canvas drags reshape a clip's path without moving it, so its track is retimed from the clip's start
+  const handleCommitPathDrag = (actionId: string) => {
+      const ownerId = Object.keys(currentState.animation.tracks)
+          .find(oid => currentState.animation.tracks[oid].actions.some(a => a.id === actionId));
+      const action = ownerId ? currentState.animation.tracks[ownerId].actions.find(a => a.id === actionId) : undefined;
+      if (ownerId && action) handleCommitActionDrag(ownerId, actionId, action.startTime);
+  };
+
+  const handleUpdateTempo = (tempo: MarchTempo) => {
+      const retimed = retimeAllTracks({ ...currentState, config: { ...currentState.config, tempo } });
+      handleStateChange({ config: retimed.config, animation: retimed.animation });
+  };
+
+  // Positions stay in quick-time paces, so only slow-time clips change length
+  const handleUpdatePaceLength = (paceLength: PaceLength) => {
+      const retimed = retimeAllTracks({ ...currentState, config: { ...currentState.config, paceLength } });
+      handleStateChange({ config: retimed.config, animation: retimed.animation });
+  };
+
+  const handleUnitsChange = (units: DistanceUnit) => {
+      handleStateChange({ config: { ...currentState.config, units } });
   };
   
   const handleTrackReorder = (newOrder: string[]) => {
@@ -398,6 +711,10 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
 
   const handleSelectAction = (action: AnimationAction | null) => {
       setSelectedActionId(action ? action.id : null);
+      if (action) {
+          setSelectedCueId(null);
+          setSelectedEventId(null);
+      }
       
       if (action) {
           // Find the owner ID of this action to select the sprite
@@ -410,6 +727,131 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
       }
   };
 
+  const handleAddCue = (time: number) => {
+      const cue = createCue(time, currentState.entities);
+      handleStateChange({
+          animation: { ...currentState.animation, cues: [...(currentState.animation.cues || []), cue] }
+      });
+      handleSelectCue(cue);
+  };
+
+  const handleUpdateCue = (cueId: string, updates: Partial<CommandCue>) => {
+      handleStateChange({
+          animation: {
+              ...currentState.animation,
+              cues: (currentState.animation.cues || []).map(c => c.id === cueId ? { ...c, ...updates } : c)
+          }
+      });
+  };
+
+  const handleDeleteCue = (cueId: string) => {
+      handleStateChange({
+          animation: { ...currentState.animation, cues: (currentState.animation.cues || []).filter(c => c.id !== cueId) }
+      });
+      if (selectedCueId === cueId) setSelectedCueId(null);
+  };
+
+  const handleSelectCue = (cue: CommandCue | null) => {
+      setSelectedCueId(cue ? cue.id : null);
+      if (cue) {
+          setSelectedActionId(null);
+          setSelectedEventId(null);
+      }
+  };
+
+  // --- Programme ---
+  const handleAddEvent = (kind: ProgrammeEventKind, time: number) => {
+      const event = createProgrammeEvent(kind, time);
+      handleStateChange({
+          animation: fitDuration({ ...currentState.animation, programme: [...(currentState.animation.programme || []), event] })
+      });
+      handleSelectEvent(event);
+  };
+
+  const handleUpdateEvent = (eventId: string, updates: Partial<ProgrammeEvent>) => {
+      handleStateChange({ animation: updateProgrammeEvent(currentState.animation, eventId, updates) });
+  };
+
+  const handleDeleteEvent = (eventId: string) => {
+      handleStateChange({
+          animation: { ...currentState.animation, programme: (currentState.animation.programme || []).filter(e => e.id !== eventId) }
+      });
+      if (selectedEventId === eventId) setSelectedEventId(null);
+  };
+
+  const handleSelectEvent = (event: ProgrammeEvent | null) => {
+      setSelectedEventId(event ? event.id : null);
+      if (event) {
+          setSelectedActionId(null);
+          setSelectedCueId(null);
+      }
+  };
+
+  const handleProgrammeModeChange = (programmeMode: ProgrammeMode) => {
+      handleStateChange({ animation: { ...currentState.animation, programmeMode } });
+  };
+
+  // Lint is re-run on every edit while the report is open, so fixed issues drop off the list
+  const lintIssues = useMemo(() => isLintOpen ? lintParade(currentState) : [], [isLintOpen, currentState]);
+
+  const handlePickLintIssue = (issue: LintIssue) => {
+      const action = issue.actionId
+          ? (Object.values(currentState.animation.tracks) as AnimationTrack[]).flatMap(t => t.actions).find(a => a.id === issue.actionId)
+          : undefined;
+      if (action) {
+          handleSelectAction(action);
+          return;
+      }
+      setSelectedActionId(null);
+      setSelectedIds(issue.entityIds);
+  };
+
+  // The script is rewritten whenever the tracks change other than from the script itself
+  useEffect(() => {
+      if (!isScriptOpen || currentState.animation.tracks === scriptTracksRef.current) return;
+      scriptTracksRef.current = currentState.animation.tracks;
+      scriptEditedRef.current = false;
+      setScriptText(serializeScript(currentState));
+      setScriptErrors([]);
+  }, [isScriptOpen, currentState]);
+
+  useEffect(() => {
+      if (!retimeNotice) return;
+      const timer = window.setTimeout(() => setRetimeNotice(null), 5000);
+      return () => window.clearTimeout(timer);
+  }, [retimeNotice]);
+
+  // Typed scripts are applied to the timeline once typing pauses, unless a line fails to parse.
+  // The debounce calls through a ref so it applies against the state of the latest render, not
+  // the one the timer was set in.
+  const applyScriptRef = useRef<(text: string) => void>(() => {});
+  applyScriptRef.current = (text: string) => {
+      const { tracks, errors } = parseScript(currentState, text);
+      setScriptErrors(errors);
+      if (!tracks) return;
+
+      const current = currentState.animation.tracks;
+      const unchanged = Object.keys(tracks).length === Object.keys(current).length
+          && Object.keys(tracks).every(id => tracks[id] === current[id]);
+      if (unchanged) return;
+      scriptTracksRef.current = tracks;
+      handleStateChange({ animation: { ...currentState.animation, tracks } });
+  };
+
+  useEffect(() => {
+      if (!scriptEditedRef.current) return;
+      const timer = window.setTimeout(() => {
+          scriptEditedRef.current = false;
+          applyScriptRef.current(scriptText);
+      }, 300);
+      return () => window.clearTimeout(timer);
+  }, [scriptText]);
+
+  const handleScriptChange = (text: string) => {
+      scriptEditedRef.current = true;
+      setScriptText(text);
+  };
+
   // --- Group Logic ---
   const handleGroup = () => {
       if (selectedIds.length < 2) return;
@@ -447,14 +889,31 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
               
               // Bake animations if group had any
               if (groupTrack && groupTrack.actions.length > 0) {
-                   if (!newTracks[ent.id]) {
-                       newTracks[ent.id] = { ownerId: ent.id, actions: [] };
-                   }
+                   // Copy the member's track rather than pushing into it, so cached evaluations see the change
+                   const memberTrack = newTracks[ent.id];
+                   newTracks[ent.id] = memberTrack ? { ...memberTrack, actions: [...memberTrack.actions] } : { ownerId: ent.id, actions: [] };
                    
                    groupTrack.actions.forEach(action => {
+                        // Postures carry straight over to the member
+                        if (action.type === 'POSTURE') {
+                            newTracks[ent.id].actions.push({ ...action, id: crypto.randomUUID(), payload: { ...action.payload } });
+                            return;
+                        }
+
                         const endTime = action.startTime + action.duration;
                         const stateAtEnd = getParadeStateAtTime(currentState, endTime);
                         const memberEndState = stateAtEnd.entities.find(e => e.id === ent.id);
+
+                        // Waypoints mark where the group's anchor passes; the member keeps his offset from it
+                        const groupStart = getActionStartPose(currentState, groupTrack.ownerId, action);
+                        const memberStart = getParadeStateAtTime(currentState, action.startTime).entities.find(e => e.id === ent.id);
+                        const waypoints = groupStart && memberStart
+                            ? resolveActionTargets(action.payload, groupStart).waypoints?.map(w => ({
+                                ...w,
+                                x: w.x + memberStart.x - groupStart.x,
+                                y: w.y + memberStart.y - groupStart.y
+                            }))
+                            : undefined;
                         
                         if (memberEndState) {
                              const moveAction: AnimationAction = {
@@ -462,17 +921,19 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
                                  type: 'MOVE',
                                  startTime: action.startTime,
                                  duration: action.duration,
+                                 label: action.label,
                                  payload: {
                                      targetX: memberEndState.x,
                                      targetY: memberEndState.y,
-                                     movePathMode: action.payload.movePathMode,
+                                     // Rank drill is marched as straight routes
+                                     movePathMode: isRankDrillAction(action.type) ? 'DIRECT' : action.payload.movePathMode,
                                      orthogonalOrder: action.payload.orthogonalOrder,
-                                     waypoint: action.payload.waypoint
+                                     waypoints
                                  }
                              };
                              newTracks[ent.id].actions.push(moveAction);
 
-                             if (action.type === 'TURN' || action.type === 'WHEEL') {
+                             if (action.type === 'TURN' || action.type === 'WHEEL' || isRankDrillAction(action.type)) {
                                  const turnAction: AnimationAction = {
                                      id: crypto.randomUUID(),
                                      type: 'TURN',
@@ -499,7 +960,8 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
           return ent;
       });
 
-      // 3. Clean up empty groups
+      // 3. Clean up empty groups; the rest note who left, so later clips on the group track can
+      // be checked for the men they no longer move
       const newGroups = { ...currentState.groups };
       groupsToCheckForEmpty.forEach(gid => {
           const membersLeft = newEntities.filter(e => e.groupId === gid);
@@ -509,7 +971,13 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
                   delete newTracks[gid];
                   tracksModified = true;
               }
+              return;
           }
+          const actions = currentState.animation.tracks[gid]?.actions || [];
+          if (actions.length === 0) return;
+          const leftAt = Math.max(...actions.map(a => a.startTime + a.duration));
+          const leavers = selectedEntities.filter(e => e.groupId === gid).map(e => ({ entityId: e.id, leftAt }));
+          newGroups[gid] = { ...newGroups[gid], formerMembers: [...(newGroups[gid].formerMembers || []), ...leavers] };
       });
 
       pushState({
@@ -832,6 +1300,10 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
             if (isInput) return;
             if (selectedActionId) {
                  handleDeleteSelectedAction();
+            } else if (selectedCueId) {
+                 handleDeleteCue(selectedCueId);
+            } else if (selectedEventId) {
+                 handleDeleteEvent(selectedEventId);
             } else {
                 handleDelete();
             }
@@ -856,7 +1328,7 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
     };
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
-  }, [historyIndex, selectedIds, selectedActionId, tool, isPlaying, currentState]);
+  }, [historyIndex, selectedIds, selectedActionId, selectedCueId, selectedEventId, tool, isPlaying, currentState]);
 
   const selectedEntities = currentState.entities.filter(ent => selectedIds.includes(ent.id));
   const selectedAction = selectedActionId 
@@ -864,6 +1336,12 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
         .flatMap(t => t.actions)
         .find(a => a.id === selectedActionId) 
     : undefined;
+  const selectedActionOwnerId = selectedActionId
+    ? Object.keys(currentState.animation.tracks).find(oid =>
+        currentState.animation.tracks[oid].actions.some(a => a.id === selectedActionId))
+    : undefined;
+  const selectedCue = selectedCueId ? currentState.animation.cues?.find(c => c.id === selectedCueId) : undefined;
+  const selectedEvent = selectedEventId ? currentState.animation.programme?.find(e => e.id === selectedEventId) : undefined;
     
   const lastModified = new Date(currentState.config.lastModified).toLocaleString();
 
@@ -872,7 +1350,8 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
       <ExportModal 
         isOpen={isExportModalOpen}
         onClose={() => setExportModalOpen(false)}
-        parade={displayState}
+        parade={currentState}
+        currentTime={currentTime}
       />
       
       <ColoursConfigModal 
@@ -902,8 +1381,25 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
                     onClick={() => setExportModalOpen(true)}
                     className="flex items-center gap-2 px-3 py-1 text-xs bg-blue-900/50 text-blue-300 border border-blue-800 rounded hover:bg-blue-800 hover:text-white transition-colors"
                 >
-                    <Download className="w-3 h-3" /> Export Layout
+                    <Download className="w-3 h-3" /> Export
                 </button>
+                <button 
+                    onClick={() => setLintOpen(!isLintOpen)}
+                    className={`flex items-center gap-2 px-3 py-1 text-xs border rounded transition-colors ${isLintOpen ? 'bg-blue-600 text-white border-blue-500' : 'bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700 hover:text-white'}`}
+                >
+                    <ListChecks className="w-3 h-3" /> Lint Parade
+                </button>
+                <button 
+                    onClick={() => setScriptOpen(!isScriptOpen)}
+                    className={`flex items-center gap-2 px-3 py-1 text-xs border rounded transition-colors ${isScriptOpen ? 'bg-blue-600 text-white border-blue-500' : 'bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700 hover:text-white'}`}
+                >
+                    <FileText className="w-3 h-3" /> Script
+                </button>
+                {retimeNotice && (
+                    <span className="flex items-center gap-1 text-xs text-amber-300 truncate max-w-md" title={retimeNotice}>
+                        <Clock className="w-3 h-3 shrink-0" /> {retimeNotice}
+                    </span>
+                )}
             </div>
             
             <div className="flex items-center gap-4">
@@ -949,6 +1445,10 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
                 canRedo={historyIndex < history.length - 1}
                 showPaths={showPaths}
                 setShowPaths={setShowPaths}
+                showMarking={showMarking}
+                setShowMarking={setShowMarking}
+                units={currentState.config.units}
+                setUnits={handleUnitsChange}
              />
              <ParadeCanvas 
                 parade={displayState}
@@ -969,8 +1469,26 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
                 showPaths={showPaths}
                 selectedActionId={selectedActionId}
                 onUpdateAction={handleUpdateAction}
+                onCommitAction={handleCommitPathDrag}
                 isPlaying={isPlaying}
                 onObjectDrop={handleObjectDrop}
+                conflictZones={conflictZones}
+                cueWord={cueWord}
+                markingPoints={markingPoints}
+                clipStartPoses={clipStartPoses}
+             />
+             <LintPanel
+                isOpen={isLintOpen}
+                onClose={() => setLintOpen(false)}
+                issues={lintIssues}
+                onPick={handlePickLintIssue}
+             />
+             <ScriptPanel
+                isOpen={isScriptOpen}
+                onClose={() => { setScriptOpen(false); scriptTracksRef.current = null; }}
+                text={scriptText}
+                onChange={handleScriptChange}
+                errors={scriptErrors}
              />
         </div>
 
@@ -981,13 +1499,33 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
             onPlay={() => setIsPlaying(true)}
             onPause={() => setIsPlaying(false)}
             onStop={() => { setIsPlaying(false); setCurrentTime(0); }}
-            onSeek={setCurrentTime}
+            onSeek={handleSeek}
             onAddAction={handleAddAction}
-            onUpdateAction={(oid, aid, u) => handleUpdateAction(aid, u)}
+            onAddCommand={handleAddCommand}
+            onUpdateAction={(oid, aid, u) => handleUpdateAction(aid, u, false)}
+            onCommitAction={handleCommitActionDrag}
             onDeleteAction={handleDeleteAction}
             onSelectAction={handleSelectAction}
             selectedActionId={selectedActionId}
             onTrackReorder={handleTrackReorder}
+            onTempoChange={handleUpdateTempo}
+            onPaceLengthChange={handleUpdatePaceLength}
+            conflicts={conflicts}
+            onAddCue={handleAddCue}
+            onUpdateCue={handleUpdateCue}
+            onSelectCue={handleSelectCue}
+            selectedCueId={selectedCueId}
+            isCueVoiceOn={isCueVoiceOn}
+            onToggleCueVoice={() => { setCueVoiceOn(!isCueVoiceOn); cancelSpeech(); }}
+            musicPeaks={musicPeaks}
+            onLoadMusic={handleLoadMusic}
+            onUpdateMusic={handleUpdateMusic}
+            onRemoveMusic={handleRemoveMusic}
+            onAddEvent={handleAddEvent}
+            onUpdateEvent={handleUpdateEvent}
+            onSelectEvent={handleSelectEvent}
+            selectedEventId={selectedEventId}
+            onProgrammeModeChange={handleProgrammeModeChange}
         />
       </div>
 
@@ -996,14 +1534,24 @@ export const Simulator: React.FC<SimulatorProps> = ({ initialState, onExit }) =>
         onToggle={() => setPropertiesPanelOpen(!isPropertiesPanelOpen)}
         selectedEntities={selectedEntities}
         groups={currentState.groups}
+        config={currentState.config}
         onUpdate={handleUpdateEntities}
         onDelete={handleDelete}
         onGroup={handleGroup}
         onUngroup={handleUngroup}
         onUpdateGroup={handleUpdateGroup}
         selectedAction={selectedAction}
+        actionGroup={selectedActionOwnerId ? currentState.groups[selectedActionOwnerId] : undefined}
+        actionStartPose={selectedAction ? clipStartPoses.get(selectedAction.id) : undefined}
         onUpdateAction={handleUpdateAction}
         onDeleteAction={handleDeleteSelectedAction}
+        selectedCue={selectedCue}
+        commandGivers={getCommandGivers(currentState.entities)}
+        onUpdateCue={handleUpdateCue}
+        onDeleteCue={() => selectedCueId && handleDeleteCue(selectedCueId)}
+        selectedEvent={selectedEvent}
+        onUpdateEvent={handleUpdateEvent}
+        onDeleteEvent={() => selectedEventId && handleDeleteEvent(selectedEventId)}
       />
     </div>
   );
@@ -1,8 +1,14 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { ParadeState, AnimationTrack, AnimationAction } from '../types';
-import { Play, Pause, Square, Plus, Move, RotateCw, Compass, ZoomIn, ZoomOut, GripVertical } from 'lucide-react';
-import { isFurniture } from '../constants';
+import { ParadeState, AnimationTrack, AnimationAction, ActionType, MarchTempo, PaceLength, CollisionConflict, CommandCue, MusicTrack, ProgrammeEvent, ProgrammeEventKind, ProgrammeMode } from '../types';
+import { Play, Pause, Square, Plus, Move, RotateCw, Compass, ZoomIn, ZoomOut, GripVertical, Footprints, LayoutGrid, Rows3, AlignRight, Hand, TriangleAlert, Megaphone, Volume2, VolumeX, Music, Magnet, X, Timer, CalendarClock, FastForward, ShieldAlert, Ruler } from 'lucide-react';
+import { isFurniture, DEFAULT_MARCH_TEMPO, DEFAULT_PACE_LENGTH, WAVEFORM_PEAKS_PER_SECOND } from '../constants';
+import { getActionLane } from '../utils/animationUtils';
+import { getOwnerLabel } from '../utils/collisionUtils';
+import { DRILL_COMMANDS } from '../utils/drillCommands';
+import { getCautionStart } from '../utils/cueUtils';
+import { getBeats, getBeatInterval, snapTime } from '../utils/musicUtils';
+import { PROGRAMME_EVENT_KINDS, getEventClashes, getRunTimeSummary, formatRunTime, EventClash } from '../utils/programmeUtils';
 
 interface TimelinePanelProps {
   parade: ParadeState;
@@ -12,33 +18,94 @@ interface TimelinePanelProps {
   onPause: () => void;
   onStop: () => void;
   onSeek: (t: number) => void;
-  onAddAction: (ownerId: string, type: 'MOVE' | 'TURN' | 'WHEEL') => void;
+  onAddAction: (ownerId: string, type: ActionType) => void;
+  onAddCommand?: (ownerId: string, commandId: string, count: number) => void;
   onUpdateAction: (ownerId: string, actionId: string, updates: Partial<AnimationAction>) => void;
+  onCommitAction?: (ownerId: string, actionId: string, initialStartTime: number) => void; // A clip drag has been dropped
   onDeleteAction: (ownerId: string, actionId: string) => void;
   onSelectAction: (action: AnimationAction | null) => void;
   selectedActionId: string | null;
   onTrackReorder?: (newOrder: string[]) => void;
+  onTempoChange?: (tempo: MarchTempo) => void;
+  onPaceLengthChange?: (paceLength: PaceLength) => void;
+  conflicts?: CollisionConflict[];
+  // Words of command lane
+  onAddCue?: (time: number) => void;
+  onUpdateCue?: (cueId: string, updates: Partial<CommandCue>) => void;
+  onSelectCue?: (cue: CommandCue | null) => void;
+  selectedCueId?: string | null;
+  isCueVoiceOn?: boolean;
+  onToggleCueVoice?: () => void;
+  // Music track
+  musicPeaks?: number[] | null; // Waveform of the loaded recording
+  onLoadMusic?: (file: File) => void;
+  onUpdateMusic?: (updates: Partial<MusicTrack>) => void;
+  onRemoveMusic?: () => void;
+  // Programme lane
+  onAddEvent?: (kind: ProgrammeEventKind, time: number) => void;
+  onUpdateEvent?: (eventId: string, updates: Partial<ProgrammeEvent>) => void;
+  onSelectEvent?: (event: ProgrammeEvent | null) => void;
+  selectedEventId?: string | null;
+  onProgrammeModeChange?: (mode: ProgrammeMode) => void;
 }
 
 export const TimelinePanel: React.FC<TimelinePanelProps> = ({
   parade, currentTime, isPlaying, onPlay, onPause, onStop, onSeek,
-  onAddAction, onUpdateAction, onDeleteAction, onSelectAction, selectedActionId, onTrackReorder
+  onAddAction, onAddCommand, onUpdateAction, onCommitAction, onDeleteAction, onSelectAction, selectedActionId, onTrackReorder, onTempoChange, onPaceLengthChange, conflicts = [],
+  onAddCue, onUpdateCue, onSelectCue, selectedCueId, isCueVoiceOn = true, onToggleCueVoice,
+  musicPeaks, onLoadMusic, onUpdateMusic, onRemoveMusic,
+  onAddEvent, onUpdateEvent, onSelectEvent, selectedEventId, onProgrammeModeChange
 }) => {
+  const tempo = parade.config.tempo || DEFAULT_MARCH_TEMPO;
+  const paceLength = parade.config.paceLength || DEFAULT_PACE_LENGTH;
+
   const [pixelsPerSecond, setPixelsPerSecond] = useState(40);
   const [activeMenu, setActiveMenu] = useState<{ id: string, x: number, y: number } | null>(null);
+  const [menuTab, setMenuTab] = useState<'ACTIONS' | 'COMMANDS'>('ACTIONS');
+  const [commandCount, setCommandCount] = useState(10); // Paces to march or beats to mark time
+  const [snapToBeats, setSnapToBeats] = useState(true);
+  const musicInputRef = useRef<HTMLInputElement>(null);
+
+  const music = parade.animation.music;
+  // Clip and cue times land on the band's beats when there is a grid to snap to
+  const snap = (time: number) => Math.max(0, snapTime(time, snapToBeats ? music : null));
   
   // Refs for scrolling synchronization
   const sidebarRef = useRef<HTMLDivElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
 
-  // Drag State (Clip Dragging)
+  // Drag State (Clip Dragging), moving the clip or pulling its end out
   const [dragState, setDragState] = useState<{
+      mode: 'MOVE' | 'RESIZE';
       actionId: string;
       ownerId: string;
       startX: number; // Client X
       initialStartTime: number;
+      initialDuration: number;
   } | null>(null);
 
+  // Drag State (Cue Dragging)
+  const [cueDragState, setCueDragState] = useState<{
+      cueId: string;
+      startX: number; // Client X
+      initialTime: number;
+  } | null>(null);
+
+  const cues = parade.animation.cues || [];
+
+  // Drag State (Programme Event Dragging)
+  const [eventDragState, setEventDragState] = useState<{
+      mode: 'MOVE' | 'RESIZE';
+      eventId: string;
+      startX: number; // Client X
+      initialStartTime: number;
+      initialDuration: number;
+  } | null>(null);
+  const [eventMenu, setEventMenu] = useState<{ x: number, y: number } | null>(null);
+
+  const programme = parade.animation.programme || [];
+  const programmeMode = parade.animation.programmeMode || 'PUSH';
+
   // Drag State (Row Reordering)
   const [reorderDragIndex, setReorderDragIndex] = useState<number | null>(null);
 
@@ -90,6 +157,33 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
     return validOrderedIds.map(id => itemsMap.get(id)!);
   }, [parade.groups, parade.entities, parade.animation.trackOrder, parade.animation.tracks]);
 
+  // Clips in progress during a collision, with the conflicts they are part of
+  const conflictsByAction = useMemo(() => {
+      const map = new Map<string, CollisionConflict[]>();
+      conflicts.forEach(c => c.actionIds.forEach(id => map.set(id, [...(map.get(id) || []), c])));
+      return map;
+  }, [conflicts]);
+
+  const ownerLabel = (ownerId: string) => getOwnerLabel(parade, ownerId);
+
+  // Movement running into programme events, by event and by clip
+  const { clashesByEvent, clashesByAction } = useMemo(() => {
+      const byEvent = new Map<string, EventClash[]>();
+      const byAction = new Map<string, EventClash[]>();
+      getEventClashes(parade.animation).forEach(c => {
+          byEvent.set(c.eventId, [...(byEvent.get(c.eventId) || []), c]);
+          byAction.set(c.actionId, [...(byAction.get(c.actionId) || []), c]);
+      });
+      return { clashesByEvent: byEvent, clashesByAction: byAction };
+  }, [parade.animation]);
+
+  const runTime = useMemo(() => getRunTimeSummary(parade.animation), [parade.animation]);
+  const eventName = (eventId: string) => programme.find(e => e.id === eventId)?.name || 'an event';
+
+  // Tracks with posture clips get a second lane under their movement clips
+  const hasPostureLane = (ownerId: string) =>
+      !!parade.animation.tracks[ownerId]?.actions.some(a => getActionLane(a.type) === 'POSTURE');
+
   // Sync Scrolling: Timeline drives Sidebar
   const handleTimelineScroll = () => {
       if (sidebarRef.current && timelineRef.current) {
@@ -102,16 +196,20 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
       const handleMove = (e: MouseEvent) => {
           if (!dragState) return;
           const dt = (e.clientX - dragState.startX) / pixelsPerSecond;
-          let newTime = dragState.initialStartTime + dt;
-          
-          // Snap to 0.25s
-          newTime = Math.round(newTime * 4) / 4; 
-          if (newTime < 0) newTime = 0;
-          
-          onUpdateAction(dragState.ownerId, dragState.actionId, { startTime: newTime });
+
+          if (dragState.mode === 'RESIZE') {
+              // A hand-set length stops the clip following its cadence
+              const end = snap(dragState.initialStartTime + dragState.initialDuration + dt);
+              const duration = Math.round((end - dragState.initialStartTime) * 1000) / 1000;
+              if (duration > 0) onUpdateAction(dragState.ownerId, dragState.actionId, { duration, marchMode: 'MANUAL' });
+              return;
+          }
+
+          onUpdateAction(dragState.ownerId, dragState.actionId, { startTime: snap(dragState.initialStartTime + dt) });
       };
       
       const handleUp = () => {
+          if (dragState) onCommitAction?.(dragState.ownerId, dragState.actionId, dragState.initialStartTime);
           setDragState(null);
       };
 
@@ -123,11 +221,50 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
           window.removeEventListener('mousemove', handleMove);
           window.removeEventListener('mouseup', handleUp);
       };
-  }, [dragState, pixelsPerSecond, onUpdateAction]);
+  }, [dragState, pixelsPerSecond, onUpdateAction, onCommitAction, music, snapToBeats]);
+
+  // Dragging Logic (Cue), moving the executive word with the same snap as clips
+  useEffect(() => {
+      if (!cueDragState) return;
+      const handleMove = (e: MouseEvent) => {
+          const dt = (e.clientX - cueDragState.startX) / pixelsPerSecond;
+          onUpdateCue?.(cueDragState.cueId, { time: snap(cueDragState.initialTime + dt) });
+      };
+      const handleUp = () => setCueDragState(null);
+      window.addEventListener('mousemove', handleMove);
+      window.addEventListener('mouseup', handleUp);
+      return () => {
+          window.removeEventListener('mousemove', handleMove);
+          window.removeEventListener('mouseup', handleUp);
+      };
+  }, [cueDragState, pixelsPerSecond, onUpdateCue, music, snapToBeats]);
+
+  // Dragging Logic (Programme Event). Resizing goes through the programme mode, so
+  // lengthening an event may push what follows it.
+  useEffect(() => {
+      if (!eventDragState) return;
+      const handleMove = (e: MouseEvent) => {
+          const dt = (e.clientX - eventDragState.startX) / pixelsPerSecond;
+          if (eventDragState.mode === 'RESIZE') {
+              const end = snap(eventDragState.initialStartTime + eventDragState.initialDuration + dt);
+              const duration = Math.round((end - eventDragState.initialStartTime) * 1000) / 1000;
+              if (duration > 0) onUpdateEvent?.(eventDragState.eventId, { duration });
+              return;
+          }
+          onUpdateEvent?.(eventDragState.eventId, { startTime: snap(eventDragState.initialStartTime + dt) });
+      };
+      const handleUp = () => setEventDragState(null);
+      window.addEventListener('mousemove', handleMove);
+      window.addEventListener('mouseup', handleUp);
+      return () => {
+          window.removeEventListener('mousemove', handleMove);
+          window.removeEventListener('mouseup', handleUp);
+      };
+  }, [eventDragState, pixelsPerSecond, onUpdateEvent, music, snapToBeats]);
 
   // Close menus when clicking elsewhere
   useEffect(() => {
-    const closeMenu = () => setActiveMenu(null);
+    const closeMenu = () => { setActiveMenu(null); setEventMenu(null); };
     window.addEventListener('click', closeMenu);
     return () => window.removeEventListener('click', closeMenu);
   }, []);
@@ -140,11 +277,26 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
       setActiveMenu(activeMenu?.id === id ? null : { id, x: rect.right + 5, y: rect.top });
   };
 
-  const executeAdd = (id: string, type: 'MOVE' | 'TURN' | 'WHEEL') => {
+  const executeAdd = (id: string, type: ActionType) => {
       onAddAction(id, type);
       setActiveMenu(null);
   };
 
+  const executeCommand = (id: string, commandId: string) => {
+      onAddCommand?.(id, commandId, commandCount);
+      setActiveMenu(null);
+  };
+
+  const handleTempoChange = (key: keyof MarchTempo, value: number) => {
+      if (!onTempoChange || !Number.isFinite(value) || value <= 0) return;
+      onTempoChange({ ...tempo, [key]: value });
+  };
+
+  const handlePaceLengthChange = (key: keyof PaceLength, value: number) => {
+      if (!onPaceLengthChange || !Number.isFinite(value) || value <= 0) return;
+      onPaceLengthChange({ ...paceLength, [key]: value });
+  };
+
   const handleRulerClick = (e: React.MouseEvent) => {
       if (!timelineRef.current) return;
       const rect = timelineRef.current.getBoundingClientRect();
@@ -154,17 +306,64 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
       onSeek(t);
   };
 
-  const handleClipMouseDown = (e: React.MouseEvent, ownerId: string, action: AnimationAction) => {
+  const handleClipMouseDown = (e: React.MouseEvent, ownerId: string, action: AnimationAction, mode: 'MOVE' | 'RESIZE' = 'MOVE') => {
       e.stopPropagation();
       onSelectAction(action);
       setDragState({
+          mode,
           actionId: action.id,
           ownerId,
           startX: e.clientX,
-          initialStartTime: action.startTime
+          initialStartTime: action.startTime,
+          initialDuration: action.duration
       });
   };
 
+  const handleEventMouseDown = (e: React.MouseEvent, event: ProgrammeEvent, mode: 'MOVE' | 'RESIZE' = 'MOVE') => {
+      e.stopPropagation();
+      onSelectEvent?.(event);
+      setEventDragState({ mode, eventId: event.id, startX: e.clientX, initialStartTime: event.startTime, initialDuration: event.duration });
+  };
+
+  const handleEventMenuClick = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      const rect = e.currentTarget.getBoundingClientRect();
+      setEventMenu(eventMenu ? null : { x: rect.right + 5, y: rect.top });
+  };
+
+  const handleMusicFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) onLoadMusic?.(file);
+      e.target.value = ''; // Allow the same file to be picked again
+  };
+
+  const handleMusicNumber = (key: 'bpm' | 'offset' | 'beatsPerBar', value: number) => {
+      if (!Number.isFinite(value) || value < 0 || (key !== 'offset' && value === 0)) return;
+      onUpdateMusic?.({ [key]: key === 'beatsPerBar' ? Math.round(value) : value });
+  };
+
+  // Beat lines are only drawn when they are far enough apart to read
+  const beats = useMemo(() => {
+      if (!music || getBeatInterval(music) * pixelsPerSecond < 4) return [];
+      return getBeats(music, parade.animation.duration + 5);
+  }, [music, pixelsPerSecond, parade.animation.duration]);
+
+  // Waveform outline, mirrored about the middle of the strip
+  const waveformPath = useMemo(() => {
+      if (!musicPeaks || musicPeaks.length === 0) return '';
+      const step = pixelsPerSecond / WAVEFORM_PEAKS_PER_SECOND;
+      const half = 20;
+      const top = musicPeaks.map((p, i) => `${(i * step).toFixed(1)},${(half - p * half).toFixed(1)}`);
+      const bottom = musicPeaks.map((p, i) => `${(i * step).toFixed(1)},${(half + p * half).toFixed(1)}`).reverse();
+      return `M${top.join('L')}L${bottom.join('L')}Z`;
+  }, [musicPeaks, pixelsPerSecond]);
+
+  const handleCueMouseDown = (e: React.MouseEvent, cue: CommandCue) => {
+      e.stopPropagation();
+      onSelectCue?.(cue);
+      setCueDragState({ cueId: cue.id, startX: e.clientX, initialTime: cue.time });
+  };
+
   // --- Row Reordering Handlers ---
   const handleRowDragStart = (e: React.DragEvent, index: number) => {
     setReorderDragIndex(index);
@@ -217,8 +416,81 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
             </button>
         </div>
 
+        {onTempoChange && (
+            <div className="flex items-center gap-2 ml-4 border-l border-gray-700 pl-4 text-xs text-gray-500" title="Marching tempo (paces per minute)">
+                <Footprints className="w-4 h-4" />
+                <label>Quick</label>
+                <input
+                    type="number" min="30" max="180"
+                    value={tempo.quick}
+                    onChange={(e) => handleTempoChange('quick', parseFloat(e.target.value))}
+                    className="w-12 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-200 focus:border-green-500 outline-none"
+                />
+                <label>Slow</label>
+                <input
+                    type="number" min="30" max="180"
+                    value={tempo.slow}
+                    onChange={(e) => handleTempoChange('slow', parseFloat(e.target.value))}
+                    className="w-12 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-200 focus:border-green-500 outline-none"
+                />
+                <span>paces/min</span>
+            </div>
+        )}
+
+        {onPaceLengthChange && (
+            <div className="flex items-center gap-2 ml-4 border-l border-gray-700 pl-4 text-xs text-gray-500" title="Pace length (metres); slow-time moves are retimed to match">
+                <Ruler className="w-4 h-4" />
+                <label>Quick</label>
+                <input
+                    type="number" min="0.3" max="1.5" step="0.01"
+                    value={paceLength.quick}
+                    onChange={(e) => handlePaceLengthChange('quick', parseFloat(e.target.value))}
+                    className="w-14 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-200 focus:border-green-500 outline-none"
+                />
+                <label>Slow</label>
+                <input
+                    type="number" min="0.3" max="1.5" step="0.01"
+                    value={paceLength.slow}
+                    onChange={(e) => handlePaceLengthChange('slow', parseFloat(e.target.value))}
+                    className="w-14 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-200 focus:border-green-500 outline-none"
+                />
+                <span>m/pace</span>
+            </div>
+        )}
+
+        <div
+            className="flex items-center gap-1 ml-4 border-l border-gray-700 pl-4 text-xs text-gray-400"
+            title={`Drill: ${formatRunTime(runTime.drillTime)}\nProgramme: ${formatRunTime(runTime.programmeTime)} over ${runTime.eventCount} event${runTime.eventCount === 1 ? '' : 's'}\nStanding still: ${formatRunTime(Math.max(0, runTime.runTime - runTime.drillTime - runTime.programmeTime))}`}
+        >
+            <Timer className="w-4 h-4" />
+            <span>Run time</span>
+            <span className="font-mono text-gray-200">{formatRunTime(runTime.runTime)}</span>
+        </div>
+
         <div className="flex-1" />
-        <span className="text-xs text-gray-500">Drag clips to move (0.25s snap)</span>
+        {clashesByAction.size > 0 && (
+            <span className="flex items-center gap-1 text-xs text-amber-400 mr-4" title="Clips moving during a programme event">
+                <ShieldAlert className="w-4 h-4" /> {clashesByAction.size} clip{clashesByAction.size === 1 ? '' : 's'} in events
+            </span>
+        )}
+        {conflicts.length > 0 && (
+            <span
+                className="flex items-center gap-1 text-xs text-red-400 mr-4"
+                title={conflicts.map(c => `${ownerLabel(c.owners[0])} / ${ownerLabel(c.owners[1])}: ${c.start.toFixed(1)}s - ${c.end.toFixed(1)}s`).join('\n')}
+            >
+                <TriangleAlert className="w-4 h-4" /> {conflicts.length} collision{conflicts.length === 1 ? '' : 's'}
+            </span>
+        )}
+        {music && (
+            <button
+                onClick={() => setSnapToBeats(!snapToBeats)}
+                className={`p-1 mr-2 rounded ${snapToBeats ? 'text-indigo-300 bg-gray-700' : 'text-gray-500 hover:text-white'}`}
+                title={snapToBeats ? 'Snapping to the beat grid' : 'Snap to the beat grid'}
+            >
+                <Magnet className="w-4 h-4" />
+            </button>
+        )}
+        <span className="text-xs text-gray-500">Drag clips to move, edges to resize ({music && snapToBeats ? 'beat' : '0.25s'} snap)</span>
       </div>
 
       {/* Main Area: Sidebar + Scrollable Timeline */}
@@ -229,15 +501,113 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
             ref={sidebarRef}
             className="w-48 bg-gray-850 border-r border-gray-700 flex flex-col shrink-0 overflow-hidden"
          >
+             {onLoadMusic && (
+                 <div className="h-12 border-b border-gray-700 bg-gray-800 px-2 flex flex-col justify-center gap-1 shrink-0 text-xs text-indigo-300">
+                     <input ref={musicInputRef} type="file" accept="audio/*" className="hidden" onChange={handleMusicFile} />
+                     {music ? (
+                         <>
+                             <div className="flex items-center gap-1">
+                                 <Music className="w-3 h-3 shrink-0" />
+                                 <button onClick={() => musicInputRef.current?.click()} className="truncate flex-1 text-left hover:text-white" title={`${music.fileName} (click to replace)`}>
+                                     {music.fileName}
+                                 </button>
+                                 <button onClick={onRemoveMusic} className="p-0.5 text-gray-500 hover:text-red-400" title="Remove music">
+                                     <X className="w-3 h-3" />
+                                 </button>
+                             </div>
+                             <div className="flex items-center gap-1 text-[10px] text-gray-500">
+                                 <input
+                                     type="number" min="20" max="300" step="0.5"
+                                     value={music.bpm}
+                                     onChange={(e) => handleMusicNumber('bpm', parseFloat(e.target.value))}
+                                     className="w-10 bg-gray-900 border border-gray-600 rounded px-1 text-gray-200 focus:border-indigo-500 outline-none"
+                                     title="Beats per minute"
+                                 />
+                                 <span>bpm</span>
+                                 <input
+                                     type="number" min="0" step="0.01"
+                                     value={music.offset}
+                                     onChange={(e) => handleMusicNumber('offset', parseFloat(e.target.value))}
+                                     className="w-12 bg-gray-900 border border-gray-600 rounded px-1 text-gray-200 focus:border-indigo-500 outline-none"
+                                     title="Seconds to the first downbeat"
+                                 />
+                                 <span>s</span>
+                                 <input
+                                     type="number" min="1" max="12" step="1"
+                                     value={music.beatsPerBar}
+                                     onChange={(e) => handleMusicNumber('beatsPerBar', parseFloat(e.target.value))}
+                                     className="w-7 bg-gray-900 border border-gray-600 rounded px-1 text-gray-200 focus:border-indigo-500 outline-none"
+                                     title="Beats per bar"
+                                 />
+                                 <span>/bar</span>
+                             </div>
+                         </>
+                     ) : (
+                         <button onClick={() => musicInputRef.current?.click()} className="flex items-center gap-2 text-gray-400 hover:text-white">
+                             <Music className="w-3 h-3" /> Load band music...
+                         </button>
+                     )}
+                 </div>
+             )}
              <div className="h-8 border-b border-gray-700 bg-gray-800 text-xs font-bold text-gray-400 flex items-center px-2 shrink-0">
                  TRACKS
              </div>
              {/* Track Labels List */}
              <div className="flex-1">
+                 {onAddEvent && (
+                     <div className="h-8 border-b border-gray-700 flex items-center px-2 justify-between text-xs text-sky-300 bg-gray-800/60">
+                         <div className="flex items-center gap-2 truncate">
+                             <CalendarClock className="w-3 h-3" />
+                             <span className="truncate">Programme</span>
+                         </div>
+                         <div className="flex items-center">
+                             <button
+                                onClick={() => onProgrammeModeChange?.(programmeMode === 'PUSH' ? 'WARN' : 'PUSH')}
+                                className="p-1 rounded text-sky-300 hover:text-white"
+                                title={programmeMode === 'PUSH'
+                                    ? 'Lengthening an event pushes what follows it (click to only warn)'
+                                    : 'Lengthening an event only warns about movement it runs into (click to push)'}
+                             >
+                                {programmeMode === 'PUSH' ? <FastForward className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+                             </button>
+                             <button
+                                onClick={handleEventMenuClick}
+                                className={`p-1 rounded hover:text-white ${eventMenu ? 'text-green-400 bg-gray-700' : 'text-gray-500'}`}
+                                title="Add a programme event at the playhead"
+                             >
+                                <Plus className="w-3 h-3" />
+                             </button>
+                         </div>
+                     </div>
+                 )}
+                 {onAddCue && (
+                     <div className="h-8 border-b border-gray-700 flex items-center px-2 justify-between text-xs text-orange-300 bg-gray-800/60">
+                         <div className="flex items-center gap-2 truncate">
+                             <Megaphone className="w-3 h-3" />
+                             <span className="truncate">Words of Command</span>
+                         </div>
+                         <div className="flex items-center">
+                             <button
+                                onClick={onToggleCueVoice}
+                                className={`p-1 rounded hover:text-white ${isCueVoiceOn ? 'text-orange-300' : 'text-gray-500'}`}
+                                title={isCueVoiceOn ? 'Mute spoken commands' : 'Speak commands during playback'}
+                             >
+                                {isCueVoiceOn ? <Volume2 className="w-3 h-3" /> : <VolumeX className="w-3 h-3" />}
+                             </button>
+                             <button
+                                onClick={() => onAddCue(currentTime)}
+                                className="p-1 rounded text-gray-500 hover:text-white"
+                                title="Add a word of command at the playhead"
+                             >
+                                <Plus className="w-3 h-3" />
+                             </button>
+                         </div>
+                     </div>
+                 )}
                  {trackOwners.map((owner, index) => (
                      <div 
                         key={owner.id} 
-                        className={`h-10 border-b border-gray-700/50 flex items-center px-2 justify-between text-xs text-gray-300 hover:bg-gray-800 group relative ${reorderDragIndex === index ? 'opacity-50' : ''}`}
+                        className={`${hasPostureLane(owner.id) ? 'h-16' : 'h-10'} border-b border-gray-700/50 flex items-center px-2 justify-between text-xs text-gray-300 hover:bg-gray-800 group relative ${reorderDragIndex === index ? 'opacity-50' : ''}`}
                         draggable
                         onDragStart={(e) => handleRowDragStart(e, index)}
                         onDragOver={(e) => handleRowDragOver(e, index)}
@@ -247,6 +617,9 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
                              <GripVertical className="w-3 h-3 text-gray-600" />
                              <span className="truncate" title={owner.label}>{owner.label}</span>
                          </div>
+                         {hasPostureLane(owner.id) && (
+                             <span className="absolute left-7 bottom-1.5 text-[10px] text-gray-500 pointer-events-none">Posture</span>
+                         )}
                          <button 
                             onClick={(e) => handleAddClick(e, owner.id)} 
                             className={`p-1 rounded hover:text-white ${activeMenu?.id === owner.id ? 'text-green-400 bg-gray-700' : 'text-gray-500'}`}
@@ -267,9 +640,33 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
             onScroll={handleTimelineScroll}
          >
              <div className="min-w-[1000px] h-full relative" style={{ width: `${Math.max(100, parade.animation.duration * pixelsPerSecond + 200)}px` }}>
+                 {/* Waveform and beat grid of the band recording, clickable like the ruler */}
+                 {onLoadMusic && (
+                     <div
+                        className="h-12 border-b border-gray-700 bg-gray-850 sticky top-0 z-20 cursor-pointer overflow-hidden"
+                        onClick={handleRulerClick}
+                     >
+                         {beats.map(beat => (
+                             <div
+                                key={beat.time}
+                                className={`absolute top-0 bottom-0 w-px pointer-events-none ${beat.isDownbeat ? 'bg-indigo-400/50' : 'bg-indigo-400/15'}`}
+                                style={{ left: beat.time * pixelsPerSecond }}
+                             />
+                         ))}
+                         {music && waveformPath && (
+                             <svg className="absolute left-0 top-1 pointer-events-none" width={music.duration * pixelsPerSecond} height={40}>
+                                 <path d={waveformPath} fill="rgba(129, 140, 248, 0.6)" />
+                             </svg>
+                         )}
+                         {music && !waveformPath && (
+                             <div className="absolute inset-0 flex items-center px-2 text-[10px] text-gray-500 pointer-events-none">Loading {music.fileName}...</div>
+                         )}
+                     </div>
+                 )}
+
                  {/* Ruler */}
                  <div 
-                    className="h-8 border-b border-gray-700 bg-gray-800/80 sticky top-0 z-20 flex cursor-pointer"
+                    className={`h-8 border-b border-gray-700 bg-gray-800/80 sticky ${onLoadMusic ? 'top-12' : 'top-0'} z-20 flex cursor-pointer`}
                     onClick={handleRulerClick}
                  >
                      {Array.from({ length: Math.ceil(parade.animation.duration) + 5 }).map((_, i) => (
@@ -287,6 +684,77 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
                      <div className="w-3 h-3 bg-red-500 -ml-1.5 rotate-45 transform -mt-1.5" />
                  </div>
 
+                 {/* Bar lines carried down through the lanes */}
+                 {beats.filter(b => b.isDownbeat).map(beat => (
+                     <div
+                        key={beat.time}
+                        className="absolute bottom-0 w-px bg-indigo-400/20 pointer-events-none"
+                        style={{ left: beat.time * pixelsPerSecond, top: onLoadMusic ? '5rem' : '2rem' }}
+                     />
+                 ))}
+
+                 {/* Programme Lane */}
+                 {onAddEvent && (
+                     <div className="h-8 border-b border-gray-700 relative bg-gray-800/30">
+                         {programme.map(event => {
+                             const isSelected = event.id === selectedEventId;
+                             const clashes = clashesByEvent.get(event.id);
+                             return (
+                                 <div
+                                    key={event.id}
+                                    onMouseDown={(e) => handleEventMouseDown(e, event)}
+                                    className={`absolute top-1 h-6 rounded px-2 text-[10px] flex items-center gap-1 overflow-hidden cursor-move select-none border bg-sky-900/50 text-sky-100
+                                        ${isSelected ? 'border-white ring-1 ring-white z-10' : clashes ? 'border-amber-400' : 'border-sky-700'}`}
+                                    style={{
+                                        left: event.startTime * pixelsPerSecond,
+                                        width: event.duration * pixelsPerSecond,
+                                        transition: eventDragState?.eventId === event.id ? 'none' : 'left 0.1s, width 0.1s'
+                                    }}
+                                    title={[`${event.name} (${formatRunTime(event.duration)})`, ...(clashes || []).map(c => `${ownerLabel(c.ownerId)} moves ${c.start.toFixed(1)}s - ${c.end.toFixed(1)}s`)].join('\n')}
+                                 >
+                                     {clashes && <ShieldAlert className="w-3 h-3 text-amber-400 shrink-0" />}
+                                     <span className="font-bold truncate pointer-events-none">{event.name}</span>
+                                     <div
+                                        onMouseDown={(e) => handleEventMouseDown(e, event, 'RESIZE')}
+                                        className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/40"
+                                     />
+                                 </div>
+                             );
+                         })}
+                     </div>
+                 )}
+
+                 {/* Cue Lane: caution drawn out ahead of the executive word */}
+                 {onAddCue && (
+                     <div className="h-8 border-b border-gray-700 relative bg-gray-800/30">
+                         {cues.map(cue => {
+                             const isSelected = cue.id === selectedCueId;
+                             const cautionStart = getCautionStart(cue);
+                             return (
+                                 <div
+                                    key={cue.id}
+                                    onMouseDown={(e) => handleCueMouseDown(e, cue)}
+                                    className="absolute top-1 h-6 flex cursor-move select-none"
+                                    style={{ left: cautionStart * pixelsPerSecond }}
+                                    title={`${cue.caution ? `${cue.caution}... ` : ''}${cue.executive} (${cue.time.toFixed(2)}s)`}
+                                 >
+                                     {cue.caution && (
+                                         <div
+                                            className={`h-full rounded-l border border-r-0 px-1 text-[10px] text-orange-200/80 italic truncate flex items-center bg-orange-900/30 ${isSelected ? 'border-white' : 'border-orange-800/60'}`}
+                                            style={{ width: (cue.time - cautionStart) * pixelsPerSecond }}
+                                         >
+                                             {cue.caution}
+                                         </div>
+                                     )}
+                                     <div className={`h-full px-1.5 border text-[10px] font-bold text-white flex items-center gap-1 bg-orange-600/80 whitespace-nowrap ${cue.caution ? 'rounded-r' : 'rounded'} ${isSelected ? 'border-white ring-1 ring-white z-10' : 'border-orange-400'}`}>
+                                         <Megaphone className="w-3 h-3 shrink-0" /> {cue.executive.toUpperCase()}
+                                     </div>
+                                 </div>
+                             );
+                         })}
+                     </div>
+                 )}
+
                  {/* Tracks Container */}
                  <div className="relative">
                      {trackOwners.map((owner, index) => {
@@ -294,7 +762,7 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
                          return (
                              <div 
                                 key={owner.id} 
-                                className="h-10 border-b border-gray-700/30 relative bg-gray-900/30 hover:bg-gray-800/30 transition-colors"
+                                className={`${hasPostureLane(owner.id) ? 'h-16' : 'h-10'} border-b border-gray-700/30 relative bg-gray-900/30 hover:bg-gray-800/30 transition-colors`}
                                 onDragOver={(e) => handleRowDragOver(e, index)} // Support drag over on timeline area too for better UX
                                 onDrop={handleRowDrop}
                              >
@@ -304,25 +772,48 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
                                      if (action.type === 'MOVE') bgColor = 'bg-blue-900/60 border-blue-700';
                                      if (action.type === 'TURN') bgColor = 'bg-green-900/60 border-green-700';
                                      if (action.type === 'WHEEL') bgColor = 'bg-yellow-900/60 border-yellow-700';
+                                     if (action.type === 'FORMATION_CHANGE') bgColor = 'bg-purple-900/60 border-purple-700';
+                                     if (action.type === 'OPEN_ORDER' || action.type === 'CLOSE_ORDER' || action.type === 'DRESS') bgColor = 'bg-teal-900/60 border-teal-700';
+                                     if (action.type === 'POSTURE') bgColor = 'bg-rose-900/60 border-rose-700';
+                                     const laneClass = getActionLane(action.type) === 'POSTURE' ? 'top-10 h-5' : 'top-1 h-8';
+                                     const clipConflicts = conflictsByAction.get(action.id);
+                                     const clipClashes = clashesByAction.get(action.id);
+                                     if (clipConflicts) bgColor = 'bg-red-900/70 border-red-500';
 
                                      return (
                                          <div 
                                             key={action.id}
                                             onMouseDown={(e) => handleClipMouseDown(e, owner.id, action)}
-                                            className={`absolute top-1 bottom-1 rounded px-2 text-[10px] flex items-center overflow-hidden cursor-move border select-none
-                                                ${isSelected ? 'border-white z-10 ring-1 ring-white shadow-md' : 'border-opacity-50 hover:border-opacity-100'} ${bgColor}`}
+                                            className={`absolute ${laneClass} rounded px-2 text-[10px] flex items-center overflow-hidden cursor-move border select-none
+                                                ${isSelected ? 'border-white z-10 ring-1 ring-white shadow-md' : clipClashes ? 'ring-1 ring-amber-400' : 'border-opacity-50 hover:border-opacity-100'} ${bgColor}`}
                                             style={{ 
                                                 left: action.startTime * pixelsPerSecond,
                                                 width: action.duration * pixelsPerSecond,
                                                 transition: dragState?.actionId === action.id ? 'none' : 'left 0.1s, width 0.1s'
                                             }}
+                                            title={[
+                                                ...(clipConflicts || []).map(c => `Collides with ${ownerLabel(c.owners[0] === owner.id ? c.owners[1] : c.owners[0])} (${c.start.toFixed(1)}s - ${c.end.toFixed(1)}s)`),
+                                                ...(clipClashes || []).map(c => `Moves during ${eventName(c.eventId)} (${c.start.toFixed(1)}s - ${c.end.toFixed(1)}s)`)
+                                            ].join('\n') || undefined}
                                          >
                                              <span className="text-gray-200 font-bold truncate flex items-center gap-1 pointer-events-none">
+                                                 {clipConflicts && <TriangleAlert className="w-3 h-3 text-red-300" />}
                                                  {action.type === 'MOVE' && <Move className="w-3 h-3" />}
                                                  {action.type === 'TURN' && <RotateCw className="w-3 h-3" />}
                                                  {action.type === 'WHEEL' && <Compass className="w-3 h-3" />}
-                                                 {action.type}
+                                                 {action.type === 'FORMATION_CHANGE' && <LayoutGrid className="w-3 h-3" />}
+                                                 {(action.type === 'OPEN_ORDER' || action.type === 'CLOSE_ORDER') && <Rows3 className="w-3 h-3" />}
+                                                 {action.type === 'DRESS' && <AlignRight className="w-3 h-3" />}
+                                                 {action.type === 'POSTURE' && <Hand className="w-3 h-3" />}
+                                                 {action.label ? action.label
+                                                     : action.type === 'FORMATION_CHANGE' ? 'FORM'
+                                                     : action.type === 'POSTURE' ? (action.payload.posture || 'ATTENTION').replace(/_/g, ' ')
+                                                     : action.type.replace(/_/g, ' ')}
                                              </span>
+                                             <div
+                                                onMouseDown={(e) => handleClipMouseDown(e, owner.id, action, 'RESIZE')}
+                                                className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/40"
+                                             />
                                          </div>
                                      );
                                  })}
@@ -334,26 +825,106 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
          </div>
       </div>
 
+      {/* Programme Event Menu */}
+      {eventMenu && onAddEvent && (
+          <div
+            className="fixed bg-gray-800 border border-gray-600 rounded shadow-xl z-50 flex flex-col py-1 w-48"
+            style={{ top: Math.min(window.innerHeight - 200, eventMenu.y - 40), left: eventMenu.x }}
+            onClick={(e) => e.stopPropagation()}
+          >
+             <div className="px-3 py-1 text-[10px] uppercase font-bold tracking-wider text-gray-500 border-b border-gray-700 mb-1">Add Programme Event</div>
+             {PROGRAMME_EVENT_KINDS.map(({ kind, label, duration }) => (
+                 <button
+                     key={kind}
+                     onClick={() => { onAddEvent(kind, currentTime); setEventMenu(null); }}
+                     className="px-3 py-2 text-left hover:bg-gray-700 flex items-center justify-between gap-2 text-xs text-gray-200"
+                 >
+                     <span className="flex items-center gap-2"><CalendarClock className="w-3 h-3 text-sky-400" /> {label}</span>
+                     <span className="text-gray-500 font-mono">{formatRunTime(duration)}</span>
+                 </button>
+             ))}
+          </div>
+      )}
+
       {/* Floating Context Menu */}
       {activeMenu && (
           <div 
             className="fixed bg-gray-800 border border-gray-600 rounded shadow-xl z-50 flex flex-col py-1 animate-in fade-in zoom-in-95 duration-100"
             style={{ 
-                top: Math.min(window.innerHeight - 120, activeMenu.y - 40), // Adjust to keep on screen
+                top: Math.min(window.innerHeight - (menuTab === 'COMMANDS' || parade.groups[activeMenu.id]?.type === 'CONTINGENT' ? 320 : 190), activeMenu.y - 40), // Adjust to keep on screen
                 left: activeMenu.x 
             }}
             onClick={(e) => e.stopPropagation()} // Prevent closing immediately
           >
-             <div className="px-2 py-1 text-[10px] uppercase text-gray-500 font-bold tracking-wider border-b border-gray-700 mb-1">Add Animation</div>
-             <button onClick={() => executeAdd(activeMenu.id, 'MOVE')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
-                 <Move className="w-3 h-3 text-blue-400" /> Move
-             </button>
-             <button onClick={() => executeAdd(activeMenu.id, 'TURN')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
-                 <RotateCw className="w-3 h-3 text-green-400" /> Turn
-             </button>
-             <button onClick={() => executeAdd(activeMenu.id, 'WHEEL')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
-                 <Compass className="w-3 h-3 text-yellow-400" /> Wheel
-             </button>
+             <div className="flex px-1 pb-1 border-b border-gray-700 mb-1 gap-1">
+                 {([['ACTIONS', 'Add Animation'], ['COMMANDS', 'Words of Command']] as ['ACTIONS' | 'COMMANDS', string][]).map(([tab, label]) => (
+                     <button
+                         key={tab}
+                         onClick={() => setMenuTab(tab)}
+                         className={`flex-1 px-2 py-1 text-[10px] uppercase font-bold tracking-wider rounded ${menuTab === tab ? 'text-gray-200 bg-gray-700' : 'text-gray-500 hover:text-gray-300'}`}
+                     >
+                         {label}
+                     </button>
+                 ))}
+             </div>
+             {menuTab === 'ACTIONS' ? (
+                 <>
+                 <button onClick={() => executeAdd(activeMenu.id, 'MOVE')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
+                     <Move className="w-3 h-3 text-blue-400" /> Move
+                 </button>
+                 <button onClick={() => executeAdd(activeMenu.id, 'TURN')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
+                     <RotateCw className="w-3 h-3 text-green-400" /> Turn
+                 </button>
+                 <button onClick={() => executeAdd(activeMenu.id, 'WHEEL')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
+                     <Compass className="w-3 h-3 text-yellow-400" /> Wheel
+                 </button>
+                 <button onClick={() => executeAdd(activeMenu.id, 'POSTURE')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
+                     <Hand className="w-3 h-3 text-rose-400" /> Posture
+                 </button>
+                 {parade.groups[activeMenu.id]?.type === 'CONTINGENT' && (
+                     <>
+                         <button onClick={() => executeAdd(activeMenu.id, 'FORMATION_CHANGE')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
+                             <LayoutGrid className="w-3 h-3 text-purple-400" /> Formation
+                         </button>
+                         <button onClick={() => executeAdd(activeMenu.id, 'OPEN_ORDER')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
+                             <Rows3 className="w-3 h-3 text-teal-400" /> Open Order
+                         </button>
+                         <button onClick={() => executeAdd(activeMenu.id, 'CLOSE_ORDER')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
+                             <Rows3 className="w-3 h-3 text-teal-400" /> Close Order
+                         </button>
+                         <button onClick={() => executeAdd(activeMenu.id, 'DRESS')} className="px-3 py-2 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200">
+                             <AlignRight className="w-3 h-3 text-teal-400" /> Dress
+                         </button>
+                     </>
+                 )}
+                 </>
+             ) : (
+                 <div className="w-56">
+                     <div className="flex items-center justify-between px-3 py-1 text-xs text-gray-400">
+                         <span>Paces / Beats</span>
+                         <input
+                             type="number" min="1" step="1"
+                             value={commandCount}
+                             onChange={(e) => { const v = parseInt(e.target.value); if (Number.isFinite(v) && v > 0) setCommandCount(v); }}
+                             className="w-14 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-right focus:border-green-500 outline-none"
+                         />
+                     </div>
+                     {(['TURNS', 'MARCHING', 'WHEELS'] as const).map(category => (
+                         <div key={category} className="grid grid-cols-2">
+                             {DRILL_COMMANDS.filter(c => c.category === category).map(command => (
+                                 <button
+                                     key={command.id}
+                                     onClick={() => executeCommand(activeMenu.id, command.id)}
+                                     className="px-3 py-1.5 text-left hover:bg-gray-700 flex items-center gap-2 text-xs text-gray-200"
+                                     title={command.countLabel ? `Uses the ${command.countLabel.toLowerCase()} above` : undefined}
+                                 >
+                                     <Megaphone className="w-3 h-3 text-orange-400 shrink-0" /> {command.label}
+                                 </button>
+                             ))}
+                         </div>
+                     ))}
+                 </div>
+             )}
           </div>
       )}
     </div>
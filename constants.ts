@@ -1,10 +1,45 @@
 
-import { TerrainType, EntityType } from './types';
+import { TerrainType, EntityType, MarchTempo, PaceLength } from './types';
 
 // Spatial Accuracy
 export const PIXELS_PER_PACE = 20; // 1 Pace = 20 Screen Pixels
 export const GRID_MAJOR_INTERVAL = 5; // Bold line every 5 paces
 
+// Marching Tempo (paces per minute)
+export const DEFAULT_MARCH_TEMPO: MarchTempo = { quick: 116, slow: 60 };
+
+// Pace Length (metres); 30 inches is the regulation pace in both quick and slow time
+export const DEFAULT_PACE_LENGTH: PaceLength = { quick: 0.76, slow: 0.76 };
+
+// Drill Counts (in beats of the action's tempo)
+export const TURN_DRILL_COUNT = 3; // "One, two-three, one"
+export const WHEEL_PACES_PER_QUARTER = 8; // Paces taken to wheel through 90 degrees
+export const ORDER_STEP_PACES = 2; // Paces the front and rear ranks step on "Open order, march"
+
+// Parade Lint
+export const MAX_MARCH_RATE = 140; // Paces per minute; anything faster is no longer a march
+export const TURN_ANGLE_STEP = 45; // Turns are ordered in multiples of this many degrees
+
+// Words of Command
+export const DEFAULT_CAUTION_LEAD = 2; // Seconds the cautionary word is drawn out before the executive
+export const EXECUTIVE_FLASH_DURATION = 1; // Seconds the executive word stays on the canvas
+
+// Music Track
+export const DEFAULT_MUSIC_BPM = 116; // Quick march
+export const WAVEFORM_PEAKS_PER_SECOND = 20;
+export const CLIP_SNAP_INTERVAL = 0.25; // Seconds clips snap to when there is no beat grid
+
+// Route Cards
+export const ROUTE_SAMPLE_STEP = 0.25; // Seconds between sampled positions along a route
+export const ROUTE_MAP_MARGIN = 8; // Paces of ground shown around a route on its mini-map
+
+// Ground Marking
+export const MARKING_MERGE_DISTANCE = 0.25; // Paces within which two marks are chalked as one
+export const MARKING_COLOR = '#f472b6'; // pink-400, stands out on every terrain
+
+// Collision Analysis
+export const COLLISION_SAMPLE_STEP = 0.1; // Seconds between sampled frames
+
 // Canvas Defaults
 export const DEFAULT_ZOOM = 1;
 export const MIN_ZOOM = 0.01; // 1%
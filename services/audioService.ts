@@ -0,0 +1,69 @@
+import { WAVEFORM_PEAKS_PER_SECOND } from '../constants';
+
+// Band recordings are too large for the localStorage saves, so they live in IndexedDB keyed
+// by parade id. The parade itself only records the file name and beat grid (MusicTrack).
+
+const DB_NAME = 'parade_sim_audio';
+const STORE_NAME = 'recordings';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveAudio = (paradeId: string, audio: Blob) =>
+  runRequest('readwrite', store => store.put(audio, paradeId)).then(() => undefined);
+
+export const deleteAudio = (paradeId: string) =>
+  runRequest('readwrite', store => store.delete(paradeId)).then(() => undefined);
+
+export const loadAudio = async (paradeId: string): Promise<Blob | null> => {
+  try {
+    return (await runRequest<Blob | undefined>('readonly', store => store.get(paradeId))) || null;
+  } catch (e) {
+    console.error("Failed to load audio", e);
+    return null;
+  }
+};
+
+export interface DecodedAudio {
+  duration: number;
+  peaks: number[]; // Loudest sample in each slice, 0..1, WAVEFORM_PEAKS_PER_SECOND per second
+}
+
+// Summarise a recording for the timeline waveform
+export const decodeAudio = async (audio: Blob): Promise<DecodedAudio> => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    const sliceLength = Math.max(1, Math.floor(buffer.sampleRate / WAVEFORM_PEAKS_PER_SECOND));
+    const peaks: number[] = [];
+    for (let start = 0; start < buffer.length; start += sliceLength) {
+      let peak = 0;
+      const end = Math.min(buffer.length, start + sliceLength);
+      channels.forEach(data => {
+        for (let i = start; i < end; i++) peak = Math.max(peak, Math.abs(data[i]));
+      });
+      peaks.push(Math.min(1, peak));
+    }
+    return { duration: buffer.duration, peaks };
+  } finally {
+    context.close();
+  }
+};
@@ -0,0 +1,54 @@
+import { CollisionConflict, ParadeState } from '../types';
+import { analyseCollisions } from '../utils/collisionUtils';
+import { diffParadeState, EvaluationRequest, EvaluationResponse } from '../utils/frameSnapshot';
+import { createEvaluationWorker } from './playbackService';
+
+export interface CollisionAnalyser {
+  analyse: (state: ParadeState) => void;
+  dispose: () => void;
+}
+
+// Runs collision analysis in its own worker so a long analysis never holds up playback frames.
+// Falls back to the UI thread where workers are unavailable. Results for superseded states are dropped.
+export const createCollisionAnalyser = (onConflicts: (conflicts: CollisionConflict[]) => void): CollisionAnalyser => {
+  let worker = createEvaluationWorker();
+  let synced: ParadeState | null = null;
+  let requestId = 0;
+
+  const post = (request: EvaluationRequest) => worker!.postMessage(request);
+
+  const analyseInThread = () => {
+    if (synced) onConflicts(analyseCollisions(synced));
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<EvaluationResponse>) => {
+      if (event.data.kind === 'CONFLICTS' && event.data.requestId === requestId) {
+        onConflicts(event.data.conflicts);
+      }
+    };
+    worker.onerror = () => {
+      worker?.terminate();
+      worker = null;
+      analyseInThread();
+    };
+  }
+
+  return {
+    analyse: (state) => {
+      const patch = diffParadeState(synced, state);
+      synced = state;
+      requestId++;
+      if (!worker) {
+        analyseInThread();
+        return;
+      }
+      if (patch) post({ kind: 'PATCH', patch, version: requestId });
+      post({ kind: 'ANALYSE', requestId });
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+    }
+  };
+};
@@ -0,0 +1,34 @@
+/// <reference lib="webworker" />
+import { ParadeState } from '../types';
+import { getParadeStateAtTime } from '../utils/animationUtils';
+import { analyseCollisions } from '../utils/collisionUtils';
+import { applyParadePatch, packFrame, EvaluationRequest, EvaluationResponse } from '../utils/frameSnapshot';
+
+// Evaluates playback frames and collision analysis off the UI thread. Keeps its own copy of
+// the parade, updated by patches, so unchanged tracks keep their cached evaluation between edits.
+
+declare const self: DedicatedWorkerGlobalScope;
+
+let parade: ParadeState | null = null;
+let version = 0;
+
+self.onmessage = (event: MessageEvent<EvaluationRequest>) => {
+  const request = event.data;
+  if (request.kind === 'PATCH') {
+    parade = applyParadePatch(parade, request.patch);
+    version = request.version;
+    return;
+  }
+
+  if (!parade) return;
+  if (request.kind === 'ANALYSE') {
+    const response: EvaluationResponse = { kind: 'CONFLICTS', conflicts: analyseCollisions(parade), requestId: request.requestId };
+    self.postMessage(response);
+    return;
+  }
+
+  const { entities } = getParadeStateAtTime(parade, request.time);
+  const snapshot = packFrame(entities, request.time, version);
+  const response: EvaluationResponse = { kind: 'FRAME', snapshot };
+  self.postMessage(response, [snapshot.poses.buffer, snapshot.postures.buffer]);
+};
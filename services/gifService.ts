@@ -0,0 +1,312 @@
+// Encodes frames drawn onto a canvas into an animated GIF. Everything is done here in plain
+// TypeScript: one palette for the whole animation is cut from sample frames, each frame is
+// mapped onto it, and only the region that changed since the last frame is LZW-compressed.
+
+export interface GifEncodeOptions {
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  renderFrame: (index: number, ctx: CanvasRenderingContext2D) => Promise<void>;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const MAX_COLORS = 256;
+const PALETTE_SAMPLE_FRAMES = 6;
+const PALETTE_SAMPLE_STRIDE = 3; // Every third pixel of a sample frame goes into the histogram
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('GIF export cancelled', 'AbortError');
+};
+
+// --- Palette ---
+// Median cut over a 15 bit colour histogram. The ground is mostly flat colour, so a single
+// palette is plenty and saves every frame carrying its own.
+
+interface ColorBin { r: number; g: number; b: number; count: number }
+
+const histogramKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+const addToHistogram = (histogram: Map<number, ColorBin>, pixels: Uint8ClampedArray, stride: number) => {
+  for (let i = 0; i < pixels.length; i += 4 * stride) {
+    const key = histogramKey(pixels[i], pixels[i + 1], pixels[i + 2]);
+    const bin = histogram.get(key);
+    if (bin) {
+      bin.r += pixels[i];
+      bin.g += pixels[i + 1];
+      bin.b += pixels[i + 2];
+      bin.count++;
+    } else {
+      histogram.set(key, { r: pixels[i], g: pixels[i + 1], b: pixels[i + 2], count: 1 });
+    }
+  }
+};
+
+const channels = ['r', 'g', 'b'] as const;
+
+const getSpread = (bins: ColorBin[]) => channels.map(c => {
+  let min = 255, max = 0;
+  bins.forEach(bin => {
+    const v = bin[c] / bin.count;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  });
+  return max - min;
+});
+
+const cutPalette = (histogram: Map<number, ColorBin>): number[][] => {
+  let boxes: ColorBin[][] = [[...histogram.values()]];
+  while (boxes.length < MAX_COLORS) {
+    // Split the box with the widest, busiest spread along that channel at its median pixel
+    let best = -1, bestScore = 0, bestChannel = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      const spread = getSpread(box);
+      const channel = spread.indexOf(Math.max(...spread));
+      const score = spread[channel] * box.reduce((sum, bin) => sum + bin.count, 0);
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+        bestChannel = channel;
+      }
+    });
+    if (best < 0) break;
+    const c = channels[bestChannel];
+    const box = [...boxes[best]].sort((a, b) => a[c] / a.count - b[c] / b.count);
+    const total = box.reduce((sum, bin) => sum + bin.count, 0);
+    let seen = 0, split = 1;
+    for (; split < box.length - 1; split++) {
+      seen += box[split - 1].count;
+      if (seen >= total / 2) break;
+    }
+    boxes = [...boxes.slice(0, best), box.slice(0, split), box.slice(split), ...boxes.slice(best + 1)];
+  }
+  return boxes.map(box => {
+    const sum = box.reduce((acc, bin) => ({ r: acc.r + bin.r, g: acc.g + bin.g, b: acc.b + bin.b, count: acc.count + bin.count }), { r: 0, g: 0, b: 0, count: 0 });
+    return [sum.r, sum.g, sum.b].map(v => Math.round(v / Math.max(1, sum.count)));
+  });
+};
+
+// Nearest palette entry per colour, remembered: frames repeat the same few colours
+const createColorMapper = (palette: number[][]) => {
+  const cache = new Map<number, number>();
+  return (r: number, g: number, b: number) => {
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      let bestDistance = Infinity;
+      index = 0;
+      for (let i = 0; i < palette.length; i++) {
+        const dr = palette[i][0] - r, dg = palette[i][1] - g, db = palette[i][2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          index = i;
+        }
+      }
+      cache.set(key, index);
+    }
+    return index;
+  };
+};
+
+// --- GIF89a ---
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) this.flush();
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  short(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  private flush() {
+    this.chunks.push(this.buffer.slice(0, this.length));
+    this.length = 0;
+  }
+
+  toBlob(type: string) {
+    this.flush();
+    return new Blob(this.chunks as BlobPart[], { type });
+  }
+}
+
+// Variable code width LZW, written little-endian in sub-blocks of up to 255 bytes
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const block: number[] = [];
+  let bitBuffer = 0, bitCount = 0;
+
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  out.byte(minCodeSize);
+  emit(clearCode, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix * 256 + indices[i];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix, codeSize);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      // Table full: start over rather than grow past 12 bits
+      emit(clearCode, codeSize);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = indices[i];
+  }
+  emit(prefix, codeSize);
+  emit(endCode, codeSize);
+  if (bitCount > 0) emit(0, 8 - bitCount);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0);
+};
+
+interface Rect { x: number; y: number; width: number; height: number }
+
+// Smallest rectangle holding every pixel that differs from the previous frame
+const getChangedRect = (current: Uint8Array, previous: Uint8Array | null, width: number, height: number): Rect | null => {
+  if (!previous) return { x: 0, y: 0, width, height };
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (current[row + x] === previous[row + x]) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const cropIndices = (indices: Uint8Array, width: number, rect: Rect) => {
+  const cropped = new Uint8Array(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = (rect.y + y) * width + rect.x;
+    cropped.set(indices.subarray(start, start + rect.width), y * rect.width);
+  }
+  return cropped;
+};
+
+const writeHeader = (out: ByteWriter, width: number, height: number, palette: number[][], tableBits: number) => {
+  out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+  out.short(width);
+  out.short(height);
+  out.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1)); // Global colour table
+  out.byte(0); // Background colour
+  out.byte(0); // Pixel aspect ratio
+  for (let i = 0; i < 1 << tableBits; i++) out.bytes(palette[i] || [0, 0, 0]);
+  // NETSCAPE2.0: loop forever
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.bytes(Array.from('NETSCAPE2.0', ch => ch.charCodeAt(0)));
+  out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+};
+
+const writeFrame = (out: ByteWriter, indices: Uint8Array, rect: Rect, delay: number, minCodeSize: number) => {
+  // Graphic control: leave the frame in place so the next one only has to paint what changed
+  out.bytes([0x21, 0xf9, 0x04, 0x04]);
+  out.short(delay);
+  out.bytes([0x00, 0x00]);
+  out.byte(0x2c); // Image descriptor
+  out.short(rect.x);
+  out.short(rect.y);
+  out.short(rect.width);
+  out.short(rect.height);
+  out.byte(0);
+  writeLzw(out, indices, minCodeSize);
+};
+
+export const encodeGif = async (options: GifEncodeOptions): Promise<Blob> => {
+  const { width, height, fps, frameCount, renderFrame, onProgress, signal } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+
+  // Palette from frames spread across the range, so colours appearing later are covered
+  const histogram = new Map<number, ColorBin>();
+  const samples = Math.min(frameCount, PALETTE_SAMPLE_FRAMES);
+  for (let s = 0; s < samples; s++) {
+    throwIfAborted(signal);
+    await renderFrame(samples === 1 ? 0 : Math.round(s * (frameCount - 1) / (samples - 1)), ctx);
+    addToHistogram(histogram, ctx.getImageData(0, 0, width, height).data, PALETTE_SAMPLE_STRIDE);
+  }
+  const palette = cutPalette(histogram);
+  const toIndex = createColorMapper(palette);
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const minCodeSize = Math.max(2, tableBits);
+
+  const out = new ByteWriter();
+  writeHeader(out, width, height, palette, tableBits);
+
+  let previous: Uint8Array | null = null;
+  let pendingDelay = 0;
+  let pending: { indices: Uint8Array, rect: Rect } | null = null;
+  for (let i = 0; i < frameCount; i++) {
+    throwIfAborted(signal);
+    await renderFrame(i, ctx);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    const indices = new Uint8Array(width * height);
+    for (let p = 0, q = 0; p < indices.length; p++, q += 4) indices[p] = toIndex(pixels[q], pixels[q + 1], pixels[q + 2]);
+
+    // Delays are whole hundredths of a second; keeping the running total stops drift
+    const delay = Math.round((i + 1) * 100 / fps) - Math.round(i * 100 / fps);
+    const rect = getChangedRect(indices, previous, width, height);
+    if (rect) {
+      if (pending) writeFrame(out, pending.indices, pending.rect, pendingDelay, minCodeSize);
+      pending = { indices: cropIndices(indices, width, rect), rect };
+      pendingDelay = delay;
+      previous = indices;
+    } else {
+      pendingDelay += delay; // Nothing moved: hold the last frame longer instead
+    }
+    onProgress?.((i + 1) / frameCount);
+  }
+  if (pending) writeFrame(out, pending.indices, pending.rect, pendingDelay, minCodeSize);
+  out.byte(0x3b); // Trailer
+
+  return out.toBlob('image/gif');
+};
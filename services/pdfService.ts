@@ -0,0 +1,128 @@
+// A small PDF writer for printed plans: pages carry JPEG images placed at exact physical sizes,
+// plus lines, rectangles and text in the standard Helvetica fonts. Page coordinates are in
+// millimetres from the top left, converted to PDF points (bottom left origin) here.
+
+const MM_TO_PT = 72 / 25.4;
+
+export interface PdfImage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+export interface PdfPage {
+  width: number; // mm
+  height: number;
+  images: PdfImage[];
+  text: (x: number, y: number, size: number, value: string, options?: { bold?: boolean, align?: 'left' | 'center' | 'right' }) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, width?: number) => void;
+  rect: (x: number, y: number, width: number, height: number, options?: { fill?: boolean, stroke?: boolean, lineWidth?: number, gray?: number }) => void;
+  image: (image: PdfImage, x: number, y: number, width: number, height: number) => void;
+  operations: string[];
+}
+
+const fmt = (n: number) => String(Math.round(n * 1000) / 1000);
+
+// Standard fonts use WinAnsi; anything outside printable ASCII is dropped
+const escapeText = (value: string) => value
+  .replace(/[^\x20-\x7e]/g, '')
+  .replace(/[\\()]/g, ch => `\\${ch}`);
+
+// Helvetica's average advance is near half an em; good enough to centre and right-align labels
+const estimateWidth = (value: string, size: number, bold: boolean) => value.length * size * (bold ? 0.58 : 0.53);
+
+export const createPdfPage = (width: number, height: number): PdfPage => {
+  const operations: string[] = [];
+  const images: PdfImage[] = [];
+  const x = (mm: number) => fmt(mm * MM_TO_PT);
+  const y = (mm: number) => fmt((height - mm) * MM_TO_PT);
+
+  return {
+    width,
+    height,
+    images,
+    operations,
+    text: (left, top, size, value, options = {}) => {
+      const sizeMm = size / MM_TO_PT;
+      const offset = options.align === 'center' ? estimateWidth(value, sizeMm, !!options.bold) / 2
+        : options.align === 'right' ? estimateWidth(value, sizeMm, !!options.bold) : 0;
+      // Baseline sits a cap height below the top
+      operations.push(`BT /${options.bold ? 'F2' : 'F1'} ${fmt(size)} Tf ${x(left - offset)} ${y(top + sizeMm * 0.75)} Td (${escapeText(value)}) Tj ET`);
+    },
+    line: (x1, y1, x2, y2, lineWidth = 0.3) => {
+      operations.push(`${fmt(lineWidth * MM_TO_PT)} w ${x(x1)} ${y(y1)} m ${x(x2)} ${y(y2)} l S`);
+    },
+    rect: (left, top, w, h, options = {}) => {
+      const { fill = false, stroke = true, lineWidth = 0.3, gray = 0 } = options;
+      const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+      operations.push(`q ${fmt(gray)} g ${fmt(gray)} G ${fmt(lineWidth * MM_TO_PT)} w ${x(left)} ${y(top + h)} ${fmt(w * MM_TO_PT)} ${fmt(h * MM_TO_PT)} re ${paint} Q`);
+    },
+    image: (image, left, top, w, h) => {
+      images.push(image);
+      operations.push(`q ${fmt(w * MM_TO_PT)} 0 0 ${fmt(h * MM_TO_PT)} ${x(left)} ${y(top + h)} cm /Im${images.length - 1} Do Q`);
+    }
+  };
+};
+
+// --- Writing ---
+
+export const writePdf = (pages: PdfPage[], title: string): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers are handed out up front so pages can refer to each other
+  let nextId = 1;
+  const catalogId = nextId++;
+  const pagesId = nextId++;
+  const infoId = nextId++;
+  const fontIds = [nextId++, nextId++];
+  const pageIds = pages.map(page => ({
+    page: nextId++,
+    contents: nextId++,
+    images: page.images.map(() => nextId++)
+  }));
+
+  const writeObject = (id: number, body: string | Uint8Array[], dictionary?: string) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n`);
+    if (typeof body === 'string') {
+      push(`${body}\nendobj\n`);
+    } else {
+      push(`${dictionary}\nstream\n`);
+      body.forEach(push);
+      push('\nendstream\nendobj\n');
+    }
+  };
+
+  push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  writeObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  writeObject(pagesId, `<< /Type /Pages /Kids [${pageIds.map(p => `${p.page} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(infoId, `<< /Title (${escapeText(title)}) /Producer (Parade Simulator) >>`);
+  writeObject(fontIds[0], '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  writeObject(fontIds[1], '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((page, i) => {
+    const ids = pageIds[i];
+    const xObjects = ids.images.map((id, j) => `/Im${j} ${id} 0 R`).join(' ');
+    writeObject(ids.page, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${fmt(page.width * MM_TO_PT)} ${fmt(page.height * MM_TO_PT)}] /Contents ${ids.contents} 0 R /Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R >> /XObject << ${xObjects} >> >> >>`);
+    const content = encoder.encode(page.operations.join('\n'));
+    writeObject(ids.contents, [content], `<< /Length ${content.length} >>`);
+    page.images.forEach((image, j) => writeObject(ids.images[j], [image.jpeg],
+      `<< /Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>`));
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  push(`trailer\n<< /Size ${nextId} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,103 @@
+import { Entity, ParadeState } from '../types';
+import { getParadeStateAtTime } from '../utils/animationUtils';
+import { diffParadeState, unpackFrame, EvaluationRequest, EvaluationResponse } from '../utils/frameSnapshot';
+
+export interface EvaluatedFrame {
+  time: number;
+  source: Entity[]; // The Time 0 entities the frame was evaluated from
+  entities: Entity[];
+}
+
+export interface PlaybackEvaluator {
+  sync: (state: ParadeState) => void;
+  requestFrame: (time: number) => void;
+  dispose: () => void;
+}
+
+export const createEvaluationWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./evaluationWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+};
+
+// Evaluates playback frames in a Web Worker, falling back to the UI thread where workers are
+// unavailable (or the worker fails to load). Only one frame is in flight at a time; requests
+// made meanwhile collapse into the latest one.
+export const createPlaybackEvaluator = (onFrame: (frame: EvaluatedFrame) => void): PlaybackEvaluator => {
+  let worker = createEvaluationWorker();
+  let synced: ParadeState | null = null;
+  let version = 0;
+  let versionEntities: Entity[] = [];
+  let inFlight = false;
+  let pendingTime: number | null = null;
+  let latestTime = 0;
+
+  const evaluateInThread = (time: number) => {
+    if (!synced) return;
+    onFrame({ time, source: synced.entities, entities: getParadeStateAtTime(synced, time).entities });
+  };
+
+  const post = (request: EvaluationRequest) => worker!.postMessage(request);
+
+  const send = (time: number) => {
+    inFlight = true;
+    post({ kind: 'FRAME', time });
+  };
+
+  const fallBack = () => {
+    worker?.terminate();
+    worker = null;
+    // Answer whatever was still waiting on the worker
+    if (inFlight || pendingTime !== null) evaluateInThread(latestTime);
+    inFlight = false;
+    pendingTime = null;
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<EvaluationResponse>) => {
+      if (event.data.kind !== 'FRAME') return;
+      inFlight = false;
+      const { snapshot } = event.data;
+      // Frames evaluated against entities that have since been replaced are dropped
+      if (snapshot.version === version) {
+        onFrame({ time: snapshot.time, source: versionEntities, entities: unpackFrame(versionEntities, snapshot) });
+      }
+      if (pendingTime !== null) {
+        const time = pendingTime;
+        pendingTime = null;
+        send(time);
+      }
+    };
+    worker.onerror = fallBack;
+  }
+
+  return {
+    sync: (state) => {
+      const patch = diffParadeState(synced, state);
+      synced = state;
+      if (!patch || !worker) return;
+      // Any change may move the frames (tracks, groups and the pace lengths in the config as
+      // well as the entities), so frames already in flight are dropped when they come back
+      version++;
+      if (patch.entities) versionEntities = patch.entities;
+      post({ kind: 'PATCH', patch, version });
+    },
+    requestFrame: (time) => {
+      latestTime = time;
+      if (!worker) {
+        evaluateInThread(time);
+      } else if (inFlight) {
+        pendingTime = time;
+      } else {
+        send(time);
+      }
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+    }
+  };
+};
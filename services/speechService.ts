@@ -0,0 +1,26 @@
+import { CuePhase } from '../utils/cueUtils';
+
+// Words of command spoken through the browser's speech synthesis. The caution is drawn out;
+// the executive word is short, sharp and loud, the way it is given on parade.
+
+const isSpeechAvailable = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const speakWordOfCommand = (text: string, phase: CuePhase) => {
+  if (!isSpeechAvailable() || !text.trim()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.volume = 1;
+  if (phase === 'EXECUTIVE') {
+    utterance.rate = 1.3;
+    utterance.pitch = 1.2;
+    // The executive word is given on its beat, whatever is still being said
+    window.speechSynthesis.cancel();
+  } else {
+    utterance.rate = 0.8;
+    utterance.pitch = 0.9;
+  }
+  window.speechSynthesis.speak(utterance);
+};
+
+export const cancelSpeech = () => {
+  if (isSpeechAvailable()) window.speechSynthesis.cancel();
+};
@@ -1,4 +1,5 @@
-import { ParadeState } from '../types';
+import { ParadeState, AnimationAction, Coordinates } from '../types';
+import { deleteAudio } from './audioService';
 
 const STORAGE_KEY_PREFIX = 'parade_sim_save_';
 const MAX_SLOTS = 3;
@@ -16,22 +17,44 @@ export const saveParade = (state: ParadeState) => {
   } else {
     newSaves.unshift(state); // Add to top
     if (newSaves.length > MAX_SLOTS) {
-      newSaves.pop(); // Remove oldest
+      // Remove oldest, along with its band recording
+      const dropped = newSaves.pop();
+      if (dropped) deleteAudio(dropped.config.id).catch(e => console.error("Failed to delete audio", e));
     }
   }
 
   localStorage.setItem(`${STORAGE_KEY_PREFIX}index`, JSON.stringify(newSaves));
 };
 
+// Older saves stored a single `waypoint` on MOVE payloads
+type LegacyPayload = AnimationAction['payload'] & { waypoint?: Coordinates };
+
+const migrateAnimation = (animation: ParadeState['animation']): ParadeState['animation'] => {
+  if (!animation) return animation;
+  const tracks: ParadeState['animation']['tracks'] = {};
+  Object.entries(animation.tracks || {}).forEach(([ownerId, track]) => {
+    tracks[ownerId] = {
+      ...track,
+      actions: track.actions.map(action => {
+        const { waypoint, ...payload } = action.payload as LegacyPayload;
+        if (!waypoint) return action;
+        return { ...action, payload: { ...payload, waypoints: payload.waypoints || [waypoint] } };
+      })
+    };
+  });
+  return { ...animation, tracks };
+};
+
 export const getSavedParades = (): ParadeState[] => {
   try {
     const data = localStorage.getItem(`${STORAGE_KEY_PREFIX}index`);
     const parsed: ParadeState[] = data ? JSON.parse(data) : [];
     
-    // Migration: Ensure groups object exists
+    // Migration: Ensure groups object exists, lift single waypoints into lists
     return parsed.map(state => ({
       ...state,
-      groups: state.groups || {}
+      groups: state.groups || {},
+      animation: migrateAnimation(state.animation)
     }));
   } catch (e) {
     console.error("Failed to load saves", e);
@@ -0,0 +1,241 @@
+// Encodes frames drawn onto a canvas into a WebM video, all in the browser. WebCodecs does the
+// VP8 encoding where it is available and the chunks are muxed here; otherwise the canvas is
+// recorded in real time with MediaRecorder.
+
+export interface VideoEncodeOptions {
+  width: number; // Even numbers: VP8 encoders reject odd dimensions
+  height: number;
+  fps: number;
+  frameCount: number;
+  renderFrame: (index: number, ctx: CanvasRenderingContext2D) => Promise<void>;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const KEYFRAME_INTERVAL = 2; // Seconds; also the longest a cluster runs
+const MAX_ENCODE_QUEUE = 4;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Video export cancelled', 'AbortError');
+};
+
+// --- WebM (Matroska/EBML) muxing ---
+// Just enough of the format for a single VP8 track: header, segment info, one track and a
+// cluster of SimpleBlocks per keyframe, with every size known up front.
+
+type EbmlValue = Uint8Array | EbmlElement[];
+interface EbmlElement { id: number; value: EbmlValue }
+
+const encodeId = (id: number) => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return Uint8Array.from(bytes);
+};
+
+// Element sizes are variable length integers, with the length marked by the leading bit
+const encodeSize = (size: number) => {
+  let length = 1;
+  while (size >= Math.pow(2, 7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let v = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const uint = (value: number) => {
+  const bytes: number[] = [];
+  let v = Math.round(value);
+  do {
+    bytes.unshift(v & 0xff);
+    v = Math.floor(v / 256);
+  } while (v > 0);
+  return Uint8Array.from(bytes);
+};
+
+const float = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+const el = (id: number, value: EbmlValue): EbmlElement => ({ id, value });
+
+const serialize = (element: EbmlElement): Uint8Array[] => {
+  const body = element.value instanceof Uint8Array ? [element.value] : element.value.flatMap(serialize);
+  const size = body.reduce((sum, part) => sum + part.length, 0);
+  return [encodeId(element.id), encodeSize(size), ...body];
+};
+
+interface EncodedFrame {
+  timestamp: number; // Milliseconds
+  isKey: boolean;
+  data: Uint8Array;
+}
+
+const simpleBlock = (frame: EncodedFrame, clusterTime: number) => {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // Track 1
+  new DataView(header.buffer).setInt16(1, frame.timestamp - clusterTime);
+  header[3] = frame.isKey ? 0x80 : 0;
+  const block = new Uint8Array(header.length + frame.data.length);
+  block.set(header);
+  block.set(frame.data, header.length);
+  return el(0xa3, block);
+};
+
+const muxWebM = (frames: EncodedFrame[], width: number, height: number, duration: number): Blob => {
+  const header = el(0x1a45dfa3, [
+    el(0x4286, uint(1)), // EBMLVersion
+    el(0x42f7, uint(1)), // EBMLReadVersion
+    el(0x42f2, uint(4)), // EBMLMaxIDLength
+    el(0x42f3, uint(8)), // EBMLMaxSizeLength
+    el(0x4282, text('webm')), // DocType
+    el(0x4287, uint(2)), // DocTypeVersion
+    el(0x4285, uint(2)) // DocTypeReadVersion
+  ]);
+
+  // A new cluster at every keyframe keeps block times well inside their 16 bit offsets
+  const clusters: EbmlElement[] = [];
+  let current: { time: number, blocks: EbmlElement[] } | null = null;
+  const closeCluster = () => {
+    if (current) clusters.push(el(0x1f43b675, [el(0xe7, uint(current.time)), ...current.blocks]));
+  };
+  frames.forEach(frame => {
+    if (!current || (frame.isKey && current.blocks.length > 0) || frame.timestamp - current.time > 30000) {
+      closeCluster();
+      current = { time: frame.timestamp, blocks: [] };
+    }
+    current.blocks.push(simpleBlock(frame, current.time));
+  });
+  closeCluster();
+
+  const segment = el(0x18538067, [
+    el(0x1549a966, [ // Info
+      el(0x2ad7b1, uint(1000000)), // TimecodeScale: block times are in milliseconds
+      el(0x4d80, text('Parade Simulator')), // MuxingApp
+      el(0x5741, text('Parade Simulator')), // WritingApp
+      el(0x4489, float(duration)) // Duration
+    ]),
+    el(0x1654ae6b, [ // Tracks
+      el(0xae, [ // TrackEntry
+        el(0xd7, uint(1)), // TrackNumber
+        el(0x73c5, uint(1)), // TrackUID
+        el(0x9c, uint(0)), // FlagLacing
+        el(0x86, text('V_VP8')), // CodecID
+        el(0x83, uint(1)), // TrackType: video
+        el(0xe0, [el(0xb0, uint(width)), el(0xba, uint(height))]) // Video: PixelWidth, PixelHeight
+      ])
+    ]),
+    ...clusters
+  ]);
+
+  return new Blob([...serialize(header), ...serialize(segment)] as BlobPart[], { type: 'video/webm' });
+};
+
+// --- Encoders ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+  return { canvas, ctx };
+};
+
+const getVp8Config = async (width: number, height: number, fps: number): Promise<VideoEncoderConfig | null> => {
+  if (typeof VideoEncoder === 'undefined') return null;
+  const config: VideoEncoderConfig = { codec: 'vp8', width, height, framerate: fps, bitrate: Math.round(width * height * fps * 0.1) };
+  try {
+    const support = await VideoEncoder.isConfigSupported(config);
+    return support.supported ? config : null;
+  } catch {
+    return null;
+  }
+};
+
+// Frames are encoded as fast as they can be drawn, whatever the frame rate
+const encodeWithWebCodecs = async (options: VideoEncodeOptions, config: VideoEncoderConfig): Promise<Blob> => {
+  const { width, height, fps, frameCount, renderFrame, onProgress, signal } = options;
+  const { canvas, ctx } = createCanvas(width, height);
+  const frames: EncodedFrame[] = [];
+  let failure: Error | null = null;
+
+  const encoder = new VideoEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({ timestamp: Math.round(chunk.timestamp / 1000), isKey: chunk.type === 'key', data });
+    },
+    error: e => { failure = e; }
+  });
+  encoder.configure(config);
+
+  try {
+    const keyframeEvery = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL));
+    for (let i = 0; i < frameCount; i++) {
+      throwIfAborted(signal);
+      if (failure) throw failure;
+      await renderFrame(i, ctx);
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(i * 1e6 / fps), duration: Math.round(1e6 / fps) });
+      encoder.encode(frame, { keyFrame: i % keyframeEvery === 0 });
+      frame.close();
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await wait(5);
+      onProgress?.((i + 1) / frameCount);
+    }
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  return muxWebM(frames, width, height, frameCount * 1000 / fps);
+};
+
+// Fallback: the recorder captures in real time, so each frame is held on the canvas for its slot
+const encodeWithRecorder = async (options: VideoEncodeOptions): Promise<Blob> => {
+  const { width, height, fps, frameCount, renderFrame, onProgress, signal } = options;
+  if (typeof MediaRecorder === 'undefined') throw new Error('Video recording is not supported in this browser');
+  const { canvas, ctx } = createCanvas(width, height);
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(t => MediaRecorder.isTypeSupported(t));
+  if (!mimeType) throw new Error('WebM recording is not supported in this browser');
+
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  try {
+    const frameTime = 1000 / fps;
+    const started = performance.now();
+    for (let i = 0; i < frameCount; i++) {
+      throwIfAborted(signal);
+      await renderFrame(i, ctx);
+      track.requestFrame();
+      onProgress?.((i + 1) / frameCount);
+      await wait(Math.max(0, started + (i + 1) * frameTime - performance.now()));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(t => t.stop());
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+export const encodeWebM = async (options: VideoEncodeOptions): Promise<Blob> => {
+  const config = await getVp8Config(options.width, options.height, options.fps);
+  return config ? encodeWithWebCodecs(options, config) : encodeWithRecorder(options);
+};
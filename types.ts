@@ -25,8 +25,16 @@ export enum EntityType {
 }
 
 export interface Coordinates {
-  x: number; // in paces
-  y: number; // in paces
+  x: number; // in (quick-time) paces
+  y: number; // in (quick-time) paces
+}
+
+export interface PathWaypoint extends Coordinates {
+  smooth?: boolean; // Curve through this point instead of turning a sharp corner
+}
+
+export interface Pose extends Coordinates {
+  rotation: number; // degrees, 0 is North
 }
 
 export interface Entity {
@@ -38,6 +46,7 @@ export interface Entity {
   rotation: number; // degrees, 0 is North
   selected?: boolean;
   groupId?: string; // For grouped movement
+  posture?: Posture; // Set on evaluated state while a posture clip is active; unset stands at attention
   // Specific properties for composite entities
   config?: {
     ranks?: number;
@@ -52,6 +61,8 @@ export interface GroupMetadata {
   showLabel: boolean;
   type?: 'CONTINGENT' | 'COLOURS_PARTY' | 'GENERIC';
   rotation: number; // Formation Bearing
+  // Members ungrouped while the group had clips, and when the copy of its track they kept runs out
+  formerMembers?: { entityId: string, leftAt: number }[];
   config?: {
     rows?: number; // For Contingent
     cols?: number; // For Contingent
@@ -63,7 +74,16 @@ export interface GroupMetadata {
 
 // --- Animation Types ---
 
-export type ActionType = 'MOVE' | 'TURN' | 'WHEEL';
+export type ActionType = 'MOVE' | 'TURN' | 'WHEEL' | 'FORMATION_CHANGE' | 'OPEN_ORDER' | 'CLOSE_ORDER' | 'DRESS' | 'POSTURE';
+
+// Clips on different lanes of a track may overlap (e.g. saluting on the march)
+export type ActionLane = 'MOTION' | 'POSTURE';
+
+export type Posture = 'ATTENTION' | 'STAND_AT_EASE' | 'SALUTE' | 'PRESENT_ARMS' | 'COLOURS_LOWERED';
+
+export type MarchMode = 'QUICK' | 'SLOW' | 'MANUAL';
+
+export type MotionProfile = 'LINEAR' | 'EASE_IN' | 'EASE_OUT' | 'EASE_IN_OUT' | 'STEPPED';
 
 export type AnchorPosition = 'TL' | 'TM' | 'TR' | 'CL' | 'C' | 'CR' | 'BL' | 'BM' | 'BR';
 
@@ -72,21 +92,41 @@ export interface AnimationAction {
   type: ActionType;
   startTime: number; // Seconds
   duration: number; // Seconds
+  marchMode?: MarchMode; // QUICK/SLOW derive duration from paces; MANUAL (or unset) keeps the typed duration
+  motionProfile?: MotionProfile; // How progress is distributed over the duration (default LINEAR)
+  label?: string; // Word of command the clip was generated from
   payload: {
-    // For Move
+    // For Move / Turn
+    targetMode?: 'ABSOLUTE' | 'RELATIVE'; // RELATIVE targets are taken from the pose at the clip's start (see targetX/Y, targetRotation)
+
+    // For Move: RELATIVE targets and waypoints are offsets in the owner's frame, x to its right, y to its rear
     targetX?: number;
     targetY?: number;
     movePathMode?: 'DIRECT' | 'ORTHOGONAL';
     orthogonalOrder?: 'X_THEN_Y' | 'Y_THEN_X';
     groupAnchor?: AnchorPosition; // Which point of the group aligns to targetX/Y
-    waypoint?: Coordinates; // Intermediate "Pre-Destination" point
+    waypoints?: PathWaypoint[]; // Ordered intermediate "Pre-Destination" points
     
     // For Turn
-    targetRotation?: number; // 0, 90, 180, 270
+    targetRotation?: number; // 0, 90, 180, 270; RELATIVE turns add this to the bearing (+90 is a right turn)
     
     // For Wheel
     wheelAngle?: number; // usually 90 or -90
-    pivotCorner?: 'TL' | 'TR' | 'BL' | 'BR' | 'CENTER'; // Pivot point
+    pivotCorner?: 'TL' | 'TR' | 'BL' | 'BR' | 'CENTER'; // Pivot point (groups)
+    wheelMode?: 'RIGID' | 'DRILL'; // DRILL (contingents): front-rank inner-flank man marks time as the pivot
+    pivot?: Coordinates; // Pivot point (single entities); unset wheels in place
+    pivotMode?: 'RELATIVE' | 'ABSOLUTE'; // RELATIVE offsets are in the entity's frame: x to its right, y to its rear
+
+    // For Formation Change (contingents)
+    targetRows?: number; // Ranks; used to derive the files when targetCols is unset
+    targetCols?: number; // Files
+    targetBearing?: number; // Bearing of the new formation; unset keeps the current one
+
+    // For Open / Close Order (contingents)
+    orderPaces?: number; // Paces the front rank steps forward and the rear rank back (or the reverse)
+
+    // For Posture: held for the length of the clip
+    posture?: Posture;
   };
 }
 
@@ -99,8 +139,89 @@ export interface AnimationState {
   duration: number; // Total timeline duration in seconds
   tracks: Record<string, AnimationTrack>; // Keyed by ownerId
   trackOrder?: string[]; // Array of ownerIds in display order
+  cues?: CommandCue[]; // Words of command, in their own lane
+  music?: MusicTrack; // Band recording the parade is timed to
+  programme?: ProgrammeEvent[]; // Speeches, anthem etc. where nobody moves
+  programmeMode?: ProgrammeMode; // What lengthening an event does to what follows (default PUSH)
+}
+
+export type ProgrammeEventKind = 'SPEECH' | 'ANTHEM' | 'PRAYER' | 'PRESENTATION' | 'OTHER';
+
+// Pushing moves everything after an event back by however much it grew; warning leaves
+// the timeline alone and only flags movement that now runs into an event
+export type ProgrammeMode = 'PUSH' | 'WARN';
+
+// Part of the running order that isn't drill: not bound to any entity
+export interface ProgrammeEvent {
+  id: string;
+  name: string;
+  kind: ProgrammeEventKind;
+  startTime: number;
+  duration: number;
+}
+
+// Audio the parade is timed against. The recording itself is kept out of the save
+// (see audioService); this holds what is needed to draw and snap to its beat grid.
+export interface MusicTrack {
+  fileName: string;
+  duration: number; // Seconds
+  bpm: number;
+  offset: number; // Seconds from the start of the recording to the first downbeat
+  beatsPerBar: number;
+}
+
+// A word of command: the cautionary part is drawn out ahead of the executive word,
+// which is given on `time` so the movement can start on the following beat
+export interface CommandCue {
+  id: string;
+  time: number; // Executive word, in seconds
+  caution?: string; // e.g. "Parade will advance, right"
+  executive: string; // e.g. "TURN"
+  cautionLead?: number; // Seconds the caution starts before the executive word
+  giverId?: string; // Entity giving the command
 }
 
+// Two track owners whose footprints run into each other during playback
+export interface CollisionConflict {
+  id: string;
+  owners: [string, string]; // Group or entity IDs
+  entityIds: string[]; // Entities that touched
+  start: number; // Seconds
+  end: number; // Seconds
+  actionIds: string[]; // Motion clips in progress during the contact
+}
+
+// Problems found by the parade lint
+export type LintRule = 'OUT_OF_BOUNDS' | 'OVERLAP' | 'MOVE_TOO_FAST' | 'TURN_ANGLE' | 'ORPHAN_TRACK' | 'EMPTY_GROUP' | 'GROUP_TRACK_AFTER_UNGROUP' | 'MOVEMENT_DURING_EVENT';
+
+export interface LintIssue {
+  id: string;
+  rule: LintRule;
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+  entityIds: string[]; // Entities to select when the issue is picked
+  actionId?: string; // Clip to select when the issue is picked
+}
+
+// Problem with one line of a drill script
+export interface ScriptError {
+  line: number; // 1-based
+  message: string;
+}
+
+export interface MarchTempo {
+  quick: number; // paces per minute
+  slow: number; // paces per minute
+}
+
+// Length of a pace in metres for each march; stored distances are always quick-time paces
+export interface PaceLength {
+  quick: number;
+  slow: number;
+}
+
+export type DistanceUnit = 'PACES' | 'METRES';
+
 export interface ParadeConfig {
   id: string;
   title: string;
@@ -108,6 +229,9 @@ export interface ParadeConfig {
   height: number; // paces
   terrain: TerrainType;
   lastModified: number;
+  tempo?: MarchTempo; // Falls back to DEFAULT_MARCH_TEMPO for older saves
+  paceLength?: PaceLength; // Falls back to DEFAULT_PACE_LENGTH for older saves
+  units?: DistanceUnit; // How distances are shown and typed, PACES when unset
 }
 
 export interface ParadeState {
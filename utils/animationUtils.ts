@@ -1,5 +1,8 @@
 
-import { Entity, ParadeState, AnimationAction, GroupMetadata } from '../types';
+import { Entity, EntityType, ParadeState, AnimationAction, AnimationTrack, ActionType, ActionLane, Posture, GroupMetadata, AnchorPosition, Coordinates, MotionProfile, Pose, PathWaypoint } from '../types';
+import { TURN_DRILL_COUNT, WHEEL_PACES_PER_QUARTER, ORDER_STEP_PACES } from '../constants';
+import { toMarchPaces } from './unitUtils';
+import { getFlankMarker, getFormationTargets, getOrderTargets, getDressTargets, getFilesAtTime, getShapeAfter, getRankMembers, FormationMember } from './formationUtils';
 
 // Helper to ease values
 const lerp = (start: number, end: number, t: number) => {
@@ -9,324 +12,683 @@ const lerp = (start: number, end: number, t: number) => {
   return s + (e - s) * ratio;
 };
 
+const easeInOut = (t: number) => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+// Map linear time progress (0-1) onto distance progress for the action's motion profile.
+// `paces` is the number of paces (or drill beats) the action is made up of.
+export const applyMotionProfile = (t: number, profile: MotionProfile = 'LINEAR', paces: number = 1): number => {
+    const p = Math.max(0, Math.min(1, Number.isFinite(t) ? t : 0));
+    switch (profile) {
+        case 'EASE_IN':
+            return p * p;
+        case 'EASE_OUT':
+            return 1 - (1 - p) * (1 - p);
+        case 'EASE_IN_OUT':
+            return easeInOut(p);
+        case 'STEPPED': {
+            // Each pace gets one beat, plus a final beat standing still for the check-pace on halting
+            const count = Math.max(1, Math.round(paces));
+            const beat = p * (count + 1);
+            const index = Math.floor(beat);
+            if (index >= count) return 1;
+            return (index + easeInOut(beat - index)) / count;
+        }
+        default:
+            return p;
+    }
+};
+
+const CURVE_SAMPLES = 16; // Polyline points per curved segment
+
+// Dense polyline a MOVE follows from `start`. Without waypoints this is the direct line or
+// the right-angle elbow; with waypoints it visits each in order, rounding off smooth ones.
+export const getMovePathPoints = (start: Coordinates, payload: AnimationAction['payload']): Coordinates[] => {
+    const target = {
+        x: Number.isFinite(payload.targetX) ? payload.targetX! : start.x,
+        y: Number.isFinite(payload.targetY) ? payload.targetY! : start.y
+    };
+    const waypoints = (payload.waypoints || []).filter(w => Number.isFinite(w.x) && Number.isFinite(w.y));
+
+    if (waypoints.length === 0) {
+        if (payload.movePathMode === 'DIRECT') return [start, target];
+        const elbow = payload.orthogonalOrder === 'Y_THEN_X'
+            ? { x: start.x, y: target.y }
+            : { x: target.x, y: start.y };
+        return [start, elbow, target];
+    }
+
+    const controls: PathWaypoint[] = [{ ...start, smooth: false }, ...waypoints, { ...target, smooth: false }];
+
+    // Catmull-Rom tangent at smooth points, none at corners
+    const tangent = (i: number): Coordinates => {
+        if (!controls[i].smooth || i === 0 || i === controls.length - 1) return { x: 0, y: 0 };
+        return {
+            x: (controls[i + 1].x - controls[i - 1].x) / 2,
+            y: (controls[i + 1].y - controls[i - 1].y) / 2
+        };
+    };
+
+    const points: Coordinates[] = [{ x: start.x, y: start.y }];
+    for (let i = 0; i < controls.length - 1; i++) {
+        const p0 = controls[i];
+        const p1 = controls[i + 1];
+        if (!p0.smooth && !p1.smooth) {
+            points.push({ x: p1.x, y: p1.y });
+            continue;
+        }
+        // Cubic Hermite segment
+        const m0 = tangent(i);
+        const m1 = tangent(i + 1);
+        for (let k = 1; k <= CURVE_SAMPLES; k++) {
+            const t = k / CURVE_SAMPLES;
+            const t2 = t * t;
+            const t3 = t2 * t;
+            const h00 = 2 * t3 - 3 * t2 + 1;
+            const h10 = t3 - 2 * t2 + t;
+            const h01 = -2 * t3 + 3 * t2;
+            const h11 = t3 - t2;
+            points.push({
+                x: h00 * p0.x + h10 * m0.x + h01 * p1.x + h11 * m1.x,
+                y: h00 * p0.y + h10 * m0.y + h01 * p1.y + h11 * m1.y
+            });
+        }
+    }
+    return points;
+};
+
+export const getPolylineLength = (points: Coordinates[]): number => {
+    let total = 0;
+    for (let i = 1; i < points.length; i++) {
+        total += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+    return total;
+};
+
+// Point reached after covering `fraction` of a polyline's arc length
+export const pointAlongPath = (points: Coordinates[], fraction: number): Coordinates => {
+    const last = points[points.length - 1];
+    const total = getPolylineLength(points);
+    if (total <= 0.001) return { x: last.x, y: last.y };
+
+    let remaining = Math.max(0, Math.min(1, fraction)) * total;
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (remaining <= length && length > 0) {
+            return { x: lerp(a.x, b.x, remaining / length), y: lerp(a.y, b.y, remaining / length) };
+        }
+        remaining -= length;
+    }
+    return { x: last.x, y: last.y };
+};
+
+// Distance in paces covered by a MOVE starting at `start`
+export const getMovePathLength = (start: Coordinates, payload: AnimationAction['payload']): number =>
+    getPolylineLength(getMovePathPoints(start, payload));
+
+// Rotate a point clockwise (in screen space) around a pivot
+export const rotateAround = (point: Coordinates, pivot: Coordinates, degrees: number): Coordinates => {
+    const rad = degrees * (Math.PI / 180);
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const dx = point.x - pivot.x;
+    const dy = point.y - pivot.y;
+    return { x: pivot.x + (dx * cos - dy * sin), y: pivot.y + (dx * sin + dy * cos) };
+};
+
+// World position of a single entity's wheel pivot, given its pose when the wheel begins
+export const resolveWheelPivot = (payload: AnimationAction['payload'], start: Pose): Coordinates | null => {
+    const pivot = payload.pivot;
+    if (!pivot || !Number.isFinite(pivot.x) || !Number.isFinite(pivot.y)) return null;
+    if (payload.pivotMode === 'ABSOLUTE') return { x: pivot.x, y: pivot.y };
+    return rotateAround({ x: start.x + pivot.x, y: start.y + pivot.y }, start, start.rotation);
+};
+
+// Inverse of resolveWheelPivot and resolveActionTargets for RELATIVE points: world point -> offset in the owner's frame
+export const toRelativeOffset = (point: Coordinates, start: Pose): Coordinates => {
+    const local = rotateAround(point, start, -start.rotation);
+    return { x: local.x - start.x, y: local.y - start.y };
+};
+
+// Payload of a MOVE or TURN with its targets in world space, given the owner's pose when the
+// clip begins. Relative clips follow wherever earlier clips leave the owner, so editing an
+// early step carries through the rest of the sequence.
+export const resolveActionTargets = (payload: AnimationAction['payload'], start: Pose): AnimationAction['payload'] => {
+    if (payload.targetMode !== 'RELATIVE') return payload;
+    const toWorld = (offset: Coordinates) => rotateAround({ x: start.x + offset.x, y: start.y + offset.y }, start, start.rotation);
+    const target = toWorld({
+        x: Number.isFinite(payload.targetX) ? payload.targetX! : 0,
+        y: Number.isFinite(payload.targetY) ? payload.targetY! : 0
+    });
+    return {
+        ...payload,
+        targetMode: 'ABSOLUTE',
+        targetX: target.x,
+        targetY: target.y,
+        waypoints: payload.waypoints?.map(w => ({ ...w, ...toWorld(w) })),
+        targetRotation: start.rotation + (Number.isFinite(payload.targetRotation) ? payload.targetRotation! : 0)
+    };
+};
+
+// Pivot and outer-flank radius for a drill wheel. The man on the inner flank of the front
+// rank marks time as the pivot (right flank for a right wheel, i.e. positive angles) while
+// the outer file steps out at full pace, so the outer radius sets the number of paces.
+export const getDrillWheelGeometry = (members: (Pose & { type: EntityType })[], angle: number): { pivot: Coordinates, outerRadius: number } | null => {
+    const pivotMan = getFlankMarker(members, angle >= 0 ? 'RIGHT' : 'LEFT');
+    if (!pivotMan) return null;
+
+    const outerRadius = Math.max(...members.map(m => Math.hypot(m.x - pivotMan.x, m.y - pivotMan.y)));
+    return { pivot: { x: pivotMan.x, y: pivotMan.y }, outerRadius };
+};
+
+export const getDrillWheelPaces = (outerRadius: number, angle: number): number =>
+    Math.max(1, outerRadius * Math.abs(angle) * (Math.PI / 180));
+
+export const getActionLane = (type: ActionType): ActionLane => type === 'POSTURE' ? 'POSTURE' : 'MOTION';
+
+// Contingent actions that move each man to his own slot rather than the group as a block
+export const isRankDrillAction = (type: ActionType): boolean =>
+    type === 'FORMATION_CHANGE' || type === 'OPEN_ORDER' || type === 'CLOSE_ORDER' || type === 'DRESS';
+
+// Where each member ends a rank drill action, and the paces of the longest route. `files` is
+// the number of files the contingent is formed in when the action begins.
+export const getRankDrillMovement = (members: FormationMember[], action: AnimationAction, files: number): { targets: Map<string, Pose>, paces: number } => {
+    const { payload } = action;
+    let targets: Map<string, Pose>;
+    if (action.type === 'OPEN_ORDER' || action.type === 'CLOSE_ORDER') {
+        const paces = Number.isFinite(payload.orderPaces) ? payload.orderPaces! : ORDER_STEP_PACES;
+        targets = getOrderTargets(members, files, action.type === 'OPEN_ORDER' ? 'OPEN' : 'CLOSE', paces);
+    } else if (action.type === 'DRESS') {
+        targets = getDressTargets(members, files);
+    } else {
+        targets = getFormationTargets(members, { rows: payload.targetRows, cols: payload.targetCols, bearing: payload.targetBearing });
+    }
+
+    const paces = members.reduce((max, m) => {
+        const target = targets.get(m.id);
+        return target ? Math.max(max, Math.hypot(target.x - m.x, target.y - m.y)) : max;
+    }, 0);
+    return { targets, paces };
+};
+
+// Number of beats an action takes: paces for moves and wheels, drill count for turns.
+// `marchScale` is the paces of the action's own march per stored pace; it scales ground
+// covered but not drill counts.
+export const getActionPaceCount = (action: AnimationAction, start: Coordinates & { rotation?: number }, marchScale: number = 1): number => {
+    if (action.type === 'MOVE') return getMovePathLength(start, resolveActionTargets(action.payload, { rotation: 0, ...start })) * marchScale;
+    if (action.type === 'WHEEL') {
+        const angle = Number.isFinite(action.payload.wheelAngle) ? action.payload.wheelAngle! : 90;
+        const quarterCount = WHEEL_PACES_PER_QUARTER * Math.abs(angle) / 90;
+        const pivot = resolveWheelPivot(action.payload, { rotation: 0, ...start });
+        if (!pivot) return quarterCount;
+        // Wide wheels take as many paces as the arc is long; tight ones still keep the drill count
+        const arc = Math.hypot(start.x - pivot.x, start.y - pivot.y) * Math.abs(angle) * (Math.PI / 180);
+        return Math.max(quarterCount, arc * marchScale);
+    }
+    return TURN_DRILL_COUNT;
+};
+
+// Resolve which point of a group's bounding box an anchor refers to
+export const getGroupAnchor = (entities: Entity[], groupId: string, anchorType: AnchorPosition = 'TL'): Coordinates => {
+    const members = entities.filter(e => e.groupId === groupId);
+    if (members.length === 0) return { x: 0, y: 0 };
+
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    members.forEach(m => {
+        if (m.x < minX) minX = m.x;
+        if (m.x > maxX) maxX = m.x;
+        if (m.y < minY) minY = m.y;
+        if (m.y > maxY) maxY = m.y;
+    });
+
+    const midX = (minX + maxX) / 2;
+    const midY = (minY + maxY) / 2;
+
+    let ax = minX, ay = minY;
+    if (anchorType.includes('M') || anchorType === 'C') ax = midX;
+    if (anchorType.includes('R')) ax = maxX;
+    if (anchorType.includes('C') || anchorType.includes('CL') || anchorType.includes('CR')) ay = midY;
+    if (anchorType.includes('B')) ay = maxY;
+
+    return { x: ax, y: ay };
+};
+
+// Pose of a track's owner among the given entities: a group is measured from the given anchor
+// of its formation and faces the way its members do
+const getOwnerPose = (entities: Entity[], groups: Record<string, GroupMetadata>, ownerId: string, anchor: AnchorPosition): Pose | null => {
+    if (groups[ownerId]) {
+        const members = entities.filter(e => e.groupId === ownerId);
+        if (members.length === 0) return null;
+        return { ...getGroupAnchor(entities, ownerId, anchor), rotation: members[0].rotation };
+    }
+    const entity = entities.find(e => e.id === ownerId);
+    return entity ? { x: entity.x, y: entity.y, rotation: entity.rotation } : null;
+};
+
+// Pose the owner's path is measured from when the action begins, as playback has it
+export const getActionStartPose = (parade: ParadeState, ownerId: string, action: AnimationAction): Pose | null =>
+    getOwnerPose(getParadeStateAtTime(parade, action.startTime).entities, parade.groups, ownerId, action.payload.groupAnchor || 'TL');
+
+// Pose each owner is in at the start of every clip, taken from the evaluated state so wheels,
+// formation changes and overlapping clips leave paths exactly where playback does. Paths on the
+// canvas and in exports are drawn from these. `parade` must be the layout, not a playback frame.
+export const getClipStartPoses = (parade: ParadeState): Map<string, Pose> => {
+    const starts = new Map<string, Pose>();
+    const clips = (Object.values(parade.animation?.tracks || {}) as AnimationTrack[])
+        .flatMap(track => track.actions.map(action => ({ ownerId: track.ownerId, action })))
+        .sort((a, b) => a.action.startTime - b.action.startTime);
+
+    // Clips starting together share one evaluated frame
+    let frameTime = NaN;
+    let entities = parade.entities;
+    clips.forEach(({ ownerId, action }) => {
+        if (action.startTime !== frameTime) {
+            frameTime = action.startTime;
+            entities = getParadeStateAtTime(parade, frameTime).entities;
+        }
+        const pose = getOwnerPose(entities, parade.groups, ownerId, action.payload.groupAnchor || 'TL');
+        if (pose) starts.set(action.id, pose);
+    });
+    return starts;
+};
+
+type MemberPose = { x: number, y: number, rot: number };
+
+// Paces of the action's own march per stored pace, so stepped clips take a beat per pace
+// marched. `slowScale` is the parade's figure for slow time.
+const getMarchScale = (action: AnimationAction, slowScale: number) => action.marchMode === 'SLOW' ? slowScale : 1;
+
+// Advance a single entity through one action, up to `time` (progress is clamped at the action's end)
+const applyEntityAction = (pose: MemberPose, action: AnimationAction, time: number, slowScale: number) => {
+    const duration = Math.max(0.001, action.duration); // Prevent div by zero
+    const progress = (time - action.startTime) / duration;
+    
+    // Capture state at start of this action (inherited from previous actions)
+    const startX = pose.x;
+    const startY = pose.y;
+    const startRot = pose.rot;
+
+    const paces = getActionPaceCount(action, { x: startX, y: startY, rotation: startRot }, getMarchScale(action, slowScale));
+    const clampedProgress = applyMotionProfile(progress, action.motionProfile, paces);
+    const payload = resolveActionTargets(action.payload, { x: startX, y: startY, rotation: startRot });
+
+    if (action.type === 'MOVE') {
+        // Path points default a missing target to the start to prevent jumping to 0
+        const pos = pointAlongPath(getMovePathPoints({ x: startX, y: startY }, payload), clampedProgress);
+        pose.x = pos.x;
+        pose.y = pos.y;
+    } else if (action.type === 'TURN') {
+        const targetRot = Number.isFinite(payload.targetRotation) ? payload.targetRotation! : startRot;
+        pose.rot = lerp(startRot, targetRot, clampedProgress);
+        // IMPORTANT: Do NOT touch x/y here. They retain values from `startX/startY`.
+    } else if (action.type === 'WHEEL') {
+        // Single entity wheeling: orbit the pivot if one is set, otherwise wheel in place
+        const angle = action.payload.wheelAngle || 90;
+        const pivot = resolveWheelPivot(action.payload, { x: startX, y: startY, rotation: startRot });
+        if (pivot) {
+            const pos = rotateAround({ x: startX, y: startY }, pivot, angle * clampedProgress);
+            pose.x = pos.x;
+            pose.y = pos.y;
+        }
+        pose.rot = startRot + angle * clampedProgress;
+    }
+};
+
+// --- Evaluation cache ---
+// Evaluating a frame used to replay every action of every track from t=0. Instead each track
+// keeps the poses its owner has settled into once each prefix of its clips has finished, so a
+// frame only replays the clips still running. Caches hang off the track object: edits replace
+// the tracks they touch, so untouched tracks keep their cache.
+
+interface TrackCache {
+    group?: GroupMetadata;
+    memberIds: string[];
+    startKey: number[]; // x, y, rotation of each member when the cache was built
+    slowScale: number;
+    actions: AnimationAction[]; // Motion clips in start order
+    latestEnd: number[]; // latestEnd[i]: when the last of actions[0..i] has finished
+    settled: Map<string, MemberPose>[]; // settled[i]: poses once actions[0..i-1] have all finished
+}
+
+const trackCaches = new WeakMap<AnimationTrack, TrackCache>();
+
+// Index of entity positions by id and by group, built once per entities array
+interface EntityIndex {
+    byId: Map<string, number>;
+    byGroup: Map<string, number[]>;
+}
+
+const entityIndexes = new WeakMap<Entity[], EntityIndex>();
+
+const getEntityIndex = (entities: Entity[]): EntityIndex => {
+    let index = entityIndexes.get(entities);
+    if (!index) {
+        index = { byId: new Map(), byGroup: new Map() };
+        entities.forEach((e, i) => {
+            index!.byId.set(e.id, i);
+            if (e.groupId) {
+                const members = index!.byGroup.get(e.groupId) || [];
+                members.push(i);
+                index!.byGroup.set(e.groupId, members);
+            }
+        });
+        entityIndexes.set(entities, index);
+    }
+    return index;
+};
+
+const cloneMemberState = (state: Map<string, MemberPose>) => {
+    const copy = new Map<string, MemberPose>();
+    state.forEach((pose, id) => copy.set(id, { ...pose }));
+    return copy;
+};
+
+const applyTrackAction = (state: Map<string, MemberPose>, members: Entity[], group: GroupMetadata | undefined, actions: AnimationAction[], action: AnimationAction, time: number, slowScale: number) => {
+    if (group) {
+        applyGroupAction(state, members, group, actions, action, time, slowScale);
+    } else {
+        const pose = state.get(members[0].id);
+        if (pose) applyEntityAction(pose, action, time, slowScale);
+    }
+};
+
+// Reuse the track's cache unless its clips, group, slow pace or the poses its owner starts from have changed
+const getTrackCache = (track: AnimationTrack, group: GroupMetadata | undefined, members: Entity[], slowScale: number): TrackCache => {
+    const startKey: number[] = [];
+    members.forEach(m => startKey.push(m.x, m.y, m.rotation));
+
+    const cached = trackCaches.get(track);
+    if (cached && cached.group === group && cached.slowScale === slowScale
+        && cached.memberIds.length === members.length && members.every((m, i) => cached.memberIds[i] === m.id)
+        && cached.startKey.every((v, i) => v === startKey[i])) {
+        return cached;
+    }
+
+    const actions = track.actions
+        .filter(a => getActionLane(a.type) === 'MOTION')
+        .sort((a, b) => a.startTime - b.startTime);
+    const latestEnd: number[] = [];
+    actions.forEach((a, i) => latestEnd.push(Math.max(i > 0 ? latestEnd[i - 1] : -Infinity, a.startTime + Math.max(0.001, a.duration))));
+
+    const initial = new Map<string, MemberPose>();
+    members.forEach(m => initial.set(m.id, { x: m.x, y: m.y, rot: m.rotation }));
+
+    const cache: TrackCache = { group, memberIds: members.map(m => m.id), startKey, slowScale, actions, latestEnd, settled: [initial] };
+    trackCaches.set(track, cache);
+    return cache;
+};
+
+// Retiming and script parsing build a track up a clip at a time, each clip timed from where the
+// ones before leave its owner. Appending through here extends the track's cache rather than
+// replaying the track from t=0 for every clip, so the track must not be shared while it grows.
+export const appendTrackAction = (track: AnimationTrack, action: AnimationAction) => {
+    track.actions.push(action);
+    const cache = trackCaches.get(track);
+    if (!cache || getActionLane(action.type) !== 'MOTION') return;
+    const last = cache.actions.length - 1;
+    if (last >= 0 && action.startTime < cache.actions[last].startTime) {
+        trackCaches.delete(track); // Lands among the settled clips, so replay once instead
+        return;
+    }
+    cache.actions.push(action);
+    cache.latestEnd.push(Math.max(last >= 0 ? cache.latestEnd[last] : -Infinity, action.startTime + Math.max(0.001, action.duration)));
+};
+
+// Settled poses are filled in lazily, so playing forward only ever extends the cache
+const getSettledState = (cache: TrackCache, count: number, members: Entity[]) => {
+    while (cache.settled.length <= count) {
+        const i = cache.settled.length - 1;
+        const action = cache.actions[i];
+        const next = cloneMemberState(cache.settled[i]);
+        applyTrackAction(next, members, cache.group, cache.actions, action, action.startTime + Math.max(0.001, action.duration), cache.slowScale);
+        cache.settled.push(next);
+    }
+    return cache.settled[count];
+};
+
+const evaluateTrack = (track: AnimationTrack, group: GroupMetadata | undefined, members: Entity[], time: number, slowScale: number) => {
+    const cache = getTrackCache(track, group, members, slowScale);
+    const { actions, latestEnd } = cache;
+
+    // Number of leading clips that have all finished by `time` (latestEnd is non-decreasing)
+    let lo = 0, hi = actions.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (latestEnd[mid] <= time) lo = mid + 1;
+        else hi = mid;
+    }
+
+    const state = cloneMemberState(getSettledState(cache, lo, members));
+    for (let i = lo; i < actions.length && actions[i].startTime <= time; i++) {
+        applyTrackAction(state, members, group, actions, actions[i], time, slowScale);
+    }
+    return state;
+};
+
 // Calculate the state of all entities at a specific time t
 export const getParadeStateAtTime = (baseState: ParadeState, time: number): { entities: Entity[], groups: Record<string, GroupMetadata> } => {
-    // 1. Deep copy initial state (Time = 0) to avoid mutating history
-    let currentEntities = baseState.entities.map(e => ({ 
-        ...e,
-        x: Number.isFinite(e.x) ? e.x : 0,
-        y: Number.isFinite(e.y) ? e.y : 0,
-        rotation: Number.isFinite(e.rotation) ? e.rotation : 0
-    }));
-    let currentGroups = JSON.parse(JSON.stringify(baseState.groups));
+    // 1. Start from the Time 0 entities; only entities a track moves are copied
+    const currentEntities: Entity[] = baseState.entities.map(e =>
+        Number.isFinite(e.x) && Number.isFinite(e.y) && Number.isFinite(e.rotation) && e.posture === undefined ? e : {
+            ...e,
+            x: Number.isFinite(e.x) ? e.x : 0,
+            y: Number.isFinite(e.y) ? e.y : 0,
+            rotation: Number.isFinite(e.rotation) ? e.rotation : 0,
+            posture: undefined // Only ever set by posture clips below, never carried over from a saved edit
+        });
+    const index = getEntityIndex(baseState.entities);
+    const ownerIndexes = (ownerId: string) => baseState.groups[ownerId]
+        ? index.byGroup.get(ownerId) || []
+        : index.byId.has(ownerId) ? [index.byId.get(ownerId)!] : [];
 
     // 2. Identify all track owners
     const trackIds = Object.keys(baseState.animation.tracks);
+    const slowScale = toMarchPaces(1, baseState.config, 'SLOW');
 
     // 3. Process tracks
     trackIds.forEach(ownerId => {
         const track = baseState.animation.tracks[ownerId];
         if (!track || !track.actions.length) return;
 
-        // Sort actions by start time
-        const actions = [...track.actions].sort((a, b) => a.startTime - b.startTime);
+        const indexes = ownerIndexes(ownerId);
+        if (indexes.length === 0) return; // Track exists for non-existent owner, skip
 
-        // Check if this owner is a Group
-        const isGroup = !!baseState.groups[ownerId];
+        // Start from where the owner stands now (earlier tracks may already have moved members)
+        const members = indexes.map(i => currentEntities[i]);
+        const state = evaluateTrack(track, baseState.groups[ownerId], members, time, slowScale);
 
-        if (isGroup) {
-            applyGroupTransform(currentEntities, ownerId, actions, time);
-            return;
-        }
+        // Write back final calculated state
+        indexes.forEach(i => {
+            const entity = currentEntities[i];
+            const pose = state.get(entity.id);
+            if (!pose) return;
+            currentEntities[i] = {
+                ...entity,
+                x: Number.isFinite(pose.x) ? pose.x : entity.x,
+                y: Number.isFinite(pose.y) ? pose.y : entity.y,
+                rotation: Number.isFinite(pose.rot) ? pose.rot : entity.rotation
+            };
+        });
+    });
 
-        // --- Single Entity Logic ---
-        const entity = currentEntities.find(e => e.id === ownerId);
-        if (!entity) return; // Track exists for non-existent entity, skip
+    // 4. Postures: group clips first so a member's own track can override them
+    const postureOwners = [...trackIds].sort((a, b) => Number(!baseState.groups[a]) - Number(!baseState.groups[b]));
+    postureOwners.forEach(ownerId => {
+        const posture = getPostureAtTime(baseState.animation.tracks[ownerId]?.actions || [], time);
+        if (!posture) return;
+        ownerIndexes(ownerId).forEach(i => {
+            currentEntities[i] = { ...currentEntities[i], posture };
+        });
+    });
 
-        // Initialize trackers with the entity's base position (Time 0)
-        let currentX = entity.x;
-        let currentY = entity.y;
-        let currentRot = entity.rotation;
+    // 5. Contingents that have finished re-forming stand in their new ranks and files; groups
+    // are otherwise shared rather than copied
+    let groups = baseState.groups;
+    trackIds.forEach(ownerId => {
+        const group = baseState.groups[ownerId];
+        if (group?.type !== 'CONTINGENT') return;
+        const members = ownerIndexes(ownerId).map(i => baseState.entities[i]);
+        const shape = getShapeAfter(baseState.animation.tracks[ownerId]?.actions || [], time, getRankMembers(members).length);
+        if (!shape || (group.config?.rows === shape.rows && group.config?.cols === shape.cols)) return;
+        if (groups === baseState.groups) groups = { ...groups };
+        groups[ownerId] = { ...group, config: { ...group.config, ...shape } };
+    });
 
-        for (const action of actions) {
-            // Optimization: If action starts after current time, we don't process it, 
-            // BUT we must process all previous actions fully to get the correct start point for this frame.
-            // However, since we re-calculate from Time 0 every frame, we must process everything up to `time`.
-            if (time < action.startTime) break;
+    return { entities: currentEntities, groups };
+};
 
-            const duration = Math.max(0.001, action.duration); // Prevent div by zero
-            const progress = (time - action.startTime) / duration;
-            const clampedProgress = Math.max(0, Math.min(1, progress));
-            
-            // Capture state at start of this action (inherited from previous actions)
-            const startX = currentX;
-            const startY = currentY;
-            const startRot = currentRot;
-
-            if (action.type === 'MOVE') {
-                // Determine target, defaulting to start if undefined to prevent jumping to 0
-                const targetX = Number.isFinite(action.payload.targetX) ? action.payload.targetX! : startX;
-                const targetY = Number.isFinite(action.payload.targetY) ? action.payload.targetY! : startY;
-
-                // Move Logic
-                if (action.payload.waypoint) {
-                    const wx = Number.isFinite(action.payload.waypoint.x) ? action.payload.waypoint.x : startX;
-                    const wy = Number.isFinite(action.payload.waypoint.y) ? action.payload.waypoint.y : startY;
-                    
-                    const d1 = Math.sqrt(Math.pow(wx - startX, 2) + Math.pow(wy - startY, 2));
-                    const d2 = Math.sqrt(Math.pow(targetX - wx, 2) + Math.pow(targetY - wy, 2));
-                    const totalDist = d1 + d2;
-                    
-                    if (totalDist <= 0.001) {
-                        currentX = targetX;
-                        currentY = targetY;
-                    } else {
-                        const splitPoint = d1 / totalDist;
-                        if (clampedProgress <= splitPoint) {
-                            const p = splitPoint === 0 ? 1 : clampedProgress / splitPoint;
-                            currentX = lerp(startX, wx, p);
-                            currentY = lerp(startY, wy, p);
-                        } else {
-                            const p = (clampedProgress - splitPoint) / (1 - splitPoint);
-                            currentX = lerp(wx, targetX, p);
-                            currentY = lerp(wy, targetY, p);
-                        }
-                    }
-                } else if (action.payload.movePathMode === 'DIRECT') {
-                    currentX = lerp(startX, targetX, clampedProgress);
-                    currentY = lerp(startY, targetY, clampedProgress);
-                } else {
-                    // Orthogonal
-                    const distX = targetX - startX;
-                    const distY = targetY - startY;
-                    const totalDist = Math.abs(distX) + Math.abs(distY);
-                    
-                    if (totalDist <= 0.001) {
-                        currentX = targetX;
-                        currentY = targetY;
-                    } else {
-                        const fracX = Math.abs(distX) / totalDist;
-                        if (action.payload.orthogonalOrder === 'Y_THEN_X') {
-                             const fracY = Math.abs(distY) / totalDist;
-                             if (clampedProgress < fracY) {
-                                 currentX = startX;
-                                 currentY = lerp(startY, targetY, clampedProgress / fracY);
-                             } else {
-                                 currentX = lerp(startX, targetX, (clampedProgress - fracY) / (1 - fracY));
-                                 currentY = targetY;
-                             }
-                        } else {
-                            // X Then Y
-                            if (clampedProgress < fracX) {
-                                currentX = lerp(startX, targetX, clampedProgress / fracX);
-                                currentY = startY;
-                            } else {
-                                currentX = targetX;
-                                currentY = lerp(startY, targetY, (clampedProgress - fracX) / (1 - fracX));
-                            }
-                        }
-                    }
-                }
-            } else if (action.type === 'TURN') {
-                const targetRot = Number.isFinite(action.payload.targetRotation) ? action.payload.targetRotation! : startRot;
-                currentRot = lerp(startRot, targetRot, clampedProgress);
-                // IMPORTANT: Do NOT touch currentX/currentY here. They retain values from `startX/startY`.
-            } else if (action.type === 'WHEEL') {
-                // Single entity wheeling (orbiting a point)
-                 const angle = action.payload.wheelAngle || 90;
-                 // const rad = (angle * (Math.PI / 180)) * clampedProgress;
-                 // const cos = Math.cos(rad);
-                 // const sin = Math.sin(rad);
-
-                 // Pivot defaults to entity center if not specified? 
-                 // For single entity, wheel usually means rotate around a point.
-                 // If pivotCorner is CENTER, it just rotates in place (like Turn).
-                 // We need a pivot point relative to entity.
-                 // Assuming pivot is (0,0) relative to entity for now unless we add 'Pivot Point' to payload.
-                 // Effectively TURN for single entity unless we implement complex pivot logic.
-                 // For safety, behave like TURN + rotation around self.
-                 currentRot += angle * clampedProgress;
-            }
-        }
+// Posture held by the clip active at `time`, if any
+export const getPostureAtTime = (actions: AnimationAction[], time: number): Posture | undefined => {
+    const active = actions.find(a => a.type === 'POSTURE' && time >= a.startTime && time < a.startTime + a.duration);
+    return active?.payload.posture;
+};
 
-        // Write back final calculated state
-        if (Number.isFinite(currentX)) entity.x = currentX;
-        if (Number.isFinite(currentY)) entity.y = currentY;
-        if (Number.isFinite(currentRot)) entity.rotation = currentRot;
-    });
+// Rank drill targets only depend on where the members stand when the clip begins, so the
+// assignment is worked out once per clip rather than every frame
+const rankDrillCache = new WeakMap<AnimationAction, { key: number[], movement: ReturnType<typeof getRankDrillMovement> }>();
 
-    return { entities: currentEntities, groups: currentGroups };
+const getClipRankDrillMovement = (members: FormationMember[], action: AnimationAction, files: number) => {
+    const key = [files];
+    members.forEach(m => key.push(m.x, m.y, m.rotation));
+    const cached = rankDrillCache.get(action);
+    if (cached && cached.key.length === key.length && cached.key.every((v, i) => v === key[i])) return cached.movement;
+    const movement = getRankDrillMovement(members, action, files);
+    rankDrillCache.set(action, { key, movement });
+    return movement;
 };
 
-// Helper to apply group transformations
-const applyGroupTransform = (entities: Entity[], groupId: string, actions: AnimationAction[], time: number) => {
-    // Get group members in the mutable array
-    const members = entities.filter(e => e.groupId === groupId);
-    if (members.length === 0) return;
-
-    // Track state of members relative to Time 0
-    const memberState = new Map<string, { x: number, y: number, rot: number }>();
-    members.forEach(e => {
-        memberState.set(e.id, { 
-            x: Number.isFinite(e.x) ? e.x : 0, 
-            y: Number.isFinite(e.y) ? e.y : 0, 
-            rot: Number.isFinite(e.rotation) ? e.rotation : 0 
-        });
-    });
+// Advance a group's members through one action, up to `time` (progress is clamped at the action's end)
+const applyGroupAction = (memberState: Map<string, MemberPose>, members: Entity[], group: GroupMetadata, actions: AnimationAction[], action: AnimationAction, time: number, slowScale: number) => {
+    const duration = Math.max(0.001, action.duration);
+    const marchScale = getMarchScale(action, slowScale);
+    const rawProgress = (time - action.startTime) / duration;
+    
+    if (action.type === 'MOVE') {
+         // Calculate Bounding Box of CURRENT state (start of this action)
+         let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+         for (const s of memberState.values()) {
+             if (s.x < minX) minX = s.x;
+             if (s.x > maxX) maxX = s.x;
+             if (s.y < minY) minY = s.y;
+             if (s.y > maxY) maxY = s.y;
+         }
+         
+         if (!Number.isFinite(minX)) { minX=0; maxX=0; minY=0; maxY=0; }
+         
+         const anchorType = action.payload.groupAnchor || 'TL';
+         let startAnchorX = minX;
+         let startAnchorY = minY;
 
-    for (const action of actions) {
-        if (time < action.startTime) break;
+         const midX = (minX + maxX) / 2;
+         const midY = (minY + maxY) / 2;
+         if (anchorType.includes('M') || anchorType === 'C') startAnchorX = midX;
+         if (anchorType.includes('R')) startAnchorX = maxX;
+         if (anchorType.includes('C') || anchorType.includes('CL') || anchorType.includes('CR')) startAnchorY = midY;
+         if (anchorType.includes('B')) startAnchorY = maxY;
 
-        const duration = Math.max(0.001, action.duration);
-        const progress = Math.min(1, Math.max(0, (time - action.startTime) / duration));
-        
-        if (action.type === 'MOVE') {
-             // Calculate Bounding Box of CURRENT state (start of this action)
-             let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-             for (const s of memberState.values()) {
-                 if (s.x < minX) minX = s.x;
-                 if (s.x > maxX) maxX = s.x;
-                 if (s.y < minY) minY = s.y;
-                 if (s.y > maxY) maxY = s.y;
-             }
-             
-             if (!Number.isFinite(minX)) { minX=0; maxX=0; minY=0; maxY=0; }
-             
-             const anchorType = action.payload.groupAnchor || 'TL';
-             let startAnchorX = minX;
-             let startAnchorY = minY;
-
-             const midX = (minX + maxX) / 2;
-             const midY = (minY + maxY) / 2;
-             if (anchorType.includes('M') || anchorType === 'C') startAnchorX = midX;
-             if (anchorType.includes('R')) startAnchorX = maxX;
-             if (anchorType.includes('C') || anchorType.includes('CL') || anchorType.includes('CR')) startAnchorY = midY;
-             if (anchorType.includes('B')) startAnchorY = maxY;
-
-             const targetX = Number.isFinite(action.payload.targetX) ? action.payload.targetX! : startAnchorX;
-             const targetY = Number.isFinite(action.payload.targetY) ? action.payload.targetY! : startAnchorY;
-
-             let currentAnchorX = startAnchorX;
-             let currentAnchorY = startAnchorY;
-             
-             // Reuse interpolation logic logic (simplified)
-             if (action.payload.waypoint) {
-                  const wx = Number.isFinite(action.payload.waypoint.x) ? action.payload.waypoint.x : startAnchorX;
-                  const wy = Number.isFinite(action.payload.waypoint.y) ? action.payload.waypoint.y : startAnchorY;
-                  
-                  const d1 = Math.sqrt(Math.pow(wx - startAnchorX, 2) + Math.pow(wy - startAnchorY, 2));
-                  const d2 = Math.sqrt(Math.pow(targetX - wx, 2) + Math.pow(targetY - wy, 2));
-                  const total = d1 + d2;
-                  if (total > 0.001) {
-                      const split = d1/total;
-                      if (progress <= split) {
-                          const p = split===0?1:progress/split;
-                          currentAnchorX = lerp(startAnchorX, wx, p);
-                          currentAnchorY = lerp(startAnchorY, wy, p);
-                      } else {
-                          const p = (progress-split)/(1-split);
-                          currentAnchorX = lerp(wx, targetX, p);
-                          currentAnchorY = lerp(wy, targetY, p);
-                      }
-                  }
-             } else if (action.payload.movePathMode === 'DIRECT') {
-                 currentAnchorX = lerp(startAnchorX, targetX, progress);
-                 currentAnchorY = lerp(startAnchorY, targetY, progress);
-             } else {
-                 // Orthogonal
-                 const dx = targetX - startAnchorX;
-                 const dy = targetY - startAnchorY;
-                 const td = Math.abs(dx) + Math.abs(dy);
-                 if (td > 0.001) {
-                     const fx = Math.abs(dx)/td;
-                     if (action.payload.orthogonalOrder === 'Y_THEN_X') {
-                         const fy = Math.abs(dy)/td;
-                         if (progress < fy) {
-                             currentAnchorY = lerp(startAnchorY, targetY, progress/fy);
-                         } else {
-                             currentAnchorY = targetY;
-                             currentAnchorX = lerp(startAnchorX, targetX, (progress-fy)/(1-fy));
-                         }
-                     } else {
-                         if (progress < fx) {
-                             currentAnchorX = lerp(startAnchorX, targetX, progress/fx);
-                         } else {
-                             currentAnchorX = targetX;
-                             currentAnchorY = lerp(startAnchorY, targetY, (progress-fx)/(1-fx));
-                         }
-                     }
-                 }
-             }
-
-             const deltaX = currentAnchorX - startAnchorX;
-             const deltaY = currentAnchorY - startAnchorY;
-
-             if (Number.isFinite(deltaX) && Number.isFinite(deltaY)) {
-                for (const s of memberState.values()) {
-                    s.x += deltaX;
-                    s.y += deltaY;
-                }
-             }
-        }
-        else if (action.type === 'TURN') {
-            const first = memberState.values().next().value;
-            const startRot = first ? first.rot : 0;
-            const targetRot = Number.isFinite(action.payload.targetRotation) ? action.payload.targetRotation! : startRot;
-            const deltaRot = (targetRot - startRot) * progress;
-            
-            if (Number.isFinite(deltaRot)) {
-                for (const s of memberState.values()) {
-                    s.rot += deltaRot;
-                }
-            }
-        }
-        else if (action.type === 'WHEEL') {
-            const angle = action.payload.wheelAngle || 90;
-            const rad = (angle * (Math.PI / 180)) * progress;
-            const cos = Math.cos(rad);
-            const sin = Math.sin(rad);
-
-            let pivotX = 0, pivotY = 0;
-            let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+         // Relative moves are measured along the formation's bearing
+         const first = memberState.values().next().value;
+         const start: Pose = { x: startAnchorX, y: startAnchorY, rotation: first ? first.rot : 0 };
+         const paces = getActionPaceCount(action, start, marchScale);
+         const progress = applyMotionProfile(rawProgress, action.motionProfile, paces);
+
+         // Progress is distributed by arc length across every segment of the path
+         const anchorPos = pointAlongPath(getMovePathPoints(start, resolveActionTargets(action.payload, start)), progress);
+         const currentAnchorX = anchorPos.x;
+         const currentAnchorY = anchorPos.y;
+
+         const deltaX = currentAnchorX - startAnchorX;
+         const deltaY = currentAnchorY - startAnchorY;
+
+         if (Number.isFinite(deltaX) && Number.isFinite(deltaY)) {
             for (const s of memberState.values()) {
-                minX = Math.min(minX, s.x);
-                maxX = Math.max(maxX, s.x);
-                minY = Math.min(minY, s.y);
-                maxY = Math.max(maxY, s.y);
+                s.x += deltaX;
+                s.y += deltaY;
             }
-            if (!Number.isFinite(minX)) { minX=0; maxX=0; minY=0; maxY=0; }
-
-            if (action.payload.pivotCorner === 'CENTER') {
-                 pivotX = (minX + maxX) / 2;
-                 pivotY = (minY + maxY) / 2;
-            } else if (action.payload.pivotCorner === 'BL') {
-                 pivotX = minX; pivotY = maxY;
-            } else if (action.payload.pivotCorner === 'BR') {
-                 pivotX = maxX; pivotY = maxY;
-            } else if (action.payload.pivotCorner === 'TR') {
-                 pivotX = maxX; pivotY = minY;
-            } else {
-                 pivotX = minX; pivotY = minY;
-            }
-
+         }
+    }
+    else if (action.type === 'TURN') {
+        const progress = applyMotionProfile(rawProgress, action.motionProfile, TURN_DRILL_COUNT);
+        const first = memberState.values().next().value;
+        const startRot = first ? first.rot : 0;
+        const payload = resolveActionTargets(action.payload, { x: 0, y: 0, rotation: startRot });
+        const targetRot = Number.isFinite(payload.targetRotation) ? payload.targetRotation! : startRot;
+        const deltaRot = (targetRot - startRot) * progress;
+        
+        if (Number.isFinite(deltaRot)) {
             for (const s of memberState.values()) {
-                const dx = s.x - pivotX;
-                const dy = s.y - pivotY;
-                
-                s.x = pivotX + (dx * cos - dy * sin);
-                s.y = pivotY + (dx * sin + dy * cos);
-                s.rot += angle * progress;
+                s.rot += deltaRot;
             }
         }
     }
+    else if (action.type === 'WHEEL') {
+        const angle = action.payload.wheelAngle || 90;
+        const drill = action.payload.wheelMode === 'DRILL'
+            ? getDrillWheelGeometry(members.map(m => {
+                const st = memberState.get(m.id)!;
+                return { type: m.type, x: st.x, y: st.y, rotation: st.rot };
+            }), angle)
+            : null;
+        const paces = drill ? getDrillWheelPaces(drill.outerRadius * marchScale, angle) : WHEEL_PACES_PER_QUARTER * Math.abs(angle) / 90;
+        const progress = applyMotionProfile(rawProgress, action.motionProfile, paces);
+        const rad = (angle * (Math.PI / 180)) * progress;
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
 
-    // Apply back
-    members.forEach(m => {
-        const state = memberState.get(m.id);
-        if (state) {
-            if(Number.isFinite(state.x)) m.x = state.x;
-            if(Number.isFinite(state.y)) m.y = state.y;
-            if(Number.isFinite(state.rot)) m.rotation = state.rot;
+        let pivotX = 0, pivotY = 0;
+        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+        for (const s of memberState.values()) {
+            minX = Math.min(minX, s.x);
+            maxX = Math.max(maxX, s.x);
+            minY = Math.min(minY, s.y);
+            maxY = Math.max(maxY, s.y);
         }
-    });
+        if (!Number.isFinite(minX)) { minX=0; maxX=0; minY=0; maxY=0; }
+
+        if (drill) {
+             pivotX = drill.pivot.x;
+             pivotY = drill.pivot.y;
+        } else if (action.payload.pivotCorner === 'CENTER') {
+             pivotX = (minX + maxX) / 2;
+             pivotY = (minY + maxY) / 2;
+        } else if (action.payload.pivotCorner === 'BL') {
+             pivotX = minX; pivotY = maxY;
+        } else if (action.payload.pivotCorner === 'BR') {
+             pivotX = maxX; pivotY = maxY;
+        } else if (action.payload.pivotCorner === 'TR') {
+             pivotX = maxX; pivotY = minY;
+        } else {
+             pivotX = minX; pivotY = minY;
+        }
+
+        for (const s of memberState.values()) {
+            const dx = s.x - pivotX;
+            const dy = s.y - pivotY;
+            
+            s.x = pivotX + (dx * cos - dy * sin);
+            s.y = pivotY + (dx * sin + dy * cos);
+            s.rot += angle * progress;
+        }
+    }
+    else if (isRankDrillAction(action.type)) {
+        // Every man takes the straight route to his own slot
+        const files = getFilesAtTime(group, actions, action.startTime, getRankMembers(members).length);
+        const { targets, paces } = getClipRankDrillMovement(members.map(m => {
+            const st = memberState.get(m.id)!;
+            return { id: m.id, type: m.type, label: m.label, x: st.x, y: st.y, rotation: st.rot };
+        }), action, files);
+        const isOrder = action.type === 'OPEN_ORDER' || action.type === 'CLOSE_ORDER';
+        const progress = applyMotionProfile(rawProgress, action.motionProfile, isOrder ? paces : paces * marchScale);
+
+        for (const [id, s] of memberState) {
+            const target = targets.get(id);
+            if (!target) continue;
+            s.x = lerp(s.x, target.x, progress);
+            s.y = lerp(s.y, target.y, progress);
+            // Face the new bearing by the shorter way round
+            const turn = ((target.rotation - s.rot) % 360 + 540) % 360 - 180;
+            s.rot += turn * progress;
+        }
+    }
 };
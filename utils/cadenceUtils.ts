@@ -0,0 +1,108 @@
+import { ParadeState, ParadeConfig, AnimationAction, ActionLane, MarchMode } from '../types';
+import { DEFAULT_MARCH_TEMPO } from '../constants';
+import { getParadeStateAtTime, getActionStartPose, appendTrackAction, getActionPaceCount, getDrillWheelGeometry, getDrillWheelPaces, getRankDrillMovement, isRankDrillAction, getActionLane } from './animationUtils';
+import { getFilesAtTime, getRankMembers } from './formationUtils';
+import { toMarchPaces } from './unitUtils';
+
+// Tempo (paces per minute) for a march mode, falling back to defaults for older saves
+export const getMarchTempo = (config: ParadeConfig, mode: MarchMode): number => {
+    const tempo = config.tempo || DEFAULT_MARCH_TEMPO;
+    const value = mode === 'SLOW' ? tempo.slow : tempo.quick;
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_MARCH_TEMPO.quick;
+};
+
+// Number of beats an action takes from where its owner stands when it begins. Ground is
+// measured in quick-time paces, so in slow time a pace of a different length takes more or
+// fewer beats to cover it; turns, wheel drill counts and open and close order keep their count.
+export const getActionBeats = (parade: ParadeState, ownerId: string, action: AnimationAction, mode: MarchMode = 'QUICK'): number => {
+    const marchScale = toMarchPaces(1, parade.config, mode);
+    if (action.type === 'WHEEL' && action.payload.wheelMode === 'DRILL' && parade.groups[ownerId]) {
+        // The outer file's arc sets the pace count for a drill wheel
+        const angle = action.payload.wheelAngle || 90;
+        const members = getParadeStateAtTime(parade, action.startTime).entities.filter(e => e.groupId === ownerId);
+        const drill = getDrillWheelGeometry(members, angle);
+        return drill ? getDrillWheelPaces(drill.outerRadius * marchScale, angle) : 0;
+    }
+    if (isRankDrillAction(action.type) && parade.groups[ownerId]) {
+        // The man with the furthest to go sets the pace count
+        const members = getParadeStateAtTime(parade, action.startTime).entities.filter(e => e.groupId === ownerId);
+        const actions = parade.animation.tracks[ownerId]?.actions || [];
+        const files = getFilesAtTime(parade.groups[ownerId], actions, action.startTime, getRankMembers(members).length);
+        const { paces } = getRankDrillMovement(members, action, files);
+        return action.type === 'OPEN_ORDER' || action.type === 'CLOSE_ORDER' ? paces : paces * marchScale;
+    }
+    const start = getActionStartPose(parade, ownerId, action);
+    return start ? getActionPaceCount(action, start, marchScale) : 0;
+};
+
+// Duration in seconds implied by the action's march mode, or null when the duration is hand-typed
+export const getCadenceDuration = (parade: ParadeState, ownerId: string, action: AnimationAction): number | null => {
+    if (!action.marchMode || action.marchMode === 'MANUAL') return null;
+
+    // Always allow at least one beat so zero-length moves remain visible clips
+    let beats = Math.max(1, getActionBeats(parade, ownerId, action, action.marchMode));
+    // Stepped clips take a whole beat per pace, then one more for the check-pace on halting
+    if (action.motionProfile === 'STEPPED') beats = Math.round(beats) + 1;
+    const seconds = beats * 60 / getMarchTempo(parade.config, action.marchMode);
+    return Math.round(seconds * 100) / 100;
+};
+
+export interface RetimeResult {
+    parade: ParadeState;
+    pushed: string[]; // Ids of clips moved later to make room
+}
+
+// Recompute cadence-driven durations on a track in order, pushing later clips back when a
+// longer clip would otherwise run into them. Clips starting before `fromTime` are left as they
+// are, so an edit only retimes from the earliest time it touched.
+export const retimeTrack = (parade: ParadeState, ownerId: string, fromTime: number = 0): RetimeResult => {
+    const track = parade.animation.tracks[ownerId];
+    if (!track || track.actions.length === 0) return { parade, pushed: [] };
+
+    const sorted = [...track.actions].sort((a, b) => a.startTime - b.startTime);
+    const from = sorted.findIndex(a => a.startTime >= fromTime);
+    const retimed = sorted.slice(0, from === -1 ? sorted.length : from);
+    const pushed: string[] = [];
+    // Clips are timed against only those already settled, so each starts from their end state.
+    // The track grows in place and keeps its cache, and becomes the retimed track.
+    const settled = { ...track, actions: retimed };
+    const probe: ParadeState = {
+        ...parade,
+        animation: { ...parade.animation, tracks: { ...parade.animation.tracks, [ownerId]: settled } }
+    };
+    // Each lane ripples on its own; posture clips may run alongside movement
+    const earliestStart: Record<ActionLane, number> = { MOTION: 0, POSTURE: 0 };
+    retimed.forEach(action => {
+        const lane = getActionLane(action.type);
+        earliestStart[lane] = Math.max(earliestStart[lane], action.startTime + action.duration);
+    });
+
+    for (const original of sorted.slice(retimed.length)) {
+        let action = original;
+        const lane = getActionLane(action.type);
+        if (action.startTime < earliestStart[lane]) {
+            action = { ...action, startTime: earliestStart[lane] };
+            pushed.push(action.id);
+        }
+
+        const duration = getCadenceDuration(probe, ownerId, action);
+        if (duration !== null && duration !== action.duration) {
+            action = { ...action, duration };
+        }
+
+        appendTrackAction(settled, action);
+        earliestStart[lane] = Math.max(earliestStart[lane], action.startTime + action.duration);
+    }
+
+    // Nothing moved: keep the track as it was so its evaluation cache survives
+    if (retimed.every((action, i) => action === sorted[i])) return { parade, pushed };
+
+    return { parade: { ...parade, animation: probe.animation }, pushed };
+};
+
+// Retime every track, e.g. after the parade tempo changes. Groups go first: members' own clips
+// start from wherever their group's retimed clips have taken them.
+export const retimeAllTracks = (parade: ParadeState): ParadeState =>
+    Object.keys(parade.animation.tracks)
+        .sort((a, b) => (parade.groups[a] ? 0 : 1) - (parade.groups[b] ? 0 : 1))
+        .reduce((acc, ownerId) => retimeTrack(acc, ownerId).parade, parade);
@@ -0,0 +1,217 @@
+import { Entity, EntityType, ParadeState, CollisionConflict, Coordinates } from '../types';
+import { ENTITY_SIZE_MAP, isFurniture, COLLISION_SAMPLE_STEP } from '../constants';
+import { getParadeStateAtTime, getActionLane } from './animationUtils';
+
+// --- Footprints ---
+// People are discs the width of their sprite; furniture is a rectangle turned with the entity.
+
+type Footprint =
+    | { kind: 'DISC', x: number, y: number, radius: number }
+    | { kind: 'RECT', x: number, y: number, halfWidth: number, halfDepth: number, rotation: number };
+
+// Depth of furniture that isn't square (width comes from ENTITY_SIZE_MAP)
+const FURNITURE_DEPTH: Partial<Record<EntityType, number>> = {
+    [EntityType.SALUTING_BASE]: 4,
+    [EntityType.AWARD_TABLE]: 1.5
+};
+
+const getFootprint = (e: Entity): Footprint => {
+    const size = ENTITY_SIZE_MAP[e.type] || 1;
+    if (isFurniture(e.type)) {
+        return { kind: 'RECT', x: e.x, y: e.y, halfWidth: size / 2, halfDepth: (FURNITURE_DEPTH[e.type] ?? size) / 2, rotation: e.rotation };
+    }
+    return { kind: 'DISC', x: e.x, y: e.y, radius: size / 2 };
+};
+
+const footprintReach = (f: Footprint) => f.kind === 'DISC' ? f.radius : Math.hypot(f.halfWidth, f.halfDepth);
+
+// Overlap of two footprints, or null when they are clear. Furniture never collides with furniture.
+const getOverlapPoint = (a: Footprint, b: Footprint): Coordinates | null => {
+    if (a.kind === 'RECT' && b.kind === 'RECT') return null;
+    if (a.kind === 'RECT') return getOverlapPoint(b, a);
+
+    if (b.kind === 'DISC') {
+        const dist = Math.hypot(a.x - b.x, a.y - b.y);
+        return dist < a.radius + b.radius ? { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } : null;
+    }
+
+    // Disc against rectangle: nearest point of the rectangle, in its own frame
+    const rad = -b.rotation * (Math.PI / 180);
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const lx = dx * Math.cos(rad) - dy * Math.sin(rad);
+    const ly = dx * Math.sin(rad) + dy * Math.cos(rad);
+    const nx = Math.max(-b.halfWidth, Math.min(b.halfWidth, lx));
+    const ny = Math.max(-b.halfDepth, Math.min(b.halfDepth, ly));
+    return Math.hypot(lx - nx, ly - ny) < a.radius ? { x: a.x, y: a.y } : null;
+};
+
+// --- Contacts in a single frame ---
+
+export interface Contact {
+    entityIds: [string, string];
+    owners: [string, string]; // Sorted, so a pair of owners always reads the same way
+    x: number;
+    y: number;
+}
+
+// Track owner an entity moves with: its group, or itself
+const getOwner = (e: Entity) => e.groupId || e.id;
+
+// Who can collide with whom. Members of one owner move as a body and never count against
+// each other; ground markers are stood on. Individuals (reviewing officer, hosts) mount the
+// saluting base and rostrum, so only grouped bodies of troops collide with furniture.
+const canCollide = (a: Entity, b: Entity) => {
+    if (a.type === EntityType.MARKER || b.type === EntityType.MARKER) return false;
+    if (getOwner(a) === getOwner(b)) return false;
+    if (isFurniture(a.type)) return !!b.groupId && !isFurniture(b.type);
+    if (isFurniture(b.type)) return !!a.groupId;
+    return true;
+};
+
+const CELL_SIZE = 2; // Paces per spatial hash cell
+
+// Every overlapping pair in a frame. `isMoving` limits the search to pairs where at least one
+// side is on the move, so a layout that was placed touching isn't reported as a collision.
+export const findContacts = (entities: Entity[], isMoving: (index: number) => boolean = () => true): Contact[] => {
+    const footprints = entities.map(getFootprint);
+    const cells = new Map<string, number[]>();
+
+    footprints.forEach((f, i) => {
+        const reach = footprintReach(f);
+        const minCX = Math.floor((f.x - reach) / CELL_SIZE);
+        const maxCX = Math.floor((f.x + reach) / CELL_SIZE);
+        const minCY = Math.floor((f.y - reach) / CELL_SIZE);
+        const maxCY = Math.floor((f.y + reach) / CELL_SIZE);
+        for (let cx = minCX; cx <= maxCX; cx++) {
+            for (let cy = minCY; cy <= maxCY; cy++) {
+                const key = `${cx},${cy}`;
+                const cell = cells.get(key);
+                if (cell) cell.push(i);
+                else cells.set(key, [i]);
+            }
+        }
+    });
+
+    const contacts: Contact[] = [];
+    const seen = new Set<string>();
+    cells.forEach(cell => {
+        for (let p = 0; p < cell.length; p++) {
+            for (let q = p + 1; q < cell.length; q++) {
+                const i = Math.min(cell[p], cell[q]);
+                const j = Math.max(cell[p], cell[q]);
+                const pairKey = `${i}:${j}`;
+                if (seen.has(pairKey)) continue;
+                seen.add(pairKey);
+
+                const a = entities[i];
+                const b = entities[j];
+                if (!canCollide(a, b) || (!isMoving(i) && !isMoving(j))) continue;
+                const point = getOverlapPoint(footprints[i], footprints[j]);
+                if (!point) continue;
+
+                const ownerA = getOwner(a);
+                const ownerB = getOwner(b);
+                contacts.push({
+                    entityIds: [a.id, b.id],
+                    owners: ownerA < ownerB ? [ownerA, ownerB] : [ownerB, ownerA],
+                    ...point
+                });
+            }
+        }
+    });
+    return contacts;
+};
+
+// --- Whole-animation analysis ---
+
+// Sample the animation and report each pair of owners that run into each other, with the time
+// range of the contact and the clips in progress while it happens.
+export const analyseCollisions = (parade: ParadeState, step: number = COLLISION_SAMPLE_STEP): CollisionConflict[] => {
+    const tracks = Object.values(parade.animation.tracks);
+    const motionClips = tracks.flatMap(t => t.actions
+        .filter(a => getActionLane(a.type) === 'MOTION')
+        .map(a => ({ ownerId: t.ownerId, action: a })));
+    if (motionClips.length === 0) return [];
+
+    const endTime = Math.max(...motionClips.map(c => c.action.startTime + c.action.duration));
+    const open = new Map<string, { owners: [string, string], entityIds: Set<string>, start: number, end: number }>();
+    const found: { owners: [string, string], entityIds: Set<string>, start: number, end: number }[] = [];
+
+    let previous: Entity[] | null = null;
+    for (let time = 0; time <= endTime + step; time += step) {
+        const { entities } = getParadeStateAtTime(parade, time);
+        const prev = previous;
+        const isMoving = (i: number) => !!prev && (prev[i].x !== entities[i].x || prev[i].y !== entities[i].y);
+        previous = entities;
+        if (!prev) continue;
+
+        const touching = new Set<string>();
+        findContacts(entities, isMoving).forEach(contact => {
+            const key = contact.owners.join('|');
+            touching.add(key);
+            let conflict = open.get(key);
+            if (!conflict) {
+                conflict = { owners: contact.owners, entityIds: new Set(), start: time - step, end: time };
+                open.set(key, conflict);
+                found.push(conflict);
+            }
+            conflict.end = time;
+            contact.entityIds.forEach(id => conflict!.entityIds.add(id));
+        });
+
+        // Contacts that didn't carry on into this sample are closed
+        open.forEach((_, key) => {
+            if (!touching.has(key)) open.delete(key);
+        });
+    }
+
+    return found.map((c, i) => {
+        const involved = new Set([...c.owners, ...c.entityIds]);
+        const actionIds = motionClips
+            .filter(({ ownerId, action }) => involved.has(ownerId)
+                && action.startTime < c.end && action.startTime + action.duration > c.start)
+            .map(({ action }) => action.id);
+        return {
+            id: `${c.owners.join('|')}@${c.start.toFixed(2)}#${i}`,
+            owners: c.owners,
+            entityIds: [...c.entityIds],
+            start: Math.max(0, Math.round(c.start * 100) / 100),
+            end: Math.round(c.end * 100) / 100,
+            actionIds
+        };
+    });
+};
+
+// Areas to highlight at `time`: the contacts of every conflict in progress, boxed per conflict
+export interface ConflictZone {
+    conflictId: string;
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export const getConflictZones = (entities: Entity[], conflicts: CollisionConflict[], time: number): ConflictZone[] => {
+    const active = conflicts.filter(c => time >= c.start && time <= c.end);
+    if (active.length === 0) return [];
+
+    const contacts = findContacts(entities);
+    const zones: ConflictZone[] = [];
+    active.forEach(conflict => {
+        const points = contacts.filter(c => c.owners[0] === conflict.owners[0] && c.owners[1] === conflict.owners[1]);
+        if (points.length === 0) return;
+        zones.push({
+            conflictId: conflict.id,
+            minX: Math.min(...points.map(p => p.x)),
+            minY: Math.min(...points.map(p => p.y)),
+            maxX: Math.max(...points.map(p => p.x)),
+            maxY: Math.max(...points.map(p => p.y))
+        });
+    });
+    return zones;
+};
+
+// Label for an owner in conflict reports: group label, or the entity's label
+export const getOwnerLabel = (parade: Pick<ParadeState, 'groups' | 'entities'>, ownerId: string) =>
+    parade.groups[ownerId]?.label || parade.entities.find(e => e.id === ownerId)?.label || ownerId;
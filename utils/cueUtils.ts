@@ -0,0 +1,63 @@
+import { CommandCue, Entity, EntityType } from '../types';
+import { DEFAULT_CAUTION_LEAD, EXECUTIVE_FLASH_DURATION } from '../constants';
+
+// --- Words of command cue track ---
+// A cue is given in two parts: the cautionary word, drawn out over its lead, then the
+// executive word on the cue's time. Playback speaks and flashes each part as it is reached.
+
+export type CuePhase = 'CAUTION' | 'EXECUTIVE';
+
+export interface CueWord {
+    cue: CommandCue;
+    phase: CuePhase;
+    text: string;
+    time: number; // When this part of the command is given
+}
+
+// Only those who give words of command on parade
+const COMMAND_GIVER_TYPES = new Set([EntityType.PC, EntityType.RSM, EntityType.OFFICER]);
+
+export const getCommandGivers = (entities: Entity[]) => entities.filter(e => COMMAND_GIVER_TYPES.has(e.type));
+
+export const getCautionStart = (cue: CommandCue) =>
+    cue.caution ? Math.max(0, cue.time - (cue.cautionLead ?? DEFAULT_CAUTION_LEAD)) : cue.time;
+
+export const createCue = (time: number, entities: Entity[]): CommandCue => {
+    const giver = entities.find(e => e.type === EntityType.PC) || getCommandGivers(entities)[0];
+    return {
+        id: crypto.randomUUID(),
+        time: Math.max(time, DEFAULT_CAUTION_LEAD), // Leave room for the caution ahead of the executive word
+        caution: 'Parade will advance, right',
+        executive: 'TURN',
+        giverId: giver?.id
+    };
+};
+
+const getCueWords = (cue: CommandCue): CueWord[] => {
+    const words: CueWord[] = [];
+    if (cue.caution) words.push({ cue, phase: 'CAUTION', text: cue.caution, time: getCautionStart(cue) });
+    if (cue.executive) words.push({ cue, phase: 'EXECUTIVE', text: cue.executive, time: cue.time });
+    return words;
+};
+
+// Words given in (from, to], in the order they are called. Nothing when time runs backwards.
+export const getCueWordsBetween = (cues: CommandCue[], from: number, to: number): CueWord[] => {
+    if (to <= from) return [];
+    return cues
+        .flatMap(getCueWords)
+        .filter(w => w.time > from && w.time <= to)
+        .sort((a, b) => a.time - b.time);
+};
+
+// Word being called at a time: an executive word holds for its flash, and wins over a caution
+export const getCueWordAt = (cues: CommandCue[], time: number): CueWord | null => {
+    let current: CueWord | null = null;
+    cues.flatMap(getCueWords).forEach(word => {
+        const end = word.phase === 'EXECUTIVE' ? word.time + EXECUTIVE_FLASH_DURATION : word.cue.time;
+        if (time < word.time || time >= end) return;
+        if (!current || (word.phase === 'EXECUTIVE' && current.phase === 'CAUTION') || (word.phase === current.phase && word.time > current.time)) {
+            current = word;
+        }
+    });
+    return current;
+};
@@ -0,0 +1,96 @@
+import { AnimationAction, ParadeConfig } from '../types';
+import { getMarchTempo } from './cadenceUtils';
+import { fromMarchPaces } from './unitUtils';
+
+// --- Words of command ---
+// Each command expands into the primitive clips it is drilled as. Targets are relative, so the
+// clips follow on from wherever the previous command left the squad, and marched clips keep
+// their cadence (turns take the drill count, marches a beat per pace) once the track is retimed.
+
+export interface DrillCommandContext {
+    config: ParadeConfig;
+    isContingent: boolean; // Contingents wheel on their pivot man
+    count: number; // Paces to march, or beats to mark time
+}
+
+export interface DrillCommand {
+    id: string;
+    label: string; // Word of command, also used to label the generated clips
+    category: 'TURNS' | 'MARCHING' | 'WHEELS';
+    countLabel?: string; // What `count` means for this command, if it takes one
+    build: (context: DrillCommandContext) => Omit<AnimationAction, 'id' | 'startTime' | 'label'>[];
+}
+
+const turn = (degrees: number) => (): Omit<AnimationAction, 'id' | 'startTime' | 'label'>[] => [{
+    type: 'TURN',
+    duration: 1,
+    marchMode: 'QUICK',
+    payload: { targetMode: 'RELATIVE', targetRotation: degrees }
+}];
+
+// `count` is paces of the march called; targets are stored in quick-time paces
+const march = (marchMode: 'QUICK' | 'SLOW') => ({ config, count }: DrillCommandContext): Omit<AnimationAction, 'id' | 'startTime' | 'label'>[] => [{
+    type: 'MOVE',
+    duration: 1,
+    marchMode,
+    payload: { targetMode: 'RELATIVE', targetX: 0, targetY: -fromMarchPaces(Math.max(1, count), config, marchMode), movePathMode: 'DIRECT' }
+}];
+
+const wheel = (angle: number) => ({ isContingent }: DrillCommandContext): Omit<AnimationAction, 'id' | 'startTime' | 'label'>[] => [{
+    type: 'WHEEL',
+    duration: 1,
+    marchMode: 'QUICK',
+    payload: isContingent ? { wheelAngle: angle, wheelMode: 'DRILL' } : { wheelAngle: angle, pivotCorner: 'CENTER' }
+}];
+
+// Seconds taken by a number of beats in quick time
+const quickBeats = (config: ParadeConfig, beats: number) =>
+    Math.round(beats * 60 / getMarchTempo(config, 'QUICK') * 100) / 100;
+
+export const DRILL_COMMANDS: DrillCommand[] = [
+    { id: 'RIGHT_TURN', label: 'Right turn', category: 'TURNS', build: turn(90) },
+    { id: 'LEFT_TURN', label: 'Left turn', category: 'TURNS', build: turn(-90) },
+    { id: 'ABOUT_TURN', label: 'About turn', category: 'TURNS', build: turn(180) },
+    { id: 'RIGHT_INCLINE', label: 'Right incline', category: 'TURNS', build: turn(45) },
+    { id: 'LEFT_INCLINE', label: 'Left incline', category: 'TURNS', build: turn(-45) },
+    { id: 'QUICK_MARCH', label: 'Quick march', category: 'MARCHING', countLabel: 'Paces', build: march('QUICK') },
+    { id: 'SLOW_MARCH', label: 'Slow march', category: 'MARCHING', countLabel: 'Paces', build: march('SLOW') },
+    {
+        id: 'MARK_TIME',
+        label: 'Mark time',
+        category: 'MARCHING',
+        countLabel: 'Beats',
+        // Stepping on the spot: held for the beats called, not paced out
+        build: ({ config, count }) => [{
+            type: 'MOVE',
+            duration: quickBeats(config, Math.max(1, count)),
+            marchMode: 'MANUAL',
+            payload: { targetMode: 'RELATIVE', targetX: 0, targetY: 0, movePathMode: 'DIRECT' }
+        }]
+    },
+    {
+        id: 'HALT',
+        label: 'Halt',
+        category: 'MARCHING',
+        // One more pace after the word of command, then the rear foot is brought in: two beats
+        build: ({ config }) => [{
+            type: 'MOVE',
+            duration: quickBeats(config, 2),
+            marchMode: 'MANUAL',
+            motionProfile: 'EASE_OUT',
+            payload: { targetMode: 'RELATIVE', targetX: 0, targetY: -1, movePathMode: 'DIRECT' }
+        }]
+    },
+    { id: 'RIGHT_WHEEL', label: 'Right wheel', category: 'WHEELS', build: wheel(90) },
+    { id: 'LEFT_WHEEL', label: 'Left wheel', category: 'WHEELS', build: wheel(-90) }
+];
+
+// Clips for a command, laid end to end from `startTime` (durations are settled by retiming the track)
+export const buildCommandActions = (command: DrillCommand, context: DrillCommandContext, startTime: number): AnimationAction[] => {
+    let time = startTime;
+    return command.build(context).map(step => {
+        const action: AnimationAction = { ...step, id: crypto.randomUUID(), startTime: time, label: command.label };
+        time += step.duration;
+        return action;
+    });
+};
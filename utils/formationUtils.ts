@@ -0,0 +1,239 @@
+import { AnimationAction, Coordinates, EntityType, GroupMetadata, Pose } from '../types';
+
+export interface FormationMember extends Pose {
+    id: string;
+    type: EntityType;
+    label: string;
+}
+
+export interface FormationShape {
+    rows?: number; // Ranks; only consulted when the number of files is not given
+    cols?: number; // Files
+    bearing?: number; // Degrees, 0 is North; defaults to the current bearing
+}
+
+// Local formation frame: x to the right of the formation, y to its rear
+const toWorld = (origin: Coordinates, bearing: number, local: Coordinates): Coordinates => {
+    const rad = bearing * (Math.PI / 180);
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    return { x: origin.x + (local.x * cos - local.y * sin), y: origin.y + (local.x * sin + local.y * cos) };
+};
+
+const toLocal = (origin: Coordinates, bearing: number, point: Coordinates): Coordinates => {
+    const rad = bearing * (Math.PI / 180);
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    return { x: dx * cos + dy * sin, y: -dx * sin + dy * cos };
+};
+
+const isColoursSergeant = (m: FormationMember) => m.label === 'Colours Sgt';
+
+// Troopers standing in the ranks (not the officer out front or the Colours Sergeants on the flanks)
+export const getRankMembers = <T extends { type: EntityType, label: string }>(members: T[]): T[] =>
+    members.filter(m => m.type === EntityType.TROOPER && m.label !== 'Colours Sgt');
+
+// The man on the given flank of the front rank: the right marker the formation dresses by,
+// or the pivot of a wheel towards that flank.
+export const getFlankMarker = <T extends Pose & { type: EntityType }>(members: T[], flank: 'RIGHT' | 'LEFT'): T | null => {
+    if (members.length === 0) return null;
+
+    // Ranks are made of troopers; the officer out front shouldn't be taken for the front rank
+    const troopers = members.filter(m => m.type === EntityType.TROOPER);
+    const formation = troopers.length > 0 ? troopers : members;
+
+    const bearing = formation[0].rotation;
+    const frontMost = Math.min(...formation.map(m => toLocal({ x: 0, y: 0 }, bearing, m).y));
+    const frontRank = formation.filter(m => toLocal({ x: 0, y: 0 }, bearing, m).y - frontMost < 0.25);
+    const side = flank === 'RIGHT' ? 1 : -1;
+    return frontRank.reduce((best, m) =>
+        toLocal({ x: 0, y: 0 }, bearing, m).x * side > toLocal({ x: 0, y: 0 }, bearing, best).x * side ? m : best);
+};
+
+// Number of files a shape describes for `rankCount` men, or null when it gives neither files nor ranks
+const resolveFiles = (shape: FormationShape, rankCount: number): number | null => {
+    if (Number.isFinite(shape.cols) && shape.cols! >= 1) return Math.round(shape.cols!);
+    if (Number.isFinite(shape.rows) && shape.rows! >= 1) return Math.max(1, Math.ceil(rankCount / Math.round(shape.rows!)));
+    return null;
+};
+
+// Number of files a contingent is formed in at `time`: the last formation change begun before
+// then, otherwise the files it was created with.
+export const getFilesAtTime = (group: GroupMetadata | undefined, actions: AnimationAction[], time: number, rankCount: number): number => {
+    const change = actions
+        .filter(a => a.type === 'FORMATION_CHANGE' && a.startTime < time)
+        .sort((a, b) => a.startTime - b.startTime)
+        .pop();
+    const files = change ? resolveFiles({ rows: change.payload.targetRows, cols: change.payload.targetCols }, rankCount) : null;
+    return files ?? resolveFiles({ rows: group?.config?.rows, cols: group?.config?.cols }, rankCount) ?? Math.max(1, rankCount);
+};
+
+// Ranks and files a contingent stands in once the formation changes finished by `time` are
+// complete, or null when none has finished yet
+export const getShapeAfter = (actions: AnimationAction[], time: number, rankCount: number): { rows: number, cols: number } | null => {
+    const change = actions
+        .filter(a => a.type === 'FORMATION_CHANGE' && a.startTime + a.duration <= time)
+        .sort((a, b) => a.startTime - b.startTime)
+        .pop();
+    const cols = change ? resolveFiles({ rows: change.payload.targetRows, cols: change.payload.targetCols }, rankCount) : null;
+    return cols === null ? null : { rows: Math.max(1, Math.ceil(rankCount / cols)), cols };
+};
+
+// Split the men in the ranks into ranks of `files` men, front rank first and each rank from
+// the right, as seen from the right marker. Depths are measured to the rear of the marker.
+const getRanks = (members: FormationMember[], files: number, marker: Pose) => {
+    const local = (m: FormationMember) => toLocal(marker, marker.rotation, m);
+    const byDepth = [...getRankMembers(members)].sort((a, b) => local(a).y - local(b).y);
+    const ranks: FormationMember[][] = [];
+    for (let i = 0; i < byDepth.length; i += files) {
+        ranks.push(byDepth.slice(i, i + files).sort((a, b) => local(b).x - local(a).x));
+    }
+    return { ranks, local };
+};
+
+// "Open order" / "Close order": the front rank steps forward and the rear rank back by `paces`
+// (the reverse when closing) while any centre ranks stand fast. Colours Sergeants on the flanks
+// move with the front rank; the officer stands fast.
+export const getOrderTargets = (members: FormationMember[], files: number, mode: 'OPEN' | 'CLOSE', paces: number): Map<string, Pose> => {
+    const targets = new Map<string, Pose>();
+    const marker = getFlankMarker(members, 'RIGHT');
+    if (!marker) return targets;
+
+    const { ranks } = getRanks(members, Math.max(1, files), marker);
+    if (ranks.length < 2) return targets;
+
+    const bearing = marker.rotation;
+    const step = mode === 'OPEN' ? paces : -paces;
+    const moveBy = (m: FormationMember, forward: number) =>
+        targets.set(m.id, { ...toWorld(m, bearing, { x: 0, y: -forward }), rotation: m.rotation });
+
+    ranks[0].forEach(m => moveBy(m, step));
+    members.filter(isColoursSergeant).forEach(m => moveBy(m, step));
+    ranks[ranks.length - 1].forEach(m => moveBy(m, -step));
+    return targets;
+};
+
+// "Dress by the right": each rank lines up at one-pace intervals from its right-hand man, who
+// covers off behind the right marker, at the rank's own depth. Everyone faces the marker's bearing.
+export const getDressTargets = (members: FormationMember[], files: number): Map<string, Pose> => {
+    const targets = new Map<string, Pose>();
+    const marker = getFlankMarker(members, 'RIGHT');
+    if (!marker) return targets;
+
+    const bearing = marker.rotation;
+    const { ranks, local } = getRanks(members, Math.max(1, files), marker);
+    ranks.forEach(rank => {
+        // The median depth isn't thrown off by a single straggler
+        const depths = rank.map(m => local(m).y).sort((a, b) => a - b);
+        const depth = depths[Math.floor(depths.length / 2)];
+        rank.forEach((m, i) => targets.set(m.id, { ...toWorld(marker, bearing, { x: -i, y: depth }), rotation: bearing }));
+    });
+    return targets;
+};
+
+// Min-cost assignment (Hungarian method). Returns, for each row, the column it is assigned.
+// Minimising total straight-line distance guarantees no two routes cross.
+const solveAssignment = (cost: number[][]): number[] => {
+    const n = cost.length;
+    const m = n > 0 ? cost[0].length : 0;
+    const u = new Array(n + 1).fill(0);
+    const v = new Array(m + 1).fill(0);
+    const p = new Array(m + 1).fill(0); // p[j]: row assigned to column j (1-based)
+    const way = new Array(m + 1).fill(0);
+
+    for (let i = 1; i <= n; i++) {
+        p[0] = i;
+        let j0 = 0;
+        const minv = new Array(m + 1).fill(Infinity);
+        const used = new Array(m + 1).fill(false);
+        do {
+            used[j0] = true;
+            const i0 = p[j0];
+            let delta = Infinity;
+            let j1 = 0;
+            for (let j = 1; j <= m; j++) {
+                if (used[j]) continue;
+                const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+                if (cur < minv[j]) {
+                    minv[j] = cur;
+                    way[j] = j0;
+                }
+                if (minv[j] < delta) {
+                    delta = minv[j];
+                    j1 = j;
+                }
+            }
+            for (let j = 0; j <= m; j++) {
+                if (used[j]) {
+                    u[p[j]] += delta;
+                    v[j] -= delta;
+                } else {
+                    minv[j] -= delta;
+                }
+            }
+            j0 = j1;
+        } while (p[j0] !== 0);
+        do {
+            const j1 = way[j0];
+            p[j0] = p[j1];
+            j0 = j1;
+        } while (j0);
+    }
+
+    const assignment = new Array(n).fill(-1);
+    for (let j = 1; j <= m; j++) {
+        if (p[j] > 0) assignment[p[j] - 1] = j - 1;
+    }
+    return assignment;
+};
+
+// Where every member of a contingent ends up when it re-forms into `shape`. The right marker
+// stands fast and the new formation is laid out from him; troopers are matched to the new
+// slots so that no two routes cross. Slots are filled rank by rank from the right of the front
+// rank, so a short last rank is left open on the left.
+export const getFormationTargets = (members: FormationMember[], shape: FormationShape): Map<string, Pose> => {
+    const targets = new Map<string, Pose>();
+    const marker = getFlankMarker(members, 'RIGHT');
+    if (!marker) return targets;
+
+    const ranks = getRankMembers(members);
+    const cols = resolveFiles(shape, ranks.length) ?? Math.max(1, ranks.length);
+    const bearing = Number.isFinite(shape.bearing) ? shape.bearing! : marker.rotation;
+    const halfWidth = (cols - 1) / 2;
+
+    // The right marker's slot is (halfWidth, 0); put the formation's centre-front at the origin
+    const origin = toWorld(marker, bearing, { x: -halfWidth, y: 0 });
+    const slotAt = (rank: number, file: number) => toWorld(origin, bearing, { x: file - halfWidth, y: rank });
+
+    const slots: Coordinates[] = [];
+    for (let i = 0; i < ranks.length; i++) {
+        slots.push(slotAt(Math.floor(i / cols), cols - 1 - (i % cols)));
+    }
+
+    const cost = ranks.map(m => slots.map(s => Math.hypot(s.x - m.x, s.y - m.y)));
+    const assignment = solveAssignment(cost);
+    ranks.forEach((m, i) => {
+        const slot = slots[assignment[i]];
+        if (slot) targets.set(m.id, { ...slot, rotation: bearing });
+    });
+
+    // Officer three paces in front of centre, Colours Sergeants one pace beyond each flank, one to
+    // a flank and matched like the ranks so they don't cross
+    const sergeants = members.filter(isColoursSergeant).slice(0, 2);
+    const sergeantSlots = [toWorld(origin, bearing, { x: -halfWidth - 1, y: 0 }), toWorld(origin, bearing, { x: halfWidth + 1, y: 0 })];
+    const sergeantAssignment = solveAssignment(sergeants.map(m => sergeantSlots.map(s => Math.hypot(s.x - m.x, s.y - m.y))));
+    sergeants.forEach((m, i) => {
+        const slot = sergeantSlots[sergeantAssignment[i]];
+        if (slot) targets.set(m.id, { ...slot, rotation: bearing });
+    });
+
+    members.forEach(m => {
+        if (!targets.has(m.id)) {
+            targets.set(m.id, { ...toWorld(origin, bearing, { x: 0, y: -3 }), rotation: bearing });
+        }
+    });
+
+    return targets;
+};
@@ -0,0 +1,123 @@
+import { AnimationTrack, CollisionConflict, Entity, ParadeState, Posture } from '../types';
+
+// --- Frame snapshots ---
+// Evaluated frames cross the worker boundary as flat typed arrays (transferred, not copied)
+// in the order of the parade's entities array.
+
+const POSTURES: (Posture | undefined)[] = [undefined, 'ATTENTION', 'STAND_AT_EASE', 'SALUTE', 'PRESENT_ARMS', 'COLOURS_LOWERED'];
+
+export interface FrameSnapshot {
+    time: number;
+    version: number; // Entities version the frame was evaluated against
+    poses: Float64Array; // x, y, rotation per entity
+    postures: Uint8Array; // Index into POSTURES per entity
+}
+
+export const packFrame = (entities: Entity[], time: number, version: number): FrameSnapshot => {
+    const poses = new Float64Array(entities.length * 3);
+    const postures = new Uint8Array(entities.length);
+    entities.forEach((e, i) => {
+        poses[i * 3] = e.x;
+        poses[i * 3 + 1] = e.y;
+        poses[i * 3 + 2] = e.rotation;
+        postures[i] = Math.max(0, POSTURES.indexOf(e.posture));
+    });
+    return { time, version, poses, postures };
+};
+
+// Rebuild evaluated entities from the Time 0 entities the snapshot was evaluated against
+export const unpackFrame = (source: Entity[], snapshot: FrameSnapshot): Entity[] =>
+    source.map((e, i) => {
+        const x = snapshot.poses[i * 3];
+        const y = snapshot.poses[i * 3 + 1];
+        const rotation = snapshot.poses[i * 3 + 2];
+        const posture = POSTURES[snapshot.postures[i]];
+        if (x === e.x && y === e.y && rotation === e.rotation && posture === e.posture) return e;
+        return { ...e, x, y, rotation, posture };
+    });
+
+// --- State diffs ---
+// Only the parts of the parade that changed since the last sync are sent to the worker. Tracks
+// are diffed one by one so the worker keeps its cached evaluation of the untouched ones.
+
+export interface ParadePatch {
+    config?: ParadeState['config'];
+    entities?: Entity[];
+    groups?: ParadeState['groups'];
+    duration?: number;
+    trackOrder?: string[];
+    tracks?: Record<string, AnimationTrack | null>; // null removes the track
+}
+
+export const diffParadeState = (prev: ParadeState | null, next: ParadeState): ParadePatch | null => {
+    if (!prev) {
+        return {
+            config: next.config,
+            entities: next.entities,
+            groups: next.groups,
+            duration: next.animation.duration,
+            trackOrder: next.animation.trackOrder,
+            tracks: { ...next.animation.tracks }
+        };
+    }
+
+    const patch: ParadePatch = {};
+    if (prev.config !== next.config) patch.config = next.config;
+    if (prev.entities !== next.entities) patch.entities = next.entities;
+    if (prev.groups !== next.groups) patch.groups = next.groups;
+    if (prev.animation.duration !== next.animation.duration) patch.duration = next.animation.duration;
+    if (prev.animation.trackOrder !== next.animation.trackOrder) patch.trackOrder = next.animation.trackOrder;
+
+    if (prev.animation.tracks !== next.animation.tracks) {
+        const tracks: Record<string, AnimationTrack | null> = {};
+        Object.entries(next.animation.tracks).forEach(([ownerId, track]) => {
+            if (prev.animation.tracks[ownerId] !== track) tracks[ownerId] = track;
+        });
+        Object.keys(prev.animation.tracks).forEach(ownerId => {
+            if (!(ownerId in next.animation.tracks)) tracks[ownerId] = null;
+        });
+        if (Object.keys(tracks).length > 0) patch.tracks = tracks;
+    }
+
+    return Object.keys(patch).length > 0 ? patch : null;
+};
+
+export const applyParadePatch = (state: ParadeState | null, patch: ParadePatch): ParadeState => {
+    const base: ParadeState = state || {
+        config: patch.config!,
+        entities: [],
+        groups: {},
+        animation: { duration: 0, tracks: {} }
+    };
+
+    let tracks = base.animation.tracks;
+    if (patch.tracks) {
+        tracks = { ...tracks };
+        Object.entries(patch.tracks).forEach(([ownerId, track]) => {
+            if (track) tracks[ownerId] = track;
+            else delete tracks[ownerId];
+        });
+    }
+
+    return {
+        config: patch.config ?? base.config,
+        entities: patch.entities ?? base.entities,
+        groups: patch.groups ?? base.groups,
+        animation: {
+            duration: patch.duration ?? base.animation.duration,
+            trackOrder: 'trackOrder' in patch ? patch.trackOrder : base.animation.trackOrder,
+            tracks
+        }
+    };
+};
+
+// --- Worker messages ---
+
+export type EvaluationRequest =
+    | { kind: 'PATCH', patch: ParadePatch, version: number }
+    | { kind: 'FRAME', time: number }
+    | { kind: 'ANALYSE', requestId: number };
+
+export type EvaluationResponse =
+    | { kind: 'FRAME', snapshot: FrameSnapshot }
+    | { kind: 'CONFLICTS', conflicts: CollisionConflict[], requestId: number };
@@ -0,0 +1,6 @@
+// --- HTML ---
+// Printable pages (run sheet, marking plan, route cards) are built as strings, so any text from
+// the parade has to be escaped on its way in.
+
+export const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
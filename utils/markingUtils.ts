@@ -0,0 +1,103 @@
+import { ParadeState, ParadeConfig, AnimationTrack, EntityType, Coordinates } from '../types';
+import { MARKING_MERGE_DISTANCE } from '../constants';
+import { getActionStartPose, resolveActionTargets } from './animationUtils';
+import { getFlankMarker } from './formationUtils';
+import { getOwnerLabel } from './collisionUtils';
+import { formatScriptTime } from './scriptUtils';
+import { pacesToMetres } from './unitUtils';
+
+// --- Ground marking ---
+// Everything the ground team chalks before rehearsal: the markers, where each contingent's right
+// marker falls in, and every point a move halts at or passes through. Marks close enough to be
+// chalked as one are merged, keeping a note of each thing that uses them.
+
+export type MarkingKind = 'MARKER' | 'RIGHT_MARKER' | 'MOVE_END' | 'WAYPOINT';
+
+export interface MarkingPoint extends Coordinates {
+    ref: string; // Written on the ground beside the mark
+    kind: MarkingKind; // Of the first thing to use the mark
+    notes: string[];
+}
+
+// Corner measurements are taken from; North is the top of the ground
+export type Datum = 'NW' | 'NE' | 'SW' | 'SE';
+
+export const DATUM_LABELS: Record<Datum, string> = {
+    NW: 'North-west corner',
+    NE: 'North-east corner',
+    SW: 'South-west corner',
+    SE: 'South-east corner'
+};
+
+export const buildMarkingPlan = (parade: ParadeState): MarkingPoint[] => {
+    const points: MarkingPoint[] = [];
+    let nextNumber = 1;
+
+    const addMark = (point: Coordinates, kind: MarkingKind, note: string, ref?: string) => {
+        const existing = points.find(p => Math.hypot(p.x - point.x, p.y - point.y) <= MARKING_MERGE_DISTANCE);
+        if (existing) {
+            existing.notes.push(note);
+            return;
+        }
+        points.push({ x: point.x, y: point.y, kind, notes: [note], ref: ref || `P${nextNumber++}` });
+    };
+
+    parade.entities
+        .filter(e => e.type === EntityType.MARKER)
+        .forEach((marker, i) => addMark(marker, 'MARKER', 'Ground marker', marker.label || `M${i + 1}`));
+
+    Object.values(parade.groups)
+        .filter(group => group.type === 'CONTINGENT')
+        .forEach(group => {
+            const rightMarker = getFlankMarker(parade.entities.filter(e => e.groupId === group.id), 'RIGHT');
+            if (rightMarker) addMark(rightMarker, 'RIGHT_MARKER', `${group.label}: right marker falls in`);
+        });
+
+    // Moves in the order they happen, each from wherever playback has its owner when it starts
+    const moves = (Object.values(parade.animation.tracks) as AnimationTrack[])
+        .flatMap(track => track.actions
+            .filter(action => action.type === 'MOVE')
+            .map(action => ({ ownerId: track.ownerId, action })))
+        .sort((a, b) => a.action.startTime - b.action.startTime);
+    moves.forEach(({ ownerId, action }) => {
+        const start = getActionStartPose(parade, ownerId, action);
+        if (!start) return;
+        const payload = resolveActionTargets(action.payload, start);
+        const owner = getOwnerLabel(parade, ownerId);
+        // A group's move carries its anchor point there, not any one person
+        const anchor = parade.groups[ownerId] ? ` (${payload.groupAnchor || 'TL'} of formation)` : '';
+        (payload.waypoints || []).forEach((waypoint, i) =>
+            addMark(waypoint, 'WAYPOINT', `${owner}${anchor}: waypoint ${i + 1} of the move at ${formatScriptTime(action.startTime)}`));
+        addMark(
+            { x: payload.targetX ?? start.x, y: payload.targetY ?? start.y },
+            'MOVE_END',
+            `${owner}${anchor}: halts at ${formatScriptTime(action.startTime + action.duration)}`
+        );
+    });
+
+    return points;
+};
+
+// Distances from the datum corner along each edge of the ground, in paces
+export const measureFromDatum = (point: Coordinates, datum: Datum, config: ParadeConfig) => ({
+    across: datum === 'NW' || datum === 'SW' ? point.x : config.width - point.x,
+    down: datum === 'NW' || datum === 'NE' ? point.y : config.height - point.y
+});
+
+// Headings for the two measurements: which edge each is taken from
+export const getDatumEdges = (datum: Datum) => ({
+    across: datum === 'NW' || datum === 'SW' ? 'W' : 'E',
+    down: datum === 'NW' || datum === 'NE' ? 'N' : 'S'
+});
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const markingPlanToCsv = (points: MarkingPoint[], datum: Datum, config: ParadeConfig): string => {
+    const edges = getDatumEdges(datum);
+    const header = ['Ref', `From ${edges.across} edge (paces)`, `From ${edges.down} edge (paces)`, `From ${edges.across} edge (m)`, `From ${edges.down} edge (m)`, 'Used for'];
+    const rows = points.map(point => {
+        const { across, down } = measureFromDatum(point, datum, config);
+        return [point.ref, across.toFixed(1), down.toFixed(1), pacesToMetres(across, config).toFixed(2), pacesToMetres(down, config).toFixed(2), point.notes.join('; ')];
+    });
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
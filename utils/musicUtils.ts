@@ -0,0 +1,33 @@
+import { MusicTrack } from '../types';
+import { CLIP_SNAP_INTERVAL } from '../constants';
+
+// --- Beat grid ---
+// Beats fall every 60/bpm seconds either side of the first downbeat at `offset`.
+
+export interface Beat {
+    time: number;
+    isDownbeat: boolean; // First beat of a bar
+}
+
+export const getBeatInterval = (music: MusicTrack) => 60 / music.bpm;
+
+// Beats from the start of the timeline up to `until`
+export const getBeats = (music: MusicTrack, until: number): Beat[] => {
+    const interval = getBeatInterval(music);
+    if (!Number.isFinite(interval) || interval <= 0) return [];
+    const beats: Beat[] = [];
+    const first = Math.ceil(-music.offset / interval); // Beat index at or after time 0
+    for (let i = first; music.offset + i * interval <= until; i++) {
+        const barBeat = ((i % music.beatsPerBar) + music.beatsPerBar) % music.beatsPerBar;
+        beats.push({ time: music.offset + i * interval, isDownbeat: barBeat === 0 });
+    }
+    return beats;
+};
+
+// Nearest beat to a time, or the plain clip snap when there is no grid
+export const snapTime = (time: number, music?: MusicTrack | null) => {
+    if (!music || music.bpm <= 0) return Math.round(time / CLIP_SNAP_INTERVAL) * CLIP_SNAP_INTERVAL;
+    const interval = getBeatInterval(music);
+    const snapped = music.offset + Math.round((time - music.offset) / interval) * interval;
+    return Math.round(snapped * 1000) / 1000;
+};
@@ -0,0 +1,92 @@
+// --- Printed plans ---
+// Splitting the ground across sheets of paper at a fixed scale, so the marking team can measure
+// straight off the page. All lengths here are millimetres on paper or paces on the ground.
+
+export type PaperSize = 'A4' | 'A3';
+
+export const PAPER_SIZES: Record<PaperSize, { width: number, height: number }> = {
+    A4: { width: 210, height: 297 },
+    A3: { width: 297, height: 420 }
+};
+
+export const PAGE_MARGIN = 10;
+export const PAGE_HEADER = 12; // Title and sheet reference above the plan
+export const PAGE_FOOTER = 12; // Scale bar below it
+
+// Finest scale offered, and the most sheets a plan is split across; anything finer than the
+// ground needs at that many sheets isn't something a marking team could lay out
+export const MIN_PACES_PER_CM = 0.1;
+export const MAX_PLAN_SHEETS = 100;
+
+export const clampPacesPerCm = (pacesPerCm: number) =>
+    Number.isFinite(pacesPerCm) ? Math.max(MIN_PACES_PER_CM, pacesPerCm) : MIN_PACES_PER_CM;
+
+export interface PageTile {
+    row: number;
+    column: number;
+    x: number; // Ground covered by the sheet, in paces
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PageLayout {
+    paper: PaperSize;
+    landscape: boolean;
+    pageWidth: number; // mm
+    pageHeight: number;
+    rows: number;
+    columns: number;
+    tiles: PageTile[]; // Left empty when there would be more than MAX_PLAN_SHEETS
+}
+
+const getPrintableArea = (pageWidth: number, pageHeight: number) => ({
+    width: pageWidth - PAGE_MARGIN * 2,
+    height: pageHeight - PAGE_MARGIN * 2 - PAGE_HEADER - PAGE_FOOTER
+});
+
+const layoutFor = (groundWidth: number, groundHeight: number, pacesPerCm: number, paper: PaperSize, landscape: boolean): PageLayout => {
+    const size = PAPER_SIZES[paper];
+    const pageWidth = landscape ? size.height : size.width;
+    const pageHeight = landscape ? size.width : size.height;
+    const area = getPrintableArea(pageWidth, pageHeight);
+    const tileWidth = area.width / 10 * pacesPerCm;
+    const tileHeight = area.height / 10 * pacesPerCm;
+    const columns = Math.max(1, Math.ceil(groundWidth / tileWidth - 1e-9));
+    const rows = Math.max(1, Math.ceil(groundHeight / tileHeight - 1e-9));
+
+    const tiles: PageTile[] = [];
+    for (let row = 0; rows * columns <= MAX_PLAN_SHEETS && row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            const x = column * tileWidth;
+            const y = row * tileHeight;
+            tiles.push({ row, column, x, y, width: Math.min(tileWidth, groundWidth - x), height: Math.min(tileHeight, groundHeight - y) });
+        }
+    }
+    return { paper, landscape, pageWidth, pageHeight, rows, columns, tiles };
+};
+
+// Whichever way round the paper needs fewer sheets; landscape when it's a tie on a wide ground
+export const getPageLayout = (groundWidth: number, groundHeight: number, pacesPerCm: number, paper: PaperSize): PageLayout => {
+    const scale = clampPacesPerCm(pacesPerCm);
+    const portrait = layoutFor(groundWidth, groundHeight, scale, paper, false);
+    const landscape = layoutFor(groundWidth, groundHeight, scale, paper, true);
+    const sheets = (layout: PageLayout) => layout.rows * layout.columns;
+    if (sheets(landscape) !== sheets(portrait)) return sheets(landscape) < sheets(portrait) ? landscape : portrait;
+    return groundWidth > groundHeight ? landscape : portrait;
+};
+
+// Why a layout can't be printed, or null when it can
+export const getPageLayoutError = (layout: PageLayout): string | null => {
+    const sheets = layout.rows * layout.columns;
+    return sheets > MAX_PLAN_SHEETS
+        ? `That scale needs ${sheets} sheets; a plan prints on at most ${MAX_PLAN_SHEETS}. Fit more ground to each centimetre.`
+        : null;
+};
+
+// A round length for a scale bar no longer than `max`: 1, 2 or 5 times a power of ten
+export const getScaleBarLength = (max: number) => {
+    if (max <= 0) return 0;
+    const power = Math.pow(10, Math.floor(Math.log10(max)));
+    return [5, 2, 1].map(m => m * power).find(length => length <= max) ?? power;
+};
@@ -0,0 +1,139 @@
+import { AnimationState, AnimationTrack, ProgrammeEvent, ProgrammeEventKind } from '../types';
+import { getActionLane } from './animationUtils';
+
+// --- Programme ---
+// The running order around the drill: speeches, the anthem, prayers and presentations are timed
+// events in their own lane. Nobody is expected to move during one (postures are fine).
+
+export const PROGRAMME_EVENT_KINDS: { kind: ProgrammeEventKind, label: string, duration: number }[] = [
+    { kind: 'SPEECH', label: 'Speech', duration: 180 },
+    { kind: 'ANTHEM', label: 'National Anthem', duration: 90 },
+    { kind: 'PRAYER', label: 'Prayers', duration: 120 },
+    { kind: 'PRESENTATION', label: 'Prize Presentation', duration: 300 },
+    { kind: 'OTHER', label: 'Event', duration: 60 }
+];
+
+const EPSILON = 1e-6;
+
+export const createProgrammeEvent = (kind: ProgrammeEventKind, startTime: number): ProgrammeEvent => {
+    const preset = PROGRAMME_EVENT_KINDS.find(k => k.kind === kind)!;
+    return { id: crypto.randomUUID(), name: preset.label, kind, startTime, duration: preset.duration };
+};
+
+const getTracks = (animation: AnimationState) => Object.values(animation.tracks) as AnimationTrack[];
+
+// Latest moment anything on the timeline is still happening
+const getContentEnd = (animation: AnimationState) => Math.max(
+    0,
+    ...getTracks(animation).flatMap(t => t.actions.map(a => a.startTime + a.duration)),
+    ...(animation.programme || []).map(e => e.startTime + e.duration),
+    ...(animation.cues || []).map(c => c.time)
+);
+
+// Grow the timeline to fit its contents; it is never shrunk here
+export const fitDuration = (animation: AnimationState): AnimationState => {
+    const end = Math.ceil(getContentEnd(animation));
+    return end > animation.duration ? { ...animation, duration: end } : animation;
+};
+
+// Start of the first thing at or after `from`
+const getNextStart = (animation: AnimationState, from: number, exceptEventId: string) => Math.min(...[
+    ...getTracks(animation).flatMap(t => t.actions.map(a => a.startTime)),
+    ...(animation.cues || []).map(c => c.time),
+    ...(animation.programme || []).filter(e => e.id !== exceptEventId).map(e => e.startTime)
+].filter(t => t >= from - EPSILON));
+
+// Everything starting at or after `from` moves back by `delta`. Tracks with nothing to move keep
+// their identity so their evaluation stays cached.
+const shiftFrom = (animation: AnimationState, from: number, delta: number, exceptEventId: string): AnimationState => {
+    const tracks: Record<string, AnimationTrack> = {};
+    Object.entries(animation.tracks).forEach(([ownerId, track]) => {
+        const moves = track.actions.some(a => a.startTime >= from - EPSILON);
+        tracks[ownerId] = moves
+            ? { ...track, actions: track.actions.map(a => a.startTime >= from - EPSILON ? { ...a, startTime: a.startTime + delta } : a) }
+            : track;
+    });
+    return {
+        ...animation,
+        tracks,
+        cues: animation.cues?.map(c => c.time >= from - EPSILON ? { ...c, time: c.time + delta } : c),
+        programme: animation.programme?.map(e => e.id !== exceptEventId && e.startTime >= from - EPSILON ? { ...e, startTime: e.startTime + delta } : e)
+    };
+};
+
+// Apply an edit to an event. In PUSH mode, lengthening it into whatever followed it moves all
+// of that back, keeping its spacing; moving or shortening it never drags other items along.
+export const updateProgrammeEvent = (animation: AnimationState, eventId: string, updates: Partial<ProgrammeEvent>): AnimationState => {
+    const event = animation.programme?.find(e => e.id === eventId);
+    if (!event) return animation;
+    const updated = { ...event, ...updates };
+    let next: AnimationState = { ...animation, programme: animation.programme!.map(e => e.id === eventId ? updated : e) };
+
+    const oldEnd = event.startTime + event.duration;
+    if ((animation.programmeMode || 'PUSH') === 'PUSH' && updated.duration > event.duration && updated.startTime === event.startTime) {
+        // Any gap after the event is taken up before anything is pushed
+        const overrun = updated.startTime + updated.duration - getNextStart(next, oldEnd, eventId);
+        if (overrun > 0) next = shiftFrom(next, oldEnd, overrun, eventId);
+    }
+    return fitDuration(next);
+};
+
+export interface EventClash {
+    eventId: string;
+    ownerId: string;
+    actionId: string;
+    start: number; // Overlap of the clip with the event
+    end: number;
+}
+
+// Movement clips running into programme events
+export const getEventClashes = (animation: AnimationState): EventClash[] =>
+    (animation.programme || []).flatMap(event => getTracks(animation).flatMap(track => track.actions
+        .filter(a => getActionLane(a.type) === 'MOTION')
+        .map(a => ({
+            eventId: event.id,
+            ownerId: track.ownerId,
+            actionId: a.id,
+            start: Math.max(a.startTime, event.startTime),
+            end: Math.min(a.startTime + a.duration, event.startTime + event.duration)
+        }))
+        .filter(clash => clash.end - clash.start > EPSILON)));
+
+// Total length of a set of possibly overlapping spans
+const getCoveredTime = (spans: [number, number][]) => {
+    let covered = 0;
+    let reach = -Infinity;
+    [...spans].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+        if (end <= reach) return;
+        covered += end - Math.max(start, reach);
+        reach = end;
+    });
+    return covered;
+};
+
+export interface RunTimeSummary {
+    runTime: number; // From the start to the last thing on the timeline
+    programmeTime: number; // Under programme events
+    drillTime: number; // With somebody moving
+    eventCount: number;
+}
+
+export const getRunTimeSummary = (animation: AnimationState): RunTimeSummary => {
+    const events = animation.programme || [];
+    return {
+        runTime: getContentEnd(animation),
+        programmeTime: getCoveredTime(events.map(e => [e.startTime, e.startTime + e.duration])),
+        drillTime: getCoveredTime(getTracks(animation).flatMap(t => t.actions
+            .filter(a => getActionLane(a.type) === 'MOTION')
+            .map((a): [number, number] => [a.startTime, a.startTime + a.duration]))),
+        eventCount: events.length
+    };
+};
+
+export const formatRunTime = (seconds: number) => {
+    const total = Math.round(Math.max(0, seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = String(total % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
@@ -0,0 +1,122 @@
+import { ParadeState, ParadeConfig, AnimationAction, AnimationTrack, Entity, EntityType, Coordinates, Pose } from '../types';
+import { isFurniture, ROUTE_SAMPLE_STEP } from '../constants';
+import { getParadeStateAtTime, toRelativeOffset } from './animationUtils';
+import { describeClip } from './scriptUtils';
+import { formatDistance, formatDistanceValue, getUnitSuffix } from './unitUtils';
+
+// --- Route cards ---
+// One card per person with only the clips that move them: their own track and their group's.
+// Positions are sampled through each clip, so distances follow curves, wheels and formation
+// changes the way the person actually walks them.
+
+export interface RouteStep {
+    number: number;
+    startTime: number;
+    duration: number;
+    command: string;
+    distance: number; // Paces walked
+    bearing: number | null; // Net direction of travel, null when marching on the spot
+    end: Pose;
+    endReference: string; // End position against the nearest ground marker
+}
+
+export interface RouteCard {
+    entity: Entity;
+    unit?: string; // Group the person marches with
+    start: Pose;
+    startReference: string;
+    steps: RouteStep[];
+    path: Coordinates[]; // Sampled positions from the first step to the last
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const formatBearing = (bearing: number) => {
+    const degrees = ((Math.round(bearing) % 360) + 360) % 360;
+    return `${String(degrees).padStart(3, '0')}° ${COMPASS_POINTS[Math.round(degrees / 45) % 8]}`;
+};
+
+// Bearing of a displacement: 0 is up the ground (North), clockwise
+const getBearing = (from: Coordinates, to: Coordinates) =>
+    (Math.atan2(to.x - from.x, from.y - to.y) * 180 / Math.PI + 360) % 360;
+
+// "2.0 paces right, 3.5 paces in front of Marker A", in the marker's own frame
+const describeFromMarkers = (point: Coordinates, markers: Entity[], config: ParadeConfig): string => {
+    const fmt = (n: number) => formatDistance(Math.abs(n), config);
+    if (markers.length === 0) return `${formatDistanceValue(point.x, config)}, ${formatDistanceValue(point.y, config)} ${getUnitSuffix(config)} from the top left corner`;
+    const marker = markers.reduce((best, m) =>
+        Math.hypot(m.x - point.x, m.y - point.y) < Math.hypot(best.x - point.x, best.y - point.y) ? m : best);
+    const offset = toRelativeOffset(point, marker);
+    const parts = [
+        Math.abs(offset.x) >= 0.05 ? `${fmt(offset.x)} ${offset.x > 0 ? 'right' : 'left'}` : '',
+        Math.abs(offset.y) >= 0.05 ? `${fmt(offset.y)} ${offset.y > 0 ? 'behind' : 'in front'}` : ''
+    ].filter(Boolean);
+    return parts.length === 0 ? `On ${marker.label}` : `${parts.join(', ')} of ${marker.label}`;
+};
+
+export const buildRouteCards = (parade: ParadeState, options: { movingOnly: boolean }): RouteCard[] => {
+    const markers = parade.entities.filter(e => e.type === EntityType.MARKER);
+
+    // Frames are shared between everyone a clip moves, so a group is evaluated once for all its
+    // members. Only poses are kept, looked up by id.
+    const frames = new Map<number, Map<string, Pose>>();
+    const frameAt = (time: number) => {
+        const key = Math.round(time * 1000) / 1000;
+        let frame = frames.get(key);
+        if (!frame) {
+            frame = new Map();
+            for (const e of getParadeStateAtTime(parade, key).entities) frame.set(e.id, { x: e.x, y: e.y, rotation: e.rotation });
+            frames.set(key, frame);
+        }
+        return frame;
+    };
+    // Anyone a frame doesn't place stays where the layout has them
+    const poseAt = (entity: Entity, time: number): Pose =>
+        frameAt(time).get(entity.id) ?? { x: entity.x, y: entity.y, rotation: entity.rotation };
+
+    const getClips = (ownerId?: string): { ownerId: string, action: AnimationAction }[] => {
+        const track: AnimationTrack | undefined = ownerId ? parade.animation.tracks[ownerId] : undefined;
+        return track ? track.actions.map(action => ({ ownerId: track.ownerId, action })) : [];
+    };
+
+    return parade.entities
+        .filter(e => !isFurniture(e.type))
+        .map((entity): RouteCard => {
+            const clips = [...getClips(entity.groupId), ...getClips(entity.id)]
+                .sort((a, b) => a.action.startTime - b.action.startTime);
+            const start = poseAt(entity, 0);
+            const path: Coordinates[] = [];
+
+            const steps = clips.map(({ ownerId, action }, i): RouteStep => {
+                const end = action.startTime + action.duration;
+                const samples: Pose[] = [];
+                for (let t = action.startTime; t < end; t += ROUTE_SAMPLE_STEP) samples.push(poseAt(entity, t));
+                samples.push(poseAt(entity, end));
+                path.push(...samples);
+
+                const distance = samples.slice(1).reduce((sum, p, j) => sum + Math.hypot(p.x - samples[j].x, p.y - samples[j].y), 0);
+                const from = samples[0];
+                const to = samples[samples.length - 1];
+                return {
+                    number: i + 1,
+                    startTime: action.startTime,
+                    duration: action.duration,
+                    command: action.label || describeClip(parade, ownerId, action),
+                    distance,
+                    bearing: Math.hypot(to.x - from.x, to.y - from.y) >= 0.05 ? getBearing(from, to) : null,
+                    end: to,
+                    endReference: describeFromMarkers(to, markers, parade.config)
+                };
+            });
+
+            return {
+                entity,
+                unit: entity.groupId ? parade.groups[entity.groupId]?.label : undefined,
+                start,
+                startReference: describeFromMarkers(start, markers, parade.config),
+                steps,
+                path
+            };
+        })
+        .filter(card => !options.movingOnly || card.steps.some(s => s.distance >= 0.05 || s.end.rotation !== card.start.rotation));
+};
@@ -0,0 +1,200 @@
+import { ParadeState, ParadeConfig, AnimationTrack, Entity, Pose } from '../types';
+import { getParadeStateAtTime, getGroupAnchor } from './animationUtils';
+import { getOwnerLabel } from './collisionUtils';
+import { describeClip, formatScriptTime } from './scriptUtils';
+import { PROGRAMME_EVENT_KINDS, getRunTimeSummary, formatRunTime } from './programmeUtils';
+import { formatDistanceValue, toDisplayDistance, getUnitSuffix } from './unitUtils';
+import { escapeHtml } from './htmlUtils';
+
+// --- Run sheet ---
+// Everything on the timeline as a timed list for the parade staff: clips with where their owner
+// starts and finishes, words of command, and programme events. The programme splits it into
+// phases, with the drill in between each event.
+
+export type RunSheetRowKind = 'EVENT' | 'CUE' | 'ACTION';
+
+export interface RunSheetRow {
+    time: number;
+    duration: number;
+    kind: RunSheetRowKind;
+    eventId?: string; // Programme event the row stands for
+    who: string;
+    what: string;
+    from?: Pose; // Owner's position at the start and end of a clip
+    to?: Pose;
+}
+
+export interface RunSheetPhase {
+    title: string;
+    start: number;
+    end: number; // Infinity for the drill after the last event
+    eventId?: string; // Unset for drill between events
+    rows: RunSheetRow[];
+}
+
+const KIND_ORDER: Record<RunSheetRowKind, number> = { EVENT: 0, CUE: 1, ACTION: 2 };
+
+// Where an owner stands at a time: the entity itself, or the centre of a group
+const createPoseLookup = (parade: ParadeState) => {
+    const frames = new Map<number, Entity[]>();
+    return (ownerId: string, time: number): Pose | undefined => {
+        if (!frames.has(time)) frames.set(time, getParadeStateAtTime(parade, time).entities);
+        const entities = frames.get(time)!;
+        if (parade.groups[ownerId]) {
+            const member = entities.find(e => e.groupId === ownerId);
+            if (!member) return undefined;
+            return { ...getGroupAnchor(entities, ownerId, 'C'), rotation: member.rotation };
+        }
+        const entity = entities.find(e => e.id === ownerId);
+        return entity && { x: entity.x, y: entity.y, rotation: entity.rotation };
+    };
+};
+
+export const buildRunSheet = (parade: ParadeState): RunSheetPhase[] => {
+    const poseAt = createPoseLookup(parade);
+    const rows: RunSheetRow[] = [];
+
+    (Object.values(parade.animation.tracks) as AnimationTrack[]).forEach(track => track.actions.forEach(action => {
+        rows.push({
+            time: action.startTime,
+            duration: action.duration,
+            kind: 'ACTION',
+            who: getOwnerLabel(parade, track.ownerId),
+            what: describeClip(parade, track.ownerId, action),
+            from: poseAt(track.ownerId, action.startTime),
+            to: poseAt(track.ownerId, action.startTime + action.duration)
+        });
+    }));
+    (parade.animation.cues || []).forEach(cue => rows.push({
+        time: cue.time,
+        duration: 0,
+        kind: 'CUE',
+        who: cue.giverId ? getOwnerLabel(parade, cue.giverId) : '',
+        what: `${cue.caution ? `${cue.caution}... ` : ''}${cue.executive.toUpperCase()}`
+    }));
+
+    const events = [...(parade.animation.programme || [])].sort((a, b) => a.startTime - b.startTime);
+    events.forEach(event => {
+        const kindLabel = PROGRAMME_EVENT_KINDS.find(k => k.kind === event.kind)?.label;
+        rows.push({
+            time: event.startTime,
+            duration: event.duration,
+            kind: 'EVENT',
+            eventId: event.id,
+            who: '',
+            what: kindLabel && kindLabel !== event.name ? `${event.name} (${kindLabel})` : event.name
+        });
+    });
+
+    // Drill before, between and after the programme events
+    const phases: RunSheetPhase[] = [];
+    let cursor = 0;
+    events.forEach(event => {
+        if (event.startTime > cursor) phases.push({ title: 'Drill', start: cursor, end: event.startTime, rows: [] });
+        phases.push({ title: event.name, start: event.startTime, end: event.startTime + event.duration, eventId: event.id, rows: [] });
+        cursor = Math.max(cursor, event.startTime + event.duration);
+    });
+    phases.push({ title: 'Drill', start: cursor, end: Infinity, rows: [] });
+
+    rows
+        .sort((a, b) => a.time - b.time || KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
+        .forEach(row => {
+            // Events open their own phase; anything else goes in the phase it happens in
+            const phase = row.eventId
+                ? phases.find(p => p.eventId === row.eventId)
+                : phases.find(p => row.time >= p.start && row.time < p.end);
+            (phase || phases[phases.length - 1]).rows.push(row);
+        });
+
+    const filled = phases.filter(p => p.rows.length > 0);
+    const drillCount = filled.filter(p => !p.eventId).length;
+    let drillNumber = 0;
+    return filled.map(p => !p.eventId && drillCount > 1 ? { ...p, title: `Drill ${++drillNumber}` } : p);
+};
+
+const formatPose = (config: ParadeConfig, pose?: Pose) =>
+    pose ? `${formatDistanceValue(pose.x, config)}, ${formatDistanceValue(pose.y, config)} @ ${Math.round(pose.rotation)}°` : '';
+
+// --- CSV ---
+
+const getCsvColumns = (config: ParadeConfig) => {
+    const unit = getUnitSuffix(config);
+    return ['Phase', 'Time', 'End', 'Type', 'Who', 'What', `From X (${unit})`, `From Y (${unit})`, 'From Bearing', `To X (${unit})`, `To Y (${unit})`, 'To Bearing', 'Duration (s)'];
+};
+
+const csvCell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const poseCells = (config: ParadeConfig, pose?: Pose) =>
+    pose ? [toDisplayDistance(pose.x, config).toFixed(2), toDisplayDistance(pose.y, config).toFixed(2), Math.round(pose.rotation)] : ['', '', ''];
+
+export const runSheetToCsv = (phases: RunSheetPhase[], config: ParadeConfig): string => [
+    getCsvColumns(config).join(','),
+    ...phases.flatMap(phase => phase.rows.map(row => [
+        phase.title,
+        formatScriptTime(row.time),
+        row.duration > 0 ? formatScriptTime(row.time + row.duration) : '',
+        row.kind,
+        row.who,
+        row.what,
+        ...poseCells(config, row.from),
+        ...poseCells(config, row.to),
+        row.duration > 0 ? row.duration.toFixed(2) : ''
+    ].map(csvCell).join(',')))
+].join('\n');
+
+// --- Print view ---
+
+const PRINT_STYLES = `
+    body { font-family: system-ui, sans-serif; font-size: 11px; color: #111; margin: 24px; }
+    h1 { font-size: 18px; margin: 0; }
+    .meta { color: #555; margin: 4px 0 16px; }
+    h2 { font-size: 13px; margin: 18px 0 6px; padding-bottom: 2px; border-bottom: 2px solid #111; }
+    h2 span { font-weight: normal; color: #555; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+    th { font-size: 10px; text-transform: uppercase; color: #555; }
+    td.time { font-family: monospace; white-space: nowrap; }
+    tr.EVENT td { font-weight: bold; background: #eef6fb; }
+    tr.CUE td { font-style: italic; color: #9a3412; }
+    h2, tr { break-inside: avoid; }
+    @page { margin: 12mm; }
+`;
+
+export const runSheetToHtml = (parade: ParadeState, phases: RunSheetPhase[]): string => {
+    const summary = getRunTimeSummary(parade.animation);
+    const sections = phases.map(phase => `
+        <h2>${escapeHtml(phase.title)} <span>${formatScriptTime(phase.start)}${Number.isFinite(phase.end) ? ` - ${formatScriptTime(phase.end)}` : ''}</span></h2>
+        <table>
+            <thead><tr><th>Time</th><th>Who</th><th>What</th><th>From</th><th>To</th><th>Duration</th></tr></thead>
+            <tbody>
+                ${phase.rows.map(row => `<tr class="${row.kind}">
+                    <td class="time">${formatScriptTime(row.time)}</td>
+                    <td>${escapeHtml(row.who)}</td>
+                    <td>${escapeHtml(row.what)}</td>
+                    <td>${formatPose(parade.config, row.from)}</td>
+                    <td>${formatPose(parade.config, row.to)}</td>
+                    <td class="time">${row.duration > 0 ? `${row.duration.toFixed(1)}s` : ''}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(parade.config.title)} - Run Sheet</title>
+    <style>${PRINT_STYLES}</style>
+</head>
+<body>
+    <h1>${escapeHtml(parade.config.title)}</h1>
+    <div class="meta">
+        Run time ${formatRunTime(summary.runTime)} (drill ${formatRunTime(summary.drillTime)}, programme ${formatRunTime(summary.programmeTime)})
+        &middot; Positions (${getUnitSuffix(parade.config)}) from the top left of the ground, bearings in degrees
+    </div>
+    ${sections || '<p>Nothing on the timeline yet.</p>'}
+</body>
+</html>`;
+};
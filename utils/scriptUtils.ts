@@ -0,0 +1,383 @@
+import { ParadeState, AnimationAction, AnimationTrack, ActionLane, Posture, ScriptError } from '../types';
+import { ORDER_STEP_PACES } from '../constants';
+import { getActionLane, appendTrackAction } from './animationUtils';
+import { getCadenceDuration, getMarchTempo } from './cadenceUtils';
+import { getOwnerLabel } from './collisionUtils';
+import { DRILL_COMMANDS, DrillCommand } from './drillCommands';
+import { toMarchPaces } from './unitUtils';
+
+// --- Drill script ---
+// Tracks written out as plain text, one line per run of back-to-back clips:
+//
+//   00:12 Contingent 1: quick march 20 paces; left wheel; halt
+//   00:30 RSM: turn to 90 for 1.5s
+//
+// A line without a time carries on from its owner's previous clip. Owners are named by their
+// label, or by `@id` where the label is ambiguous. `#` starts a comment.
+
+type ClipSpec = Omit<AnimationAction, 'id' | 'startTime'>;
+
+const DEFAULT_COMMAND_COUNT = 10;
+const DEFAULT_POSTURE_HOLD = 5; // Seconds, as for clips added from the timeline
+
+const POSTURE_WORDS: Record<Posture, string> = {
+    ATTENTION: 'attention',
+    STAND_AT_EASE: 'stand at ease',
+    SALUTE: 'salute',
+    PRESENT_ARMS: 'present arms',
+    COLOURS_LOWERED: 'colours lowered'
+};
+
+const NUM = '(-?\\d+(?:\\.\\d+)?)';
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+export const formatScriptTime = (seconds: number): string => {
+    const total = Math.max(0, Math.round(seconds * 100) / 100);
+    const minutes = Math.floor(total / 60);
+    const rest = Math.round((total - minutes * 60) * 100) / 100;
+    return `${String(minutes).padStart(2, '0')}:${rest < 10 ? '0' : ''}${fmt(rest)}`;
+};
+
+// --- Owners ---
+
+const getOwnerIds = (parade: ParadeState) => [
+    ...Object.keys(parade.groups),
+    ...parade.entities.map(e => e.id),
+    ...Object.keys(parade.animation.tracks).filter(id => !parade.groups[id] && !parade.entities.some(e => e.id === id))
+];
+
+const countLabels = (parade: ParadeState) => {
+    const counts = new Map<string, number>();
+    getOwnerIds(parade).forEach(id => {
+        const key = getOwnerLabel(parade, id).trim().toLowerCase();
+        counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+};
+
+const getOwnerRef = (parade: ParadeState, ownerId: string, labelCounts: Map<string, number>) => {
+    const label = getOwnerLabel(parade, ownerId);
+    const isSafe = label === label.trim() && label !== '' && !/[:;#]/.test(label) && !label.startsWith('@') && !/^\d+:\d/.test(label);
+    return isSafe && label !== ownerId && labelCounts.get(label.toLowerCase()) === 1 ? label : `@${ownerId}`;
+};
+
+const resolveOwnerRef = (parade: ParadeState, ref: string): { ownerId?: string, error?: string } => {
+    if (ref.startsWith('@')) {
+        const id = ref.slice(1);
+        return getOwnerIds(parade).includes(id) ? { ownerId: id } : { error: `No owner with id ${id}` };
+    }
+    const matches = getOwnerIds(parade).filter(id => getOwnerLabel(parade, id).trim().toLowerCase() === ref.toLowerCase());
+    if (matches.length === 0) return { error: `No group or entity called "${ref}"` };
+    if (matches.length > 1) return { error: `"${ref}" names ${matches.length} owners; use @id instead` };
+    return { ownerId: matches[0] };
+};
+
+// --- Serializing ---
+
+const getCommandContext = (parade: ParadeState, ownerId: string, count: number) => ({
+    config: parade.config,
+    isContingent: parade.groups[ownerId]?.type === 'CONTINGENT',
+    count
+});
+
+// The word of command a clip was generated from, if it still matches what the command builds
+const describeCommand = (parade: ParadeState, ownerId: string, action: AnimationAction, command: DrillCommand): string | null => {
+    let count = DEFAULT_COMMAND_COUNT;
+    if (command.countLabel === 'Paces') count = Math.round(toMarchPaces(-(action.payload.targetY ?? 0), parade.config, action.marchMode || 'QUICK') * 100) / 100;
+    if (command.countLabel === 'Beats') count = Math.round(action.duration * getMarchTempo(parade.config, 'QUICK') / 60);
+    if (count <= 0) return null;
+
+    const steps = command.build(getCommandContext(parade, ownerId, count));
+    if (steps.length !== 1) return null;
+    const [step] = steps;
+    const matches = step.type === action.type
+        && step.marchMode === (action.marchMode || 'MANUAL')
+        && (step.motionProfile || 'LINEAR') === (action.motionProfile || 'LINEAR')
+        && (step.marchMode !== 'MANUAL' || Math.abs(step.duration - action.duration) < 0.005)
+        && Object.entries(step.payload).every(([key, value]) => action.payload[key as keyof ClipSpec['payload']] === value);
+    if (!matches) return null;
+
+    return command.label.toLowerCase() + (command.countLabel ? ` ${fmt(count)} ${command.countLabel.toLowerCase()}` : '');
+};
+
+// Group wheels name their pivot when it isn't the one a plain "wheel" gives the owner: the
+// drill pivot for contingents, the centre for other groups
+const PIVOT_WORDS: Record<NonNullable<AnimationAction['payload']['pivotCorner']>, string> = {
+    TL: 'tl', TR: 'tr', BL: 'bl', BR: 'br', CENTER: 'centre'
+};
+
+const describeWheelPivot = (parade: ParadeState, ownerId: string, action: AnimationAction): string => {
+    const group = parade.groups[ownerId];
+    if (!group) return '';
+    const isContingent = group.type === 'CONTINGENT';
+    if (action.payload.wheelMode === 'DRILL') return isContingent ? '' : ' drill';
+    const corner = action.payload.pivotCorner || 'TL';
+    return !isContingent && corner === 'CENTER' ? '' : ` about ${PIVOT_WORDS[corner]}`;
+};
+
+const getWheelPayload = (parade: ParadeState, ownerId: string, angle: number, pivot?: string): ClipSpec['payload'] => {
+    const isContingent = parade.groups[ownerId]?.type === 'CONTINGENT';
+    if (pivot === 'drill') return { wheelAngle: angle, wheelMode: 'DRILL' };
+    const corner = (Object.keys(PIVOT_WORDS) as (keyof typeof PIVOT_WORDS)[]).find(c => PIVOT_WORDS[c] === pivot);
+    if (corner) return { wheelAngle: angle, wheelMode: isContingent ? 'RIGID' : undefined, pivotCorner: corner };
+    return isContingent
+        ? { wheelAngle: angle, wheelMode: 'DRILL' }
+        : { wheelAngle: angle, wheelMode: undefined, pivotCorner: 'CENTER' };
+};
+
+const describePrimitive = (parade: ParadeState, ownerId: string, action: AnimationAction): string => {
+    const p = action.payload;
+    switch (action.type) {
+        case 'MOVE':
+            return `move ${p.targetMode === 'RELATIVE' ? 'by' : 'to'} ${fmt(p.targetX ?? 0)}, ${fmt(p.targetY ?? 0)}`;
+        case 'TURN':
+            return `turn ${p.targetMode === 'RELATIVE' ? 'by' : 'to'} ${fmt(p.targetRotation ?? 0)}`;
+        case 'WHEEL':
+            return `wheel ${fmt(p.wheelAngle ?? 90)}${describeWheelPivot(parade, ownerId, action)}`;
+        case 'FORMATION_CHANGE':
+            return ['form',
+                p.targetRows !== undefined ? `${p.targetRows} ranks` : '',
+                p.targetCols !== undefined ? `${p.targetCols} files` : '',
+                p.targetBearing !== undefined ? `bearing ${fmt(p.targetBearing)}` : ''
+            ].filter(Boolean).join(' ');
+        case 'OPEN_ORDER':
+        case 'CLOSE_ORDER': {
+            const paces = p.orderPaces ?? ORDER_STEP_PACES;
+            return `${action.type === 'OPEN_ORDER' ? 'open' : 'close'} order${paces !== ORDER_STEP_PACES ? ` ${fmt(paces)} paces` : ''}`;
+        }
+        case 'DRESS':
+            return 'dress';
+        case 'POSTURE':
+            return POSTURE_WORDS[p.posture || 'ATTENTION'];
+    }
+};
+
+// Script phrase for one clip: its word of command where it still matches, else the primitive
+export const describeClip = (parade: ParadeState, ownerId: string, action: AnimationAction): string => {
+    const command = action.label ? DRILL_COMMANDS.find(c => c.label === action.label) : undefined;
+    const phrase = command ? describeCommand(parade, ownerId, action, command) : null;
+    if (phrase) return phrase;
+
+    const marchMode = action.marchMode || 'MANUAL';
+    const timing = marchMode === 'MANUAL' ? ` for ${fmt(action.duration)}s` : marchMode === 'SLOW' ? ' in slow time' : '';
+    return describePrimitive(parade, ownerId, action) + timing;
+};
+
+// Clips closer than this are written on one line
+const CHAIN_TOLERANCE = 0.005;
+
+export const serializeScript = (parade: ParadeState): string => {
+    const labelCounts = countLabels(parade);
+    const order = [...(parade.animation.trackOrder || []), ...getOwnerIds(parade)];
+    const runs: { start: number, rank: number, lane: ActionLane, text: string }[] = [];
+
+    (Object.values(parade.animation.tracks) as AnimationTrack[]).forEach(track => {
+        const ownerRef = getOwnerRef(parade, track.ownerId, labelCounts);
+        (['MOTION', 'POSTURE'] as ActionLane[]).forEach(lane => {
+            const clips = track.actions.filter(a => getActionLane(a.type) === lane).sort((a, b) => a.startTime - b.startTime);
+            let run: AnimationAction[] = [];
+            const flush = () => {
+                if (run.length === 0) return;
+                runs.push({
+                    start: run[0].startTime,
+                    rank: order.indexOf(track.ownerId),
+                    lane,
+                    text: `${formatScriptTime(run[0].startTime)} ${ownerRef}: ${run.map(a => describeClip(parade, track.ownerId, a)).join('; ')}`
+                });
+                run = [];
+            };
+            clips.forEach(clip => {
+                const previous = run[run.length - 1];
+                if (previous && Math.abs(previous.startTime + previous.duration - clip.startTime) > CHAIN_TOLERANCE) flush();
+                run.push(clip);
+            });
+            flush();
+        });
+    });
+
+    runs.sort((a, b) => a.start - b.start || a.rank - b.rank || (a.lane === b.lane ? 0 : a.lane === 'MOTION' ? -1 : 1));
+    return runs.map(r => r.text).join('\n') + (runs.length > 0 ? '\n' : '');
+};
+
+// --- Parsing ---
+
+const parseStatement = (parade: ParadeState, ownerId: string, statement: string): { spec?: ClipSpec, error?: string } => {
+    let phrase = statement.trim().toLowerCase().replace(/\s+/g, ' ');
+    let duration: number | undefined;
+    let slow = false;
+
+    // Timing modifiers, in either order
+    for (let i = 0; i < 2; i++) {
+        const forMatch = phrase.match(new RegExp(`^(.*) for ${NUM} ?s(?:ec(?:ond)?s?)?$`));
+        if (forMatch) {
+            phrase = forMatch[1];
+            duration = parseFloat(forMatch[2]);
+        }
+        const slowMatch = phrase.match(/^(.*) in slow time$/);
+        if (slowMatch) {
+            phrase = slowMatch[1];
+            slow = true;
+        }
+    }
+    if (duration !== undefined && !(duration > 0)) return { error: `Duration must be more than 0s` };
+
+    const withTiming = (spec: ClipSpec): { spec: ClipSpec } => {
+        if (duration !== undefined) return { spec: { ...spec, marchMode: 'MANUAL', duration } };
+        if (slow) return { spec: { ...spec, marchMode: 'SLOW' } };
+        return { spec };
+    };
+    const marched = (type: ClipSpec['type'], payload: ClipSpec['payload']): ClipSpec => ({ type, duration: 1, marchMode: 'QUICK', payload });
+
+    // Words of command, longest first so "quick march" isn't read as something shorter
+    const commands = [...DRILL_COMMANDS].sort((a, b) => b.label.length - a.label.length);
+    for (const command of commands) {
+        const label = command.label.toLowerCase();
+        if (phrase !== label && !phrase.startsWith(label + ' ')) continue;
+        const rest = phrase.slice(label.length).trim();
+        let count = DEFAULT_COMMAND_COUNT;
+        if (rest) {
+            const countMatch = rest.match(/^(\d+(?:\.\d+)?)(?: (?:paces?|beats?))?$/);
+            if (!command.countLabel || !countMatch) return { error: `Unexpected "${rest}" after "${label}"` };
+            count = parseFloat(countMatch[1]);
+            if (!(count > 0)) return { error: `"${label}" needs a count above 0` };
+        }
+        const steps = command.build(getCommandContext(parade, ownerId, count));
+        return withTiming({ ...steps[0], label: command.label });
+    }
+
+    let m: RegExpMatchArray | null;
+    if ((m = phrase.match(new RegExp(`^move (to|by) ${NUM} ?, ?${NUM}$`)))) {
+        return withTiming(marched('MOVE', { targetMode: m[1] === 'by' ? 'RELATIVE' : 'ABSOLUTE', targetX: parseFloat(m[2]), targetY: parseFloat(m[3]) }));
+    }
+    if ((m = phrase.match(new RegExp(`^turn (to|by) ${NUM}$`)))) {
+        return withTiming(marched('TURN', { targetMode: m[1] === 'by' ? 'RELATIVE' : 'ABSOLUTE', targetRotation: parseFloat(m[2]) }));
+    }
+    if ((m = phrase.match(new RegExp(`^wheel ${NUM}(?: (drill|about (?:tl|tr|bl|br|centre)))?$`)))) {
+        if (m[2] && !parade.groups[ownerId]) return { error: `Only groups can wheel ${m[2]}` };
+        return withTiming(marched('WHEEL', getWheelPayload(parade, ownerId, parseFloat(m[1]), m[2]?.replace(/^about /, ''))));
+    }
+    if ((m = phrase.match(/^form(?: (\d+) ranks?)?(?: (\d+) files?)?(?: bearing (-?\d+(?:\.\d+)?))?$/)) && (m[1] || m[2] || m[3])) {
+        if (!parade.groups[ownerId]) return { error: 'Only groups can change formation' };
+        return withTiming(marched('FORMATION_CHANGE', {
+            targetRows: m[1] ? parseInt(m[1]) : undefined,
+            targetCols: m[2] ? parseInt(m[2]) : undefined,
+            targetBearing: m[3] ? parseFloat(m[3]) : undefined
+        }));
+    }
+    if ((m = phrase.match(/^(open|close) order(?: (\d+(?:\.\d+)?) paces?)?$/))) {
+        if (!parade.groups[ownerId]) return { error: `Only groups can ${m[1]} order` };
+        return withTiming(marched(m[1] === 'open' ? 'OPEN_ORDER' : 'CLOSE_ORDER', { orderPaces: m[2] ? parseFloat(m[2]) : ORDER_STEP_PACES }));
+    }
+    if (phrase === 'dress') {
+        if (!parade.groups[ownerId]) return { error: 'Only groups can dress' };
+        return withTiming(marched('DRESS', {}));
+    }
+    const posture = (Object.keys(POSTURE_WORDS) as Posture[]).find(p => POSTURE_WORDS[p] === phrase);
+    if (posture) {
+        return { spec: { type: 'POSTURE', duration: duration ?? DEFAULT_POSTURE_HOLD, marchMode: 'MANUAL', payload: { posture } } };
+    }
+
+    return { error: `Don't know how to "${statement.trim()}"` };
+};
+
+// Parsed clips take over the ids and any finer detail (waypoints, anchors, profiles) of the
+// clips they replace, matched in order on each lane, so a round trip through text keeps them.
+// Returns a function that merges each parsed clip in turn.
+const createMerger = (existing: AnimationAction[]) => {
+    const byLane: Record<ActionLane, AnimationAction[]> = {
+        MOTION: existing.filter(a => getActionLane(a.type) === 'MOTION').sort((a, b) => a.startTime - b.startTime),
+        POSTURE: existing.filter(a => getActionLane(a.type) === 'POSTURE').sort((a, b) => a.startTime - b.startTime)
+    };
+    const used: Record<ActionLane, number> = { MOTION: 0, POSTURE: 0 };
+
+    return (action: AnimationAction): AnimationAction => {
+        const lane = getActionLane(action.type);
+        const previous = byLane[lane][used[lane]++];
+        if (!previous || previous.type !== action.type) return action;
+
+        const payload = { ...previous.payload, ...action.payload };
+        // Waypoints are offsets or positions depending on the frame; they don't survive a change of frame
+        if ((previous.payload.targetMode || 'ABSOLUTE') !== (action.payload.targetMode || 'ABSOLUTE')) delete payload.waypoints;
+        const merged: AnimationAction = { ...previous, ...action, id: previous.id, payload };
+        if (!action.label) delete merged.label;
+        return merged;
+    };
+};
+
+const sameActions = (a: AnimationAction[], b: AnimationAction[]) => {
+    const key = (actions: AnimationAction[]) => JSON.stringify([...actions].sort((x, y) => x.startTime - y.startTime || x.id.localeCompare(y.id)));
+    return key(a) === key(b);
+};
+
+export const parseScript = (parade: ParadeState, text: string): { tracks: Record<string, AnimationTrack> | null, errors: ScriptError[] } => {
+    const errors: ScriptError[] = [];
+    const statements = new Map<string, { spec: ClipSpec, start?: number, line: number }[]>();
+
+    text.split('\n').forEach((raw, index) => {
+        const line = index + 1;
+        const content = raw.replace(/#.*$/, '').trim();
+        if (!content) return;
+
+        const m = content.match(/^(?:(\d+):(\d{1,2}(?:\.\d+)?)\s+)?([^:]+?)\s*:\s*(.*)$/);
+        if (!m) {
+            errors.push({ line, message: 'Expected "MM:SS Owner: command; command"' });
+            return;
+        }
+        const start = m[1] !== undefined ? parseInt(m[1]) * 60 + parseFloat(m[2]) : undefined;
+        const owner = resolveOwnerRef(parade, m[3].trim());
+        if (!owner.ownerId) {
+            errors.push({ line, message: owner.error! });
+            return;
+        }
+
+        const parts = m[4].split(';').map(s => s.trim()).filter(Boolean);
+        if (parts.length === 0) errors.push({ line, message: 'No commands after the owner' });
+        const list = statements.get(owner.ownerId) || [];
+        parts.forEach((part, i) => {
+            const result = parseStatement(parade, owner.ownerId!, part);
+            if (result.error) errors.push({ line, message: result.error });
+            else list.push({ spec: result.spec!, start: i === 0 ? start : undefined, line });
+        });
+        statements.set(owner.ownerId, list);
+    });
+    if (errors.length > 0) return { tracks: null, errors };
+
+    // Groups first: members' own clips start from wherever their group has taken them
+    const ownerIds = [...statements.keys()].sort((a, b) => (parade.groups[a] ? 0 : 1) - (parade.groups[b] ? 0 : 1));
+    const tracks: Record<string, AnimationTrack> = { ...parade.animation.tracks };
+    Object.keys(tracks).forEach(id => {
+        if (!statements.has(id) && tracks[id].actions.length > 0) tracks[id] = { ...tracks[id], actions: [] };
+    });
+
+    ownerIds.forEach(ownerId => {
+        const laneEnd: Record<ActionLane, number> = { MOTION: 0, POSTURE: 0 };
+        let cursor = 0;
+        // Clips are timed as the track grows, each from where the owner stands when it begins
+        const built: AnimationTrack = { ownerId, actions: [] };
+        const probe: ParadeState = { ...parade, animation: { ...parade.animation, tracks: { ...tracks, [ownerId]: built } } };
+        const existing = parade.animation.tracks[ownerId];
+        const merge = createMerger(existing?.actions || []);
+
+        statements.get(ownerId)!.forEach(({ spec, start, line }) => {
+            const lane = getActionLane(spec.type);
+            const startTime = start ?? cursor;
+            if (startTime < laneEnd[lane] - CHAIN_TOLERANCE) {
+                errors.push({ line, message: `Starts at ${formatScriptTime(startTime)}, before the previous clip ends at ${formatScriptTime(laneEnd[lane])}` });
+            }
+
+            // Merged first so waypoints, path modes and anchors count towards the cadence
+            let action = merge({ ...spec, id: crypto.randomUUID(), startTime });
+            const duration = getCadenceDuration(probe, ownerId, action);
+            if (duration !== null) action = { ...action, duration };
+
+            appendTrackAction(built, action);
+            cursor = action.startTime + action.duration;
+            laneEnd[lane] = Math.max(laneEnd[lane], cursor);
+        });
+
+        tracks[ownerId] = existing && sameActions(existing.actions, built.actions) ? existing : built;
+    });
+
+    return errors.length > 0 ? { tracks: null, errors } : { tracks, errors };
+};
@@ -0,0 +1,52 @@
+import { ParadeState, AnimationTrack } from '../types';
+import { getOwnerLabel } from './collisionUtils';
+import { describeClip } from './scriptUtils';
+
+// --- Storyboard ---
+// Stills of the parade at the moments something changes: where clips start and finish, words
+// of command and programme events. Each is captioned with what happens from that moment on.
+
+export interface StoryboardFrame {
+    time: number;
+    captions: string[];
+}
+
+const MERGE_TOLERANCE = 0.05; // Boundaries closer than this are one moment
+
+const getBoundaries = (parade: ParadeState) => {
+    const { animation } = parade;
+    const times = [
+        0,
+        ...(Object.values(animation.tracks) as AnimationTrack[]).flatMap(t => t.actions.flatMap(a => [a.startTime, a.startTime + a.duration])),
+        ...(animation.cues || []).map(c => c.time),
+        ...(animation.programme || []).flatMap(e => [e.startTime, e.startTime + e.duration])
+    ].filter(t => t <= animation.duration).sort((a, b) => a - b);
+    return times.filter((t, i) => i === 0 || t - times[i - 1] > MERGE_TOLERANCE);
+};
+
+const getCaptions = (parade: ParadeState, time: number, isLast: boolean): string[] => {
+    const { animation } = parade;
+    const at = (t: number) => Math.abs(t - time) <= MERGE_TOLERANCE;
+    const tracks = Object.values(animation.tracks) as AnimationTrack[];
+    const captions = [
+        ...(animation.programme || []).filter(e => at(e.startTime)).map(e => e.name),
+        ...(animation.cues || []).filter(c => at(c.time)).map(c => `"${c.caution ? `${c.caution}... ` : ''}${c.executive.toUpperCase()}"`),
+        ...tracks.flatMap(t => t.actions
+            .filter(a => at(a.startTime))
+            .map(a => `${getOwnerLabel(parade, t.ownerId)}: ${describeClip(parade, t.ownerId, a)}`))
+    ];
+    if (captions.length > 0) return captions;
+    if (time === 0) return ['Fall in'];
+    if (isLast) return ['Final positions'];
+    const finishing = tracks.filter(t => t.actions.some(a => at(a.startTime + a.duration))).map(t => getOwnerLabel(parade, t.ownerId));
+    return finishing.length > 0 ? [`${finishing.join(', ')} complete`] : [];
+};
+
+// Up to `count` frames spread evenly over the boundaries, always keeping the first and last
+export const getStoryboardFrames = (parade: ParadeState, count: number): StoryboardFrame[] => {
+    const boundaries = getBoundaries(parade);
+    const picked = boundaries.length <= count
+        ? boundaries
+        : Array.from({ length: count }, (_, i) => boundaries[Math.round(i * (boundaries.length - 1) / Math.max(1, count - 1))]);
+    return picked.map((time, i) => ({ time, captions: getCaptions(parade, time, i === picked.length - 1 && i > 0) }));
+};
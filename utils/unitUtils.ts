@@ -0,0 +1,56 @@
+import { ParadeConfig, MarchMode, DistanceUnit } from '../types';
+import { DEFAULT_PACE_LENGTH } from '../constants';
+
+// --- Distance units ---
+// Everything is stored in quick-time paces. The parade's pace lengths turn those into metres
+// for venue plans and into slow-time paces for timing; its chosen unit decides what's shown.
+
+// The parts of a parade's config that decide how distances convert
+export type UnitSettings = Pick<ParadeConfig, 'paceLength' | 'units'>;
+
+// Metres per pace for a march, falling back to the regulation pace for older saves
+export const getPaceLength = (config: UnitSettings, mode: MarchMode = 'QUICK'): number => {
+    const length = config.paceLength || DEFAULT_PACE_LENGTH;
+    const value = mode === 'SLOW' ? length.slow : length.quick;
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_PACE_LENGTH.quick;
+};
+
+export const getDistanceUnit = (config: UnitSettings): DistanceUnit => config.units || 'PACES';
+
+export const pacesToMetres = (paces: number, config: UnitSettings) => paces * getPaceLength(config);
+
+export const metresToPaces = (metres: number, config: UnitSettings) => metres / getPaceLength(config);
+
+// Paces of the given march needed to cover a stored distance
+export const toMarchPaces = (paces: number, config: UnitSettings, mode: MarchMode) =>
+    mode === 'SLOW' ? paces * getPaceLength(config) / getPaceLength(config, 'SLOW') : paces;
+
+// Stored paces covered by a number of paces of the given march
+export const fromMarchPaces = (paces: number, config: UnitSettings, mode: MarchMode) =>
+    mode === 'SLOW' ? paces * getPaceLength(config, 'SLOW') / getPaceLength(config) : paces;
+
+// Stored paces to and from the parade's chosen unit
+export const toDisplayDistance = (paces: number, config: UnitSettings) =>
+    getDistanceUnit(config) === 'METRES' ? pacesToMetres(paces, config) : paces;
+
+export const fromDisplayDistance = (value: number, config: UnitSettings) =>
+    getDistanceUnit(config) === 'METRES' ? metresToPaces(value, config) : value;
+
+// Value for a number input: metres are shown to the centimetre, paces as stored
+export const toInputDistance = (paces: number, config: UnitSettings) =>
+    getDistanceUnit(config) === 'METRES' ? Math.round(pacesToMetres(paces, config) * 100) / 100 : paces;
+
+// Spinner step for distance inputs, roughly the same length on the ground in either unit
+export const getDistanceStep = (config: UnitSettings) => getDistanceUnit(config) === 'METRES' ? 0.1 : 0.5;
+
+// For input labels and column headings, e.g. "X (Paces)"
+export const getUnitLabel = (config: UnitSettings) => getDistanceUnit(config) === 'METRES' ? 'Metres' : 'Paces';
+
+// For running text and table headings, e.g. "12 paces"
+export const getUnitSuffix = (config: UnitSettings) => getDistanceUnit(config) === 'METRES' ? 'm' : 'paces';
+
+export const formatDistanceValue = (paces: number, config: UnitSettings) =>
+    toDisplayDistance(paces, config).toFixed(getDistanceUnit(config) === 'METRES' ? 2 : 1);
+
+export const formatDistance = (paces: number, config: UnitSettings) =>
+    `${formatDistanceValue(paces, config)} ${getUnitSuffix(config)}`;
@@ -0,0 +1,156 @@
+import { ParadeState, LintIssue, AnimationTrack } from '../types';
+import { MAX_MARCH_RATE, TURN_ANGLE_STEP } from '../constants';
+import { getActionBeats } from './cadenceUtils';
+import { findContacts, getOwnerLabel } from './collisionUtils';
+import { getEventClashes } from './programmeUtils';
+
+// --- Parade lint ---
+// Static checks of a parade against drill rules. Each rule returns its own issues; the report
+// lists errors (the parade won't play as written) before warnings (it plays, but not as drilled).
+
+type LintCheck = (parade: ParadeState) => LintIssue[];
+
+const getTracks = (parade: ParadeState) => Object.values(parade.animation.tracks) as AnimationTrack[];
+
+// Entities placed off the parade ground
+const checkBounds: LintCheck = ({ config, entities }) =>
+    entities
+        .filter(e => e.x < 0 || e.y < 0 || e.x > config.width || e.y > config.height)
+        .map(e => ({
+            id: `OUT_OF_BOUNDS:${e.id}`,
+            rule: 'OUT_OF_BOUNDS',
+            severity: 'WARNING',
+            message: `${e.label} stands off the ground at (${e.x.toFixed(1)}, ${e.y.toFixed(1)})`,
+            entityIds: [e.id]
+        }));
+
+// Sprites on top of each other at Time 0 (same collision rules as playback)
+const checkOverlaps: LintCheck = (parade) =>
+    findContacts(parade.entities).map(contact => {
+        const [a, b] = contact.entityIds.map(id => parade.entities.find(e => e.id === id)!);
+        return {
+            id: `OVERLAP:${contact.entityIds.join('|')}`,
+            rule: 'OVERLAP',
+            severity: 'WARNING',
+            message: `${a.label} overlaps ${b.label} at the start`,
+            entityIds: [a.id, b.id]
+        };
+    });
+
+// Moves covering ground faster than troops can march it
+const checkMoveSpeeds: LintCheck = (parade) =>
+    getTracks(parade).flatMap(track => {
+        if (!parade.groups[track.ownerId] && !parade.entities.some(e => e.id === track.ownerId)) return [];
+        return track.actions
+            .filter(a => a.type === 'MOVE')
+            .flatMap((action): LintIssue[] => {
+                const paces = getActionBeats(parade, track.ownerId, action);
+                const rate = action.duration > 0 ? paces * 60 / action.duration : (paces > 0 ? Infinity : 0);
+                if (rate <= MAX_MARCH_RATE) return [];
+                return [{
+                    id: `MOVE_TOO_FAST:${action.id}`,
+                    rule: 'MOVE_TOO_FAST',
+                    severity: 'WARNING',
+                    message: `${getOwnerLabel(parade, track.ownerId)} moves ${paces.toFixed(1)} paces in ${action.duration.toFixed(2)}s `
+                        + `(${Number.isFinite(rate) ? Math.round(rate) : '∞'} paces/min, limit ${MAX_MARCH_RATE})`,
+                    entityIds: [],
+                    actionId: action.id
+                }];
+            });
+    });
+
+// Turns to bearings that aren't on the drill compass
+const checkTurnAngles: LintCheck = (parade) =>
+    getTracks(parade).flatMap(track => track.actions
+        .filter(a => a.type === 'TURN' && a.payload.targetRotation !== undefined)
+        .filter(a => Math.abs(a.payload.targetRotation! % TURN_ANGLE_STEP) > 1e-6)
+        .map((action): LintIssue => ({
+            id: `TURN_ANGLE:${action.id}`,
+            rule: 'TURN_ANGLE',
+            severity: 'WARNING',
+            message: `${getOwnerLabel(parade, track.ownerId)} turns ${action.payload.targetMode === 'RELATIVE' ? 'by' : 'to'} ${action.payload.targetRotation}°, not a multiple of ${TURN_ANGLE_STEP}°`,
+            entityIds: [],
+            actionId: action.id
+        })));
+
+// Tracks left behind by deleted entities or groups
+const checkOrphanTracks: LintCheck = (parade) =>
+    getTracks(parade)
+        .filter(t => t.actions.length > 0 && !parade.groups[t.ownerId] && !parade.entities.some(e => e.id === t.ownerId))
+        .map(track => ({
+            id: `ORPHAN_TRACK:${track.ownerId}`,
+            rule: 'ORPHAN_TRACK',
+            severity: 'ERROR',
+            message: `Track of ${track.actions.length} clip${track.actions.length === 1 ? '' : 's'} belongs to an owner that no longer exists`,
+            entityIds: [],
+            actionId: track.actions[0].id
+        }));
+
+// Groups whose members have all gone. A group that still has clips keeps animating nobody:
+// its members were ungrouped (or deleted) without the group track being baked or removed.
+const checkEmptyGroups: LintCheck = (parade) =>
+    Object.values(parade.groups)
+        .filter(g => !parade.entities.some(e => e.groupId === g.id))
+        .map(group => {
+            const actions = parade.animation.tracks[group.id]?.actions || [];
+            if (actions.length === 0) {
+                return {
+                    id: `EMPTY_GROUP:${group.id}`,
+                    rule: 'EMPTY_GROUP',
+                    severity: 'WARNING',
+                    message: `Group ${group.label} has no members`,
+                    entityIds: []
+                };
+            }
+            const lastEnd = Math.max(...actions.map(a => a.startTime + a.duration));
+            return {
+                id: `GROUP_TRACK_AFTER_UNGROUP:${group.id}`,
+                rule: 'GROUP_TRACK_AFTER_UNGROUP',
+                severity: 'ERROR',
+                message: `Group ${group.label} has no members but its track runs to ${lastEnd.toFixed(1)}s`,
+                entityIds: [],
+                actionId: actions[0].id
+            };
+        });
+
+// Clips a group was given after some of its members were ungrouped. The men who left kept a
+// copy of the track only as far as it then ran, so they stand still while the rest carry on.
+const checkPartialUngroups: LintCheck = (parade) =>
+    Object.values(parade.groups).flatMap(group => {
+        const leavers = (group.formerMembers || []).filter(f => parade.entities.some(e => e.id === f.entityId && e.groupId !== group.id));
+        if (leavers.length === 0) return [];
+        return (parade.animation.tracks[group.id]?.actions || []).flatMap((action): LintIssue[] => {
+            const left = leavers.filter(f => action.startTime >= f.leftAt);
+            if (left.length === 0) return [];
+            const names = left.map(f => parade.entities.find(e => e.id === f.entityId)!.label || 'an entity');
+            return [{
+                id: `GROUP_TRACK_AFTER_UNGROUP:${group.id}:${action.id}`,
+                rule: 'GROUP_TRACK_AFTER_UNGROUP',
+                severity: 'WARNING',
+                message: `Group ${group.label} carries on at ${action.startTime.toFixed(1)}s without ${names.join(', ')}, ungrouped when its track ran to ${Math.min(...left.map(f => f.leftAt)).toFixed(1)}s`,
+                entityIds: left.map(f => f.entityId),
+                actionId: action.id
+            }];
+        });
+    });
+
+// Troops marching through a speech or the anthem
+const checkProgrammeClashes: LintCheck = (parade) =>
+    getEventClashes(parade.animation).map(clash => {
+        const event = parade.animation.programme!.find(e => e.id === clash.eventId)!;
+        return {
+            id: `MOVEMENT_DURING_EVENT:${clash.eventId}:${clash.actionId}`,
+            rule: 'MOVEMENT_DURING_EVENT',
+            severity: 'WARNING',
+            message: `${getOwnerLabel(parade, clash.ownerId)} moves during ${event.name} (${clash.start.toFixed(1)}s - ${clash.end.toFixed(1)}s)`,
+            entityIds: [],
+            actionId: clash.actionId
+        };
+    });
+
+const CHECKS: LintCheck[] = [checkOrphanTracks, checkEmptyGroups, checkPartialUngroups, checkBounds, checkOverlaps, checkMoveSpeeds, checkTurnAngles, checkProgrammeClashes];
+
+export const lintParade = (parade: ParadeState): LintIssue[] => {
+    const issues = CHECKS.flatMap(check => check(parade));
+    return [...issues.filter(i => i.severity === 'ERROR'), ...issues.filter(i => i.severity === 'WARNING')];
+};